@@ -1,100 +1,271 @@
-import React, { useState } from 'react';
-import { GoogleGenAI, Type } from '@google/genai';
-import { AppStep, CandidateInfo, InterviewResult } from './types';
+import React, { useEffect, useRef, useState } from 'react';
+import { AppStep, CandidateInfo, HumanReview, Invitation, InvitationStatus, InterviewRecord, InterviewResult, InterviewSessionOutcome, InterviewTranscript, SessionRecording, SkillMatrix } from './types';
 import { CandidateForm } from './components/CandidateForm';
+import { JobAnalysis } from './components/JobAnalysis';
 import { Instructions } from './components/Instructions';
 import { InterviewSession } from './components/InterviewSession';
 import { ResultScreen } from './components/ResultScreen';
+import { Dashboard } from './components/Dashboard';
+import { InviteLink } from './components/InviteLink';
+import { CONNECTION_LOST_REASON } from './utils/reconnect';
+import { getInterviewLanguage } from './utils/languages';
+import { parseRoute, Route } from './utils/routing';
+import { I18nProvider, MessageKey, translate } from './i18n';
+import { getLlmProviders } from './services/llm';
+import { getInterview, getRecording, saveInterview, saveRecording } from './services/interviewStore';
+import { failedEvaluation, PENDING_EVALUATION } from './services/evaluation';
+import { evaluateInterview } from './services/tasks';
+import { openInvitation, redeemInvitation } from './services/invitations';
+import { downloadRecording, reevaluateSubmitted, submitInterview } from './services/submissions';
+import { SessionToken } from './services/llm/protocol';
+
+const INVITE_ERROR_MESSAGES: Record<Exclude<InvitationStatus, 'valid'>, { title: MessageKey; message: MessageKey }> = {
+  invalid: { title: 'invite.invalid.title', message: 'invite.invalid.message' },
+  expired: { title: 'invite.expired.title', message: 'invite.expired.message' },
+  used: { title: 'invite.used.title', message: 'invite.used.message' },
+};
 
 const App: React.FC = () => {
-  const [step, setStep] = useState<AppStep>(AppStep.FORM);
+  // Recruiters set up interviews at the root; candidates arrive through #/interview/<token>
+  const [route, setRoute] = useState<Route>(() => parseRoute());
+  const [step, setStep] = useState<AppStep>(() => route.mode === 'candidate' ? AppStep.INSTRUCTIONS : AppStep.FORM);
   const [candidate, setCandidate] = useState<CandidateInfo | null>(null);
   const [result, setResult] = useState<InterviewResult | null>(null);
+  const [transcript, setTranscript] = useState<InterviewTranscript | null>(null);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [ambientNoiseRms, setAmbientNoiseRms] = useState<number | undefined>(undefined);
+  const [recordId, setRecordId] = useState<string | null>(null);
+  const [review, setReview] = useState<HumanReview | null>(null);
+  // Queue of saves to the open record; see updateRecord
+  const recordSaveRef = useRef<Promise<void>>(Promise.resolve());
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [inviteError, setInviteError] = useState<{ status: Exclude<InvitationStatus, 'valid'>; invitation?: Invitation } | null>(null);
+  // Candidate mode: the session the redeemed link opened, and a finished interview the server has not taken yet
+  const sessionRef = useRef<SessionToken | null>(null);
+  const [unsent, setUnsent] = useState<InterviewSessionOutcome | null>(null);
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseRoute());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Candidate mode: check the link before showing anything; the JD and results stay with the recruiter
+  useEffect(() => {
+    if (route.mode !== 'candidate') {
+      if (invitation || inviteError) resetApp();
+      return;
+    }
+    let cancelled = false;
+    setCandidate(null);
+    setResult(null);
+    setInvitation(null);
+    setInviteError(null);
+    setStep(AppStep.INSTRUCTIONS);
+    openInvitation(route.token)
+      .then(opened => {
+        if (cancelled) return;
+        if (opened.status === 'valid') {
+          setInvitation(opened.invitation);
+          setCandidate(opened.invitation.candidate);
+        } else {
+          setInviteError(opened);
+          setStep(AppStep.INVITE_INVALID);
+        }
+      })
+      .catch(error => {
+        console.error("Failed to open invitation", error);
+        if (cancelled) return;
+        setInviteError({ status: 'invalid' });
+        setStep(AppStep.INVITE_INVALID);
+      });
+    return () => { cancelled = true; };
+  }, [route]);
 
   const handleFormSubmit = (info: CandidateInfo) => {
-    // Ye step change karega aur Instructions screen dikhayega
+    // Ye step change karega aur JD analysis screen dikhayega
     setCandidate(info);
-    setStep(AppStep.INSTRUCTIONS);
+    setStep(AppStep.JD_ANALYSIS);
   };
 
-  const startInterview = () => {
+  const handleMatrixApproved = (skillMatrix: SkillMatrix) => {
+    setCandidate(prev => prev && { ...prev, skillMatrix });
+    setStep(AppStep.INVITE);
+  };
+
+  const startInterview = async (noiseFloor?: number, candidateName?: string) => {
+    if (invitation && route.mode === 'candidate') {
+      // The link is spent the moment the interview starts, so a reload cannot restart it
+      const redeemed = await redeemInvitation(route.token, candidateName).catch(error => {
+        console.error("Failed to redeem invitation", error);
+        return { status: 'invalid' as const, invitation };
+      });
+      if (redeemed.status !== 'valid') {
+        setInviteError({ status: redeemed.status, invitation });
+        setStep(AppStep.INVITE_INVALID);
+        return;
+      }
+      // The server opened the interview's session when it accepted the link
+      sessionRef.current = redeemed.session;
+      getLlmProviders().beginInterview?.(redeemed.session);
+      if (candidateName) setCandidate(prev => prev && { ...prev, name: candidateName });
+    }
+    setAmbientNoiseRms(noiseFloor);
     setStep(AppStep.INTERVIEW);
   };
 
-  const handleInterviewComplete = async (transcript: string, terminationReason?: string) => {
+  // Candidates hand the interview in; the server evaluates it and only the recruiter sees the result
+  const submit = (outcome: InterviewSessionOutcome) => {
+    setUnsent(null);
+    setStep(AppStep.SUBMITTING);
+    submitInterview(sessionRef.current!, outcome)
+      .then(() => setStep(AppStep.SUBMITTED))
+      .catch(error => {
+        console.error("Failed to submit interview", error);
+        setUnsent(outcome);
+      });
+  };
+
+  const handleInterviewComplete = async (outcome: InterviewSessionOutcome) => {
+    if (invitation) {
+      submit(outcome);
+      return;
+    }
+    const { transcript: sessionTranscript, terminationReason, proctoringEvents, difficultyTrajectory, connectionOutages, silences, faceDetectionAvailable, coding } = outcome;
+    setTranscript(sessionTranscript);
+    setRecording(outcome.recording || null);
     setStep(AppStep.EVALUATING);
+
+    // Saved under one id: first with a pending evaluation, so an interrupted one can be re-run, then with the result
+    const id = crypto.randomUUID();
+    const persist = (finalResult: InterviewResult) => candidate
+      ? saveInterview({
+          id,
+          candidate,
+          transcript: sessionTranscript,
+          result: finalResult,
+          terminationReason,
+          startedAt: sessionTranscript.startedAt,
+          endedAt: sessionTranscript.endedAt ?? Date.now(),
+          hasRecording: !!outcome.recording,
+        })
+      : Promise.resolve();
+
+    const showResult = (finalResult: InterviewResult) => {
+        setResult(finalResult);
+        setRecordId(id);
+        setStep(AppStep.RESULT);
+        persist(finalResult)
+            .then(() => outcome.recording && saveRecording(id, outcome.recording))
+            .catch(error => console.error("Failed to save interview", error));
+    };
+    const sessionFields = { proctoringEvents, difficultyTrajectory, connectionOutages, silences, faceDetectionAvailable, coding };
     
-    // Disqualification check
-    if (terminationReason && terminationReason !== "Completed") {
+    // Disqualification check. A connection that could not be restored is not the candidate's fault,
+    // so whatever was captured still gets evaluated.
+    if (terminationReason && terminationReason !== "Completed" && terminationReason !== CONNECTION_LOST_REASON) {
         setTimeout(() => {
-            setResult({
+            showResult({
                 rating: 0,
                 feedback: "Interview terminated early by proctoring system.",
                 passed: false,
                 questions: [],
-                terminationReason: terminationReason
+                terminationReason: terminationReason,
+                ...sessionFields
             });
-            setStep(AppStep.RESULT);
         }, 1500);
         return;
     }
-    
-    // AI Evaluation (Shortened for stability, add API logic back if needed)
-    try {
-      const apiKey = process.env.API_KEY;
-      // Fallback simple result if no API key for testing UI
-      if (!apiKey) {
-          console.warn("No API Key found, showing dummy result");
-          setTimeout(() => {
-            setResult({ rating: 7, feedback: "Great interview (Demo Mode).", passed: true, questions: [] });
-            setStep(AppStep.RESULT);
-          }, 2000);
-          return;
-      }
+    if (!candidate) return;
 
-      const ai = new GoogleGenAI({ apiKey });
-      const prompt = `Evaluate candidate ${candidate?.name} for ${candidate?.field}. Transcript: ${transcript}. Return JSON with rating(1-10), feedback, questions array.`;
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              rating: { type: Type.INTEGER },
-              feedback: { type: Type.STRING },
-              questions: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { question: {type:Type.STRING}, rating: {type:Type.INTEGER}, feedback: {type:Type.STRING}, candidateAnswerSummary: {type:Type.STRING} } } }
-            }
-          }
-        }
-      });
-      
-      const data = JSON.parse(response.text || '{}');
-      setResult({
-        rating: data.rating || 0,
-        feedback: data.feedback || "Evaluation complete.",
-        passed: (data.rating || 0) > 6,
-        questions: data.questions || []
-      });
-      setStep(AppStep.RESULT);
+    persist({ ...PENDING_EVALUATION, ...sessionFields }).catch(error => console.error("Failed to save interview", error));
+    const evaluation = await evaluateInterview({ candidate, transcript: sessionTranscript, terminationReason, connectionOutages, silences, coding });
+    showResult({ ...evaluation, ...sessionFields });
+  };
 
-    } catch (error) {
-      console.error("Evaluation Error", error);
-      setResult({ rating: 0, feedback: "Evaluation failed.", passed: false, questions: [] });
-      setStep(AppStep.RESULT);
-    }
+  // Re-runs a pending or failed evaluation from what the stored interview kept
+  const reevaluate = async () => {
+    if (!candidate || !transcript || !result) return;
+    const record = recordId ? await getInterview(recordId).catch(() => undefined) : undefined;
+    const { evaluationError, evaluationIssues, ...previous } = result;
+    // Submitted interviews are evaluated on the server, which stores the new result as well
+    const evaluation = record?.invitationId
+      ? await reevaluateSubmitted(record.id).catch(error => {
+          console.error("Failed to re-run evaluation", error);
+          return failedEvaluation(error instanceof Error ? error.message : String(error));
+        })
+      : await evaluateInterview({
+          candidate,
+          transcript,
+          terminationReason: record?.terminationReason,
+          connectionOutages: result.connectionOutages || [],
+          silences: result.silences || [],
+          coding: result.coding,
+        });
+    const next: InterviewResult = { ...previous, ...evaluation };
+    setResult(next);
+    // Review edits made while the evaluation ran are on the stored record by now, so it is re-read
+    if (record) updateRecord(record.id, latest => ({ ...latest, result: next }), "Failed to save interview");
+  };
+
+  // Record saves run one after another on a fresh read, so a slower earlier save cannot overwrite a later one
+  const updateRecord = (id: string, change: (record: InterviewRecord) => InterviewRecord, failure: string) => {
+    recordSaveRef.current = recordSaveRef.current
+      .then(() => getInterview(id))
+      .then(record => (record ? saveInterview(change(record)) : undefined))
+      .catch(error => console.error(failure, error));
+  };
+
+  // The AI result stays as evaluated; the reviewer's changes are stored beside it on the record
+  const handleReviewChange = (next: HumanReview) => {
+    setReview(next);
+    if (recordId) updateRecord(recordId, record => ({ ...record, review: next }), "Failed to save review");
   };
 
   const resetApp = () => {
     setCandidate(null);
     setResult(null);
+    setReview(null);
+    setTranscript(null);
+    setRecording(null);
+    setRecordId(null);
+    setInvitation(null);
+    setInviteError(null);
+    setUnsent(null);
+    sessionRef.current = null;
     setStep(AppStep.FORM);
   };
 
+  const openDashboard = () => {
+    setStep(AppStep.DASHBOARD);
+  };
+
+  const openRecord = (record: InterviewRecord) => {
+    setCandidate(record.candidate);
+    setTranscript(record.transcript);
+    setResult(record.result);
+    setReview(record.review || null);
+    setRecordId(record.id);
+    setRecording(null);
+    setStep(AppStep.RESULT);
+    if (record.hasRecording) {
+      // Recordings of submitted interviews stay on the server until first opened
+      getRecording(record.id)
+        .then(stored => stored || (record.invitationId ? downloadRecording(record.id) : null))
+        .then(stored => setRecording(stored || null))
+        .catch(error => console.error("Failed to load recording", error));
+    }
+  };
+
+  // Providers that meter usage only open live sessions for an invitation; the others run the interview
+  // here and evaluate it in the browser
+  const canRunLocally = !getLlmProviders().beginInterview;
   const showHeader = step !== AppStep.INTERVIEW;
-  const isLightBackground = step === AppStep.RESULT;
+  const isLightBackground = step === AppStep.RESULT || step === AppStep.DASHBOARD || step === AppStep.JD_ANALYSIS || step === AppStep.INVITE;
+  const showDashboardLink = route.mode === 'recruiter' && (step === AppStep.FORM || step === AppStep.RESULT || step === AppStep.INVITE);
+  // Screens the candidate sees follow the interview language; recruiter screens stay in English
+  const candidateLocale = getInterviewLanguage(candidate?.language ?? inviteError?.invitation?.candidate.language).locale;
+  const isCandidateFacing = route.mode === 'candidate' || step === AppStep.INSTRUCTIONS || step === AppStep.INTERVIEW || step === AppStep.EVALUATING;
 
   return (
     <div className="h-[100dvh] w-screen overflow-hidden font-sans text-slate-900 bg-slate-50 flex flex-col relative">
@@ -109,34 +280,102 @@ const App: React.FC = () => {
                  Interna
                </h1>
             </div>
+            {showDashboardLink && (
+              <button
+                onClick={openDashboard}
+                className="pointer-events-auto px-4 py-2 rounded-full bg-slate-900/80 backdrop-blur-md text-white text-xs font-bold uppercase tracking-widest hover:bg-indigo-600 transition-colors"
+              >
+                Past Interviews
+              </button>
+            )}
           </div>
         </header>
       )}
 
       {/* Main Content */}
       <main className="flex-1 w-full relative overflow-hidden">
-          {step === AppStep.FORM && (
-            <CandidateForm onSubmit={handleFormSubmit} />
-          )}
-
-          {step === AppStep.INSTRUCTIONS && (
-            <Instructions onStart={startInterview} />
-          )}
-
-          {step === AppStep.INTERVIEW && candidate && (
-            <InterviewSession candidate={candidate} onComplete={handleInterviewComplete} />
-          )}
-
-          {step === AppStep.EVALUATING && (
-             <div className="h-full w-full flex flex-col items-center justify-center bg-slate-900 text-white">
-                <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500 mb-4"></div>
-                <h2 className="text-2xl font-bold">Interna is Analyzing...</h2>
-             </div>
-          )}
-
-          {step === AppStep.RESULT && result && candidate && (
-            <ResultScreen result={result} candidateName={candidate.name} onReset={resetApp} />
-          )}
+        <I18nProvider locale={isCandidateFacing ? candidateLocale : 'en'}>
+            {step === AppStep.FORM && (
+              <CandidateForm onSubmit={handleFormSubmit} initialValues={candidate} />
+            )}
+
+            {step === AppStep.JD_ANALYSIS && candidate && (
+              <JobAnalysis candidate={candidate} onApprove={handleMatrixApproved} onBack={() => setStep(AppStep.FORM)} />
+            )}
+
+            {step === AppStep.INVITE && candidate && (
+              <InviteLink candidate={candidate} onNewInterview={resetApp} onBack={() => setStep(AppStep.FORM)} onRunHere={canRunLocally ? () => setStep(AppStep.INSTRUCTIONS) : undefined} />
+            )}
+
+            {step === AppStep.INSTRUCTIONS && candidate && (
+              <Instructions
+                onStart={startInterview}
+                isRecorded={!!candidate.recordSession}
+                candidateName={invitation ? candidate.name : undefined}
+                role={invitation ? candidate.field : undefined}
+              />
+            )}
+
+            {step === AppStep.INSTRUCTIONS && !candidate && (
+               <div className="h-full w-full flex flex-col items-center justify-center bg-slate-900 text-white">
+                  <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500 mb-4"></div>
+                  <h2 className="text-xl font-bold">{translate(candidateLocale, 'invite.checking')}</h2>
+               </div>
+            )}
+
+            {step === AppStep.INVITE_INVALID && inviteError && (
+               <div className="h-full w-full flex flex-col items-center justify-center bg-slate-900 text-white px-6 text-center">
+                  <h2 className="text-2xl font-bold mb-3">{translate(candidateLocale, INVITE_ERROR_MESSAGES[inviteError.status].title)}</h2>
+                  <p className="text-slate-400 max-w-md">{translate(candidateLocale, INVITE_ERROR_MESSAGES[inviteError.status].message)}</p>
+               </div>
+            )}
+
+            {step === AppStep.INTERVIEW && candidate && (
+              <InterviewSession candidate={candidate} ambientNoiseRms={ambientNoiseRms} onComplete={handleInterviewComplete} />
+            )}
+
+            {step === AppStep.EVALUATING && (
+               <div className="h-full w-full flex flex-col items-center justify-center bg-slate-900 text-white">
+                  <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500 mb-4"></div>
+                  <h2 className="text-2xl font-bold">{translate(candidateLocale, 'app.analyzing')}</h2>
+               </div>
+            )}
+
+            {step === AppStep.SUBMITTING && !unsent && (
+               <div className="h-full w-full flex flex-col items-center justify-center bg-slate-900 text-white">
+                  <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500 mb-4"></div>
+                  <h2 className="text-2xl font-bold">{translate(candidateLocale, 'app.submitting')}</h2>
+               </div>
+            )}
+
+            {step === AppStep.SUBMITTING && unsent && (
+               <div className="h-full w-full flex flex-col items-center justify-center bg-slate-900 text-white px-6 text-center">
+                  <h2 className="text-2xl font-bold mb-3">{translate(candidateLocale, 'app.submitFailed.title')}</h2>
+                  <p className="text-slate-400 max-w-md mb-6">{translate(candidateLocale, 'app.submitFailed.message')}</p>
+                  <button
+                    onClick={() => submit(unsent)}
+                    className="px-6 py-3 rounded-full bg-indigo-600 text-white text-xs font-bold uppercase tracking-widest hover:bg-indigo-500 transition-colors"
+                  >
+                    {translate(candidateLocale, 'app.submitFailed.retry')}
+                  </button>
+               </div>
+            )}
+
+            {step === AppStep.SUBMITTED && (
+               <div className="h-full w-full flex flex-col items-center justify-center bg-slate-900 text-white px-6 text-center">
+                  <h2 className="text-2xl font-bold mb-3">{translate(candidateLocale, 'app.submitted.title')}</h2>
+                  <p className="text-slate-400 max-w-md">{translate(candidateLocale, 'app.submitted.message', { name: candidate?.name || '' })}</p>
+               </div>
+            )}
+
+            {step === AppStep.RESULT && result && candidate && (
+              <ResultScreen result={result} candidate={candidate} transcript={transcript} recording={recording} onReset={resetApp} onReevaluate={reevaluate} review={review} onReviewChange={handleReviewChange} />
+            )}
+
+            {step === AppStep.DASHBOARD && (
+              <Dashboard onOpen={openRecord} onNewInterview={resetApp} />
+            )}
+        </I18nProvider>
       </main>
       
       {/* Footer */}
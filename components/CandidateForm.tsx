@@ -1,34 +1,76 @@
-import React, { useState } from 'react';
-import { CandidateInfo } from '../types';
+import React, { useEffect, useState } from 'react';
+import { BankQuestion, CandidateInfo, ResumeProfile } from '../types';
+import { PREDEFINED_ROLES } from '../utils/roles';
+import { DEFAULT_QUESTION_BANKS } from '../utils/questionBanks';
+import { listQuestionBanks } from '../services/interviewStore';
+import { extractResume, RESUME_ACCEPT } from '../utils/resume';
+import { DEFAULT_TEMPLATE, INTERVIEW_TEMPLATES, templateDurationSec, totalQuestions, withCodingPhase } from '../utils/templates';
+import { isCodingRole } from '../utils/codingProblems';
+import { INTERVIEW_LANGUAGES } from '../utils/languages';
+import { QuestionBankEditor } from './QuestionBankEditor';
 
 interface CandidateFormProps {
   onSubmit: (info: CandidateInfo) => void;
+  initialValues?: CandidateInfo | null; // when returning from the JD analysis step
 }
 
-const PREDEFINED_ROLES = [
-  "Frontend Engineer", 
-  "Backend Engineer", 
-  "Full Stack Developer", 
-  "DevOps Engineer", 
-  "Data Scientist",
-  "Product Manager",
-  "QA Engineer"
-];
-
-const LANGUAGES = [
-  "English", 
-  "Spanish", 
-  "French", 
-  "German", 
-  "Hindi",
-  "Japanese"
-];
-
-export const CandidateForm: React.FC<CandidateFormProps> = ({ onSubmit }) => {
-  const [name, setName] = useState('');
-  const [jobDescription, setJobDescription] = useState('');
-  const [field, setField] = useState('');
-  const [language, setLanguage] = useState('English');
+export const CandidateForm: React.FC<CandidateFormProps> = ({ onSubmit, initialValues }) => {
+  const [name, setName] = useState(initialValues?.name || '');
+  const [jobDescription, setJobDescription] = useState(initialValues?.jobDescription || '');
+  const [field, setField] = useState(initialValues?.field || '');
+  const [language, setLanguage] = useState(initialValues?.language || 'English');
+  const [recordSession, setRecordSession] = useState(!!initialValues?.recordSession);
+  const [templateId, setTemplateId] = useState(initialValues?.templateId || DEFAULT_TEMPLATE.id);
+  const [mustAskIds, setMustAskIds] = useState<string[]>(
+    initialValues?.questionBank?.filter(q => q.required).map(q => q.id) || initialValues?.mustAskQuestionIds || []
+  );
+  const [banks, setBanks] = useState<Record<string, BankQuestion[]>>(DEFAULT_QUESTION_BANKS);
+  const [isEditingBank, setIsEditingBank] = useState(false);
+  const [resume, setResume] = useState<ResumeProfile | null>(initialValues?.resume || null);
+  const [resumeStatus, setResumeStatus] = useState<'idle' | 'parsing' | 'error'>('idle');
+
+  useEffect(() => {
+    listQuestionBanks()
+      .then(setBanks)
+      .catch(error => console.error("Failed to load question banks", error));
+  }, []);
+
+  const questionBank = banks[field] || [];
+
+  const handleRoleChange = (role: string) => {
+    setField(role);
+    setIsEditingBank(false);
+    setMustAskIds((banks[role] || []).filter(q => q.required).map(q => q.id));
+  };
+
+  // Questions the edit added or deleted follow their default; the rest keep this interview's selection
+  const handleBankSaved = (questions: BankQuestion[]) => {
+    setMustAskIds(prev => questions
+      .filter(q => (questionBank.some(old => old.id === q.id) ? prev.includes(q.id) : q.required))
+      .map(q => q.id));
+    setBanks(prev => ({ ...prev, [field]: questions }));
+    setIsEditingBank(false);
+  };
+
+  const toggleMustAsk = (id: string) => {
+    setMustAskIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleResumeChange = async (file: File | undefined) => {
+    setResume(null);
+    if (!file) {
+      setResumeStatus('idle');
+      return;
+    }
+    setResumeStatus('parsing');
+    try {
+      setResume(await extractResume(file));
+      setResumeStatus('idle');
+    } catch (error) {
+      console.error("Resume parsing failed", error);
+      setResumeStatus('error');
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault(); // Page refresh rokta hai
@@ -36,8 +78,11 @@ export const CandidateForm: React.FC<CandidateFormProps> = ({ onSubmit }) => {
     // Debugging ke liye
     console.log("Submitting:", { name, field, language, jobDescription });
 
+    if (resumeStatus === 'parsing') return;
     if (name.trim() && jobDescription.trim() && field && language) {
-        onSubmit({ name, jobDescription, field, language });
+        // The bank is copied into the interview, so later edits to it do not change this one
+        const snapshot = questionBank.map(q => ({ ...q, required: mustAskIds.includes(q.id) }));
+        onSubmit({ name, jobDescription, field, language, recordSession, templateId, questionBank: snapshot, resume: resume || undefined });
     } else {
         alert("Please fill in all fields:\n- Name\n- Role\n- Job Description");
     }
@@ -103,7 +148,7 @@ export const CandidateForm: React.FC<CandidateFormProps> = ({ onSubmit }) => {
                                 value={language} 
                                 onChange={(e) => setLanguage(e.target.value)}
                             >
-                                {LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+                                {INTERVIEW_LANGUAGES.map(l => <option key={l.name} value={l.name}>{l.name === l.nativeName ? l.name : `${l.name} · ${l.nativeName}`}</option>)}
                             </select>
                         </div>
                     </div>
@@ -115,13 +160,75 @@ export const CandidateForm: React.FC<CandidateFormProps> = ({ onSubmit }) => {
                             required
                             className="w-full px-0 py-2 border-b-2 border-slate-200 focus:border-indigo-600 outline-none transition-colors bg-transparent text-lg font-medium text-slate-900" 
                             value={field} 
-                            onChange={(e) => setField(e.target.value)}
+                            onChange={(e) => handleRoleChange(e.target.value)}
                         >
                             <option value="" disabled>Select a role...</option>
                             {PREDEFINED_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
                         </select>
                     </div>
 
+                    {/* Question Bank */}
+                    {field && isEditingBank && (
+                        <QuestionBankEditor role={field} questions={questionBank} onSaved={handleBankSaved} onCancel={() => setIsEditingBank(false)} />
+                    )}
+
+                    {field && !isEditingBank && (
+                        <div className="group">
+                            <div className="flex items-center justify-between mb-2">
+                                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">
+                                    Question Bank <span className="normal-case font-medium text-slate-400">({mustAskIds.length} must-ask)</span>
+                                </label>
+                                <button type="button" onClick={() => setIsEditingBank(true)} className="text-xs font-bold text-indigo-600 hover:text-indigo-700">
+                                    Edit Bank
+                                </button>
+                            </div>
+                            {questionBank.length === 0 && <p className="text-sm text-slate-400">No questions for this role yet.</p>}
+                            {questionBank.length > 0 && <div className="border-2 border-slate-200 rounded-xl divide-y divide-slate-100 max-h-56 overflow-y-auto">
+                                {questionBank.map(q => (
+                                    <label key={q.id} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-slate-50">
+                                        <input
+                                            type="checkbox"
+                                            className="mt-1 w-4 h-4 accent-indigo-600 shrink-0"
+                                            checked={mustAskIds.includes(q.id)}
+                                            onChange={() => toggleMustAsk(q.id)}
+                                        />
+                                        <span className="flex-1 text-sm text-slate-700">{q.text}</span>
+                                        <span className={`text-[10px] font-bold uppercase tracking-widest shrink-0 ${
+                                            q.difficulty === 'hard' ? 'text-rose-500' : q.difficulty === 'medium' ? 'text-amber-500' : 'text-emerald-500'
+                                        }`}>{q.difficulty}</span>
+                                    </label>
+                                ))}
+                            </div>}
+                            <p className="text-xs text-slate-400 mt-2">Checked questions are must-ask. The rest are offered to Interna as optional.</p>
+                        </div>
+                    )}
+
+                    {/* Interview Template */}
+                    <div className="group">
+                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Interview Format</label>
+                        {isCodingRole(field) && (
+                            <p className="text-xs text-slate-500 mb-2">Includes a live coding round in a shared editor before the closing.</p>
+                        )}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {INTERVIEW_TEMPLATES.map(t => (
+                                <button
+                                    type="button"
+                                    key={t.id}
+                                    onClick={() => setTemplateId(t.id)}
+                                    className={`text-left p-4 rounded-xl border-2 transition-all ${
+                                        templateId === t.id ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200 hover:border-slate-300'
+                                    }`}
+                                >
+                                    <span className="block text-sm font-bold text-slate-900">{t.name}</span>
+                                    <span className="block text-xs text-slate-500 mt-1">{t.description}</span>
+                                    <span className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2">
+                                        {totalQuestions(withCodingPhase(t, field))} questions · {Math.round(templateDurationSec(withCodingPhase(t, field)) / 60)} min · {t.voiceName}
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     {/* Job Description */}
                     <div className="group">
                         <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Job Description</label>
@@ -135,6 +242,51 @@ export const CandidateForm: React.FC<CandidateFormProps> = ({ onSubmit }) => {
                         />
                     </div>
 
+                    {/* Resume (optional) */}
+                    <div className="group">
+                        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+                            Resume <span className="normal-case font-medium text-slate-400">(optional · PDF, DOCX or text)</span>
+                        </label>
+                        <input
+                            type="file"
+                            accept={RESUME_ACCEPT}
+                            className="w-full text-sm text-slate-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-xs file:font-bold file:uppercase file:tracking-widest file:bg-slate-900 file:text-white hover:file:bg-indigo-600 file:cursor-pointer"
+                            onChange={(e) => handleResumeChange(e.target.files?.[0])}
+                        />
+                        {resumeStatus === 'parsing' && <p className="text-xs text-indigo-600 mt-2 animate-pulse">Reading resume...</p>}
+                        {resumeStatus === 'error' && <p className="text-xs text-rose-600 mt-2">Could not read this file. Try another format, or continue without a resume.</p>}
+                        {resume && (
+                            <div className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs text-slate-600 space-y-2">
+                                <p className="font-bold text-slate-900">
+                                    {resume.skills.length} skills · {resume.experience.length} roles · {resume.projects.length} projects
+                                </p>
+                                {resume.skills.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {resume.skills.slice(0, 12).map(skill => (
+                                            <span key={skill} className="px-2 py-0.5 bg-white border border-slate-200 rounded-full">{skill}</span>
+                                        ))}
+                                        {resume.skills.length > 12 && <span className="px-2 py-0.5 text-slate-400">+{resume.skills.length - 12} more</span>}
+                                    </div>
+                                )}
+                                {resume.excerpt && <p className="text-amber-600">No resume sections were recognised; Interna will work from the raw text.</p>}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Recording Opt-in */}
+                    <label className="flex items-start gap-3 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            className="mt-1 w-4 h-4 accent-indigo-600"
+                            checked={recordSession}
+                            onChange={(e) => setRecordSession(e.target.checked)}
+                        />
+                        <span>
+                            <span className="block text-sm font-bold text-slate-900">Record this interview</span>
+                            <span className="block text-xs text-slate-500">Saves camera, microphone and interviewer audio with the session for replay. The candidate is told before starting.</span>
+                        </span>
+                    </label>
+
                     {/* Submit Button */}
                     <div className="pt-6">
                         <button 
@@ -0,0 +1,125 @@
+import React, { useRef } from 'react';
+import { CodingLanguage, CodingSubmission } from '../types';
+import { CODING_LANGUAGES } from '../utils/codingProblems';
+import { passedCount } from '../utils/codeRunner';
+import { useI18n } from '../i18n';
+
+interface CodingPanelProps {
+  submission: CodingSubmission;
+  isRunning: boolean;
+  onCodeChange: (code: string) => void;
+  onLanguageChange: (language: CodingLanguage) => void;
+  onRun: () => void;
+  onSubmit: () => void;
+}
+
+const INDENT = '  ';
+
+export const CodingPanel: React.FC<CodingPanelProps> = ({ submission, isRunning, onCodeChange, onLanguageChange, onRun, onSubmit }) => {
+  const { t } = useI18n();
+  const { problem, code, language, lastRun } = submission;
+  const isLocked = !!submission.submittedAt;
+  const lineCount = code.split('\n').length;
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  // Tab indents instead of moving focus out of the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const editor = e.currentTarget;
+    const { selectionStart, selectionEnd } = editor;
+    onCodeChange(code.slice(0, selectionStart) + INDENT + code.slice(selectionEnd));
+    requestAnimationFrame(() => editor.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full bg-slate-900/90 border border-white/10 rounded-2xl overflow-hidden">
+      <div className="px-5 py-4 border-b border-white/10">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-300 uppercase tracking-widest">{t('coding.title')}</span>
+            <h3 className="text-lg font-bold text-white">{problem.title}</h3>
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            {t('coding.language')}
+            <select
+              value={language}
+              disabled={isLocked}
+              onChange={e => onLanguageChange(e.target.value as CodingLanguage)}
+              className="bg-slate-800 text-slate-200 text-xs font-medium normal-case tracking-normal rounded-lg px-2 py-1 border border-white/10 outline-none"
+            >
+              {CODING_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </label>
+        </div>
+        <p className="mt-2 text-sm text-slate-300 leading-relaxed">{problem.prompt}</p>
+        <p className="mt-1 text-[10px] text-slate-500 uppercase tracking-widest">{t('coding.shared')}</p>
+      </div>
+
+      <div className="flex flex-1 min-h-0 font-mono text-sm">
+        <div ref={gutterRef} className="select-none py-3 px-3 text-right text-slate-600 bg-slate-950/60 leading-6 overflow-hidden" aria-hidden>
+          {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+        </div>
+        <textarea
+          value={code}
+          readOnly={isLocked}
+          onChange={e => onCodeChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={e => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop; }}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          className="flex-1 py-3 px-3 bg-slate-950/40 text-slate-100 leading-6 outline-none resize-none whitespace-pre overflow-auto"
+        />
+      </div>
+
+      <div className="border-t border-white/10 px-5 py-3 max-h-[30%] overflow-y-auto">
+        {!lastRun ? (
+          <p className="text-xs text-slate-500">{t('coding.notRun')}</p>
+        ) : lastRun.error ? (
+          <p className="text-xs text-rose-400 font-mono">{lastRun.error}</p>
+        ) : (
+          <div className="space-y-1">
+            <p className={`text-xs font-bold ${passedCount(lastRun) === lastRun.results.length ? 'text-emerald-400' : 'text-amber-400'}`}>
+              {t('coding.testsPassed', { passed: passedCount(lastRun), total: lastRun.results.length })}
+            </p>
+            {lastRun.results.map(r => (
+              <div key={r.name} className="text-xs font-mono flex gap-2">
+                <span className={r.passed ? 'text-emerald-400' : 'text-rose-400'}>{r.passed ? '✓' : '✗'}</span>
+                <span className="text-slate-300">{r.name}</span>
+                {!r.passed && (
+                  <span className="text-slate-500 truncate">
+                    {t('coding.expected')} {r.expected} · {r.error ? r.error : `${t('coding.actual')} ${r.actual}`}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {lastRun && lastRun.logs.length > 0 && (
+          <div className="mt-2">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('coding.console')}</span>
+            <pre className="text-xs text-slate-400 whitespace-pre-wrap">{lastRun.logs.join('\n')}</pre>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-3 px-5 py-3 border-t border-white/10">
+        <button
+          onClick={onRun}
+          disabled={isRunning || isLocked}
+          className="px-4 py-2 rounded-full text-xs font-bold uppercase tracking-widest bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:opacity-50"
+        >
+          {isRunning ? t('coding.running') : t('coding.run')}
+        </button>
+        <button
+          onClick={onSubmit}
+          disabled={isRunning || isLocked}
+          className="px-4 py-2 rounded-full text-xs font-bold uppercase tracking-widest bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isLocked ? t('coding.submitted') : t('coding.submit')}
+        </button>
+      </div>
+    </div>
+  );
+};
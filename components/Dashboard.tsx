@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { InterviewRecord } from '../types';
+import { listInterviews } from '../services/interviewStore';
+import { syncInterviews } from '../services/submissions';
+import { isMissingRecruiterKey } from '../services/api';
+import { DECISION_LABELS, effectiveVerdict } from '../utils/review';
+import { formatScore } from '../utils/rubrics';
+import { RecruiterKeyField } from './RecruiterKeyField';
+
+interface DashboardProps {
+  onOpen: (record: InterviewRecord) => void;
+  onNewInterview: () => void;
+}
+
+type OutcomeFilter = 'all' | 'passed' | 'failed' | 'disqualified' | 'unevaluated';
+type SortOrder = 'newest' | 'rating_desc' | 'rating_asc';
+
+const outcomeOf = (record: InterviewRecord): Exclude<OutcomeFilter, 'all'> => {
+  if (record.result.terminationReason) return 'disqualified';
+  if (record.result.evaluationStatus === 'pending' || record.result.evaluationStatus === 'failed') return 'unevaluated';
+  return effectiveVerdict(record.result, record.review).passed ? 'passed' : 'failed';
+};
+
+const OUTCOME_UI: Record<Exclude<OutcomeFilter, 'all'>, { label: string; className: string }> = {
+  passed: { label: 'Qualified', className: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: 'Not Qualified', className: 'bg-rose-100 text-rose-700' },
+  disqualified: { label: 'Disqualified', className: 'bg-slate-200 text-slate-700' },
+  unevaluated: { label: 'Needs Evaluation', className: 'bg-amber-100 text-amber-700' },
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ onOpen, onNewInterview }) => {
+  const [records, setRecords] = useState<InterviewRecord[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  // Interviews candidates submitted through links are fetched from the API server
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [needsKey, setNeedsKey] = useState(false);
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState('');
+  const [outcome, setOutcome] = useState<OutcomeFilter>('all');
+  const [sort, setSort] = useState<SortOrder>('newest');
+
+  const loadLocal = () => listInterviews()
+    .then(setRecords)
+    .catch((error) => {
+      console.error("Failed to load interviews", error);
+      setLoadError(true);
+      setRecords([]);
+    });
+
+  const sync = () => {
+    setSyncError(null);
+    setNeedsKey(false);
+    syncInterviews()
+      .then(loadLocal)
+      .catch((error) => {
+        console.error("Failed to fetch submitted interviews", error);
+        setNeedsKey(isMissingRecruiterKey(error));
+        setSyncError(error instanceof Error ? error.message : 'Submitted interviews could not be fetched.');
+      });
+  };
+
+  useEffect(() => {
+    loadLocal();
+    sync();
+  }, []);
+
+  const roles = useMemo(() => Array.from(new Set((records || []).map(r => r.candidate.field))).sort(), [records]);
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = (records || []).filter(r =>
+      (!query || r.candidate.name.toLowerCase().includes(query)) &&
+      (!role || r.candidate.field === role) &&
+      (outcome === 'all' || outcomeOf(r) === outcome)
+    );
+    if (sort === 'newest') return filtered;
+    const direction = sort === 'rating_desc' ? -1 : 1;
+    const ratingOf = (r: InterviewRecord) => effectiveVerdict(r.result, r.review).rating;
+    return [...filtered].sort((a, b) => (ratingOf(a) - ratingOf(b)) * direction);
+  }, [records, search, role, outcome, sort]);
+
+  const selectClass = "px-3 py-2 bg-white border-2 border-slate-200 rounded-xl focus:border-indigo-600 outline-none text-sm font-medium text-slate-700";
+
+  return (
+    <div className="h-full w-full bg-slate-50 overflow-y-auto custom-scrollbar">
+      <div className="max-w-6xl mx-auto px-4 lg:px-12 pt-24 pb-20">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h2 className="text-[10px] lg:text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Recruiter Dashboard</h2>
+            <h1 className="text-2xl lg:text-3xl font-bold text-slate-900">Past Interviews</h1>
+          </div>
+          <button
+            onClick={onNewInterview}
+            className="bg-slate-900 text-white py-3 px-6 rounded-xl font-bold hover:bg-indigo-600 transition-all shadow-lg"
+          >
+            New Interview
+          </button>
+        </div>
+
+        {needsKey && <div className="mb-6"><RecruiterKeyField onSaved={sync} /></div>}
+        {syncError && !needsKey && <p className="mb-6 text-sm text-rose-600">{syncError}</p>}
+
+        <div className="flex flex-col md:flex-row gap-3 mb-6">
+          <input
+            type="search"
+            className="flex-1 px-4 py-2 bg-white border-2 border-slate-200 rounded-xl focus:border-indigo-600 outline-none text-sm"
+            placeholder="Search by candidate name..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <select className={selectClass} value={role} onChange={(e) => setRole(e.target.value)}>
+            <option value="">All roles</option>
+            {roles.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <select className={selectClass} value={outcome} onChange={(e) => setOutcome(e.target.value as OutcomeFilter)}>
+            <option value="all">All outcomes</option>
+            <option value="passed">Qualified</option>
+            <option value="failed">Not qualified</option>
+            <option value="disqualified">Disqualified</option>
+            <option value="unevaluated">Needs evaluation</option>
+          </select>
+          <select className={selectClass} value={sort} onChange={(e) => setSort(e.target.value as SortOrder)}>
+            <option value="newest">Newest first</option>
+            <option value="rating_desc">Highest rating</option>
+            <option value="rating_asc">Lowest rating</option>
+          </select>
+        </div>
+
+        {records === null ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-indigo-500"></div>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="bg-white rounded-2xl p-10 border border-slate-200 text-center text-slate-500">
+            {loadError ? 'Interview history could not be loaded in this browser.' : records.length === 0 ? 'No interviews yet.' : 'No interviews match these filters.'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map(record => {
+              const recordOutcome = outcomeOf(record);
+              const status = OUTCOME_UI[recordOutcome];
+              const decision = record.review?.decision;
+              return (
+                <button
+                  key={record.id}
+                  onClick={() => onOpen(record)}
+                  className="w-full text-left bg-white rounded-xl border border-slate-200 p-4 lg:p-5 flex items-center gap-4 hover:shadow-md hover:border-indigo-200 transition-all"
+                >
+                  <div className="w-12 h-12 rounded-xl bg-slate-50 border border-slate-100 flex items-center justify-center shrink-0">
+                    <span className="text-lg font-bold text-slate-900">{recordOutcome === 'passed' || recordOutcome === 'failed' ? formatScore(effectiveVerdict(record.result, record.review).rating) : '–'}</span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-900 truncate">{record.candidate.name}</p>
+                    <p className="text-xs text-slate-500 truncate">{record.candidate.field} · {new Date(record.endedAt).toLocaleString()}</p>
+                  </div>
+                  {decision ? (
+                    <span className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shrink-0 bg-indigo-100 text-indigo-700">{DECISION_LABELS[decision.value]}</span>
+                  ) : record.result.needsHumanReview && recordOutcome !== 'disqualified' && (
+                    <span className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shrink-0 bg-amber-100 text-amber-700">Review</span>
+                  )}
+                  <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shrink-0 ${status.className}`}>
+                    {status.label}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
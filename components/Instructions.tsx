@@ -1,13 +1,23 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { estimateNoiseFloor } from '../utils/vad';
+import { useI18n } from '../i18n';
 
 interface InstructionsProps {
-  onStart: () => void;
+  // Ambient mic level measured during the check, used to calibrate the interview's VAD
+  onStart: (ambientNoiseRms?: number, candidateName?: string) => void;
+  isRecorded?: boolean;
+  // Candidates arriving through an invitation confirm the name the recruiter entered
+  candidateName?: string;
+  role?: string;
 }
 
 type NetworkQuality = 'checking' | 'excellent' | 'fair' | 'poor';
 type NoiseStatus = 'checking' | 'good' | 'fair' | 'bad';
 
-export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
+export const Instructions: React.FC<InstructionsProps> = ({ onStart, isRecorded = false, candidateName, role }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(candidateName ?? '');
+  const needsName = candidateName !== undefined && !name.trim();
   const [permissionGranted, setPermissionGranted] = useState<boolean | null>(null);
   const [networkQuality, setNetworkQuality] = useState<NetworkQuality>('checking');
   const [latencyMs, setLatencyMs] = useState<number>(0);
@@ -19,6 +29,7 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const animationRef = useRef<number>(0);
   const frameCountRef = useRef<number>(0);
+  const ambientReadingsRef = useRef<number[]>([]);
 
   useEffect(() => {
     const initMedia = async () => {
@@ -106,6 +117,7 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
 
       const bufferLength = analyser.frequencyBinCount;
       const dataArray = new Uint8Array(bufferLength);
+      const waveform = new Float32Array(analyser.fftSize);
 
       const draw = () => {
           animationRef.current = requestAnimationFrame(draw);
@@ -140,6 +152,13 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
 
           // --- NOISE DETECTION LOGIC ---
           frameCountRef.current++;
+          // RMS readings (~10/s, last 10s) for the interview's noise floor
+          if (frameCountRef.current % 6 === 0) {
+              analyser.getFloatTimeDomainData(waveform);
+              let energy = 0;
+              for (let i = 0; i < waveform.length; i++) energy += waveform[i] * waveform[i];
+              ambientReadingsRef.current = [...ambientReadingsRef.current.slice(-99), Math.sqrt(energy / waveform.length)];
+          }
           // Update status every 30 frames (approx 0.5s) to avoid UI flicker
           if (frameCountRef.current % 30 === 0) {
               const averageVolume = sum / bufferLength;
@@ -163,26 +182,26 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
   const getNetworkUI = () => {
       switch (networkQuality) {
           case 'excellent':
-              return { color: 'text-emerald-400', bg: 'bg-emerald-500/20', border: 'border-emerald-500/30', label: 'Net: Optimal', desc: 'Interna will respond instantly.' };
+              return { color: 'text-emerald-400', bg: 'bg-emerald-500/20', border: 'border-emerald-500/30', label: t('instructions.net.excellent'), desc: 'Interna will respond instantly.' };
           case 'fair':
-              return { color: 'text-amber-400', bg: 'bg-amber-500/20', border: 'border-amber-500/30', label: 'Net: Stable', desc: 'Slight delays possible.' };
+              return { color: 'text-amber-400', bg: 'bg-amber-500/20', border: 'border-amber-500/30', label: t('instructions.net.fair'), desc: 'Slight delays possible.' };
           case 'poor':
-              return { color: 'text-rose-400', bg: 'bg-rose-500/20', border: 'border-rose-500/30', label: 'Net: Weak', desc: 'Connection slow. Interna may lag.' };
+              return { color: 'text-rose-400', bg: 'bg-rose-500/20', border: 'border-rose-500/30', label: t('instructions.net.poor'), desc: 'Connection slow. Interna may lag.' };
           default:
-              return { color: 'text-slate-400', bg: 'bg-slate-500/20', border: 'border-slate-500/30', label: 'Net: ...', desc: 'Testing connectivity...' };
+              return { color: 'text-slate-400', bg: 'bg-slate-500/20', border: 'border-slate-500/30', label: t('instructions.net.checking'), desc: 'Testing connectivity...' };
       }
   };
 
   const getNoiseUI = () => {
       switch (noiseStatus) {
           case 'good':
-              return { color: 'text-emerald-400', bg: 'bg-emerald-500/20', border: 'border-emerald-500/30', label: 'Noise: Quiet', icon: 'M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
+              return { color: 'text-emerald-400', bg: 'bg-emerald-500/20', border: 'border-emerald-500/30', label: t('instructions.noise.good'), icon: 'M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
           case 'fair':
-              return { color: 'text-amber-400', bg: 'bg-amber-500/20', border: 'border-amber-500/30', label: 'Noise: Fair', icon: 'M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
+              return { color: 'text-amber-400', bg: 'bg-amber-500/20', border: 'border-amber-500/30', label: t('instructions.noise.fair'), icon: 'M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
           case 'bad':
-              return { color: 'text-rose-400', bg: 'bg-rose-500/20', border: 'border-rose-500/30', label: 'Noise: Loud', icon: 'M17.25 9.75L19.5 12m0 0l2.25 2.25M19.5 12l2.25-2.25M19.5 12l-2.25 2.25m-10.5-6l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
+              return { color: 'text-rose-400', bg: 'bg-rose-500/20', border: 'border-rose-500/30', label: t('instructions.noise.bad'), icon: 'M17.25 9.75L19.5 12m0 0l2.25 2.25M19.5 12l2.25-2.25M19.5 12l-2.25 2.25m-10.5-6l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
           default:
-              return { color: 'text-slate-400', bg: 'bg-slate-500/20', border: 'border-slate-500/30', label: 'Noise: ...', icon: 'M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
+              return { color: 'text-slate-400', bg: 'bg-slate-500/20', border: 'border-slate-500/30', label: t('instructions.noise.checking'), icon: 'M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z' };
       }
   };
 
@@ -204,8 +223,8 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
                         <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z" />
                       </svg>
                    </div>
-                   <h3 className="text-white font-bold text-lg lg:text-xl mb-2">Permissions Denied</h3>
-                   <p className="text-slate-400 max-w-xs lg:max-w-sm mx-auto text-sm">Camera and Microphone access are strictly required for anti-cheating verification.</p>
+                   <h3 className="text-white font-bold text-lg lg:text-xl mb-2">{t('instructions.permissionsDenied')}</h3>
+                   <p className="text-slate-400 max-w-xs lg:max-w-sm mx-auto text-sm">{t('instructions.permissionsRequired')}</p>
                 </div>
             ) : (
                <div className="relative w-full max-w-lg aspect-video bg-black rounded-2xl overflow-hidden shadow-2xl border border-slate-800 group">
@@ -232,8 +251,8 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
                                     <path strokeLinecap="round" strokeLinejoin="round" d="M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z" />
                                 </svg>
                               </div>
-                              <h3 className="text-white font-bold text-lg">Environment Too Noisy</h3>
-                              <p className="text-slate-300 text-sm mt-1">Please move to a silent room to ensure interview quality.</p>
+                              <h3 className="text-white font-bold text-lg">{t('instructions.tooNoisy')}</h3>
+                              <p className="text-slate-300 text-sm mt-1">{t('instructions.moveToQuietRoom')}</p>
                           </div>
                       </div>
                   )}
@@ -245,7 +264,7 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
                     }`}>
                         <span className={`w-2 h-2 rounded-full ${permissionGranted ? 'bg-emerald-400 animate-pulse' : 'bg-slate-500'}`}></span>
                         <span className="text-[10px] font-bold uppercase tracking-widest">
-                            {permissionGranted ? 'System Ready' : 'Initializing...'}
+                            {permissionGranted ? t('instructions.systemReady') : t('instructions.initializing')}
                         </span>
                     </div>
                   </div>
@@ -284,24 +303,39 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
          <div className="flex-1 p-8 lg:p-20 flex flex-col justify-center">
              <div className="max-w-md mx-auto w-full">
                  <div className="mb-6 lg:mb-8">
-                    <h2 className="text-2xl lg:text-3xl font-bold text-slate-900">Security Check</h2>
-                    <p className="text-slate-500 mt-2 text-base lg:text-lg">Anti-cheating protocols are active.</p>
+                    <h2 className="text-2xl lg:text-3xl font-bold text-slate-900">{t('instructions.title')}</h2>
+                    <p className="text-slate-500 mt-2 text-base lg:text-lg">{t('instructions.subtitle')}</p>
+                    {role && <p className="text-indigo-600 mt-2 text-xs font-bold uppercase tracking-widest">{t('instructions.interviewFor', { role })}</p>}
                  </div>
 
+                 {candidateName !== undefined && (
+                    <div className="mb-6">
+                       <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('instructions.nameLabel')}</label>
+                       <input
+                         type="text"
+                         value={name}
+                         onChange={e => setName(e.target.value)}
+                         className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl focus:border-indigo-600 focus:bg-white outline-none transition-all"
+                       />
+                    </div>
+                 )}
+
                  <div className="space-y-4 lg:space-y-6 mb-8 lg:mb-10">
                     <div className="bg-indigo-50 rounded-2xl p-5 lg:p-6 border border-indigo-100">
                        <h3 className="font-bold text-indigo-900 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide flex items-center gap-2">
                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
                              <path fillRule="evenodd" d="M10 1a4.5 4.5 0 00-4.5 4.5V9H5a2 2 0 00-2 2v6a2 2 0 002 2h10a2 2 0 002-2v-6a2 2 0 00-2-2h-.5V5.5A4.5 4.5 0 0010 1zm3 8V5.5a3 3 0 10-6 0V9h6z" clipRule="evenodd" />
                            </svg>
-                           Proctoring Rules
+                           {t('instructions.rulesTitle')}
                        </h3>
                        <ul className="space-y-3">
                           {[
-                             "Switching tabs will trigger a violation.",
-                             "Camera must remain active.",
-                             "Copy/Paste is disabled.",
-                             "Ensure your environment is silent."
+                             t('instructions.rule.tabs'),
+                             t('instructions.rule.fullscreen'),
+                             t('instructions.rule.camera'),
+                             t('instructions.rule.copyPaste'),
+                             t('instructions.rule.silence'),
+                             ...(isRecorded ? [t('instructions.rule.recorded')] : [])
                           ].map((item, i) => (
                              <li key={i} className="flex items-start gap-3 text-sm text-indigo-800 font-medium">
                                 <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 mt-1.5 flex-shrink-0"></span>
@@ -313,21 +347,21 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart }) => {
                  </div>
 
                  <button
-                   onClick={onStart}
-                   disabled={!permissionGranted || noiseStatus === 'bad'}
+                   onClick={() => onStart(ambientReadingsRef.current.length ? estimateNoiseFloor(ambientReadingsRef.current) : undefined, candidateName !== undefined ? name.trim() : undefined)}
+                   disabled={!permissionGranted || noiseStatus === 'bad' || needsName}
                    className={`w-full py-4 lg:py-5 rounded-xl font-bold shadow-lg transition-all flex items-center justify-between px-6 lg:px-8 ${
-                     permissionGranted && noiseStatus !== 'bad'
+                     permissionGranted && noiseStatus !== 'bad' && !needsName
                      ? 'bg-slate-900 text-white hover:bg-indigo-600 hover:shadow-indigo-200 cursor-pointer transform hover:-translate-y-1' 
                      : 'bg-slate-100 text-slate-400 cursor-not-allowed'
                    }`}
                  >
-                   <span>Accept & Begin</span>
+                   <span>{t('instructions.begin')}</span>
                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 lg:w-6 lg:h-6">
                      <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12c0 1.268-.63 2.39-1.593 3.068a3.745 3.745 0 01-1.043 3.296 3.745 3.745 0 01-3.296 1.043A3.745 3.745 0 0112 21c-1.268 0-2.39-.63-3.068-1.593a3.746 3.746 0 01-3.296-1.043 3.745 3.745 0 01-1.043-3.296A3.745 3.745 0 013 12c0-1.268.63-2.39 1.593-3.068a3.745 3.745 0 011.043-3.296 3.746 3.746 0 013.296-1.043A3.746 3.746 0 0112 3c1.268 0 2.39.63 3.068 1.593a3.746 3.746 0 013.296 1.043 3.746 3.746 0 011.043 3.296A3.745 3.745 0 0121 12z" />
                    </svg>
                  </button>
                  {noiseStatus === 'bad' && (
-                     <p className="text-center text-xs text-rose-500 font-bold mt-3">Cannot start: Environment is too noisy.</p>
+                     <p className="text-center text-xs text-rose-500 font-bold mt-3">{t('instructions.cannotStartNoisy')}</p>
                  )}
              </div>
          </div>
@@ -1,47 +1,57 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, FunctionDeclaration, Type } from '@google/genai';
-import { CandidateInfo } from '../types';
-import { createBlob, downsampleBuffer, decodeAudioData, decode } from '../utils/audio';
+import { AnswerAssessment, CandidateInfo, CodingLanguage, CodingSubmission, ConnectionOutage, InterviewPhase, InterviewSessionOutcome, InterviewTranscript, ProctoringEvent } from '../types';
+import { CAPTURE_CHUNK_MS, createMicCapture, decodeAudioData, decode, MicCapture } from '../utils/audio';
+import { createVoiceActivityDetector } from '../utils/vad';
+import { createSilenceTracker, NO_SPEECH_PROCTOR_MS, REPROMPT_SILENCE_MS, SilenceTracker } from '../utils/silence';
+import { createCameraMonitor, CameraMonitor } from '../utils/cameraAnalysis';
+import { createProctor, DEFAULT_PROCTORING_POLICY, Proctor } from '../utils/proctoring';
+import { createSessionRecorder, SessionRecorder } from '../utils/recording';
+import { getLlmProviders, LiveEvent, LiveResume, LiveSession, ToolCall } from '../services/llm';
+import { appendTranscriptChunk, closeTranscriptTurn, createTranscript, currentPhase, finalizeTranscript, markTurnInterrupted, questionsAsked } from '../utils/transcript';
+import { CONNECTION_LOST_REASON, MAX_RECONNECT_ATTEMPTS, reconnectDelayMs } from '../utils/reconnect';
+import { adjustmentInstruction, assessAnswer, STARTING_DIFFICULTY } from '../utils/adaptiveDifficulty';
+import { getTemplate, questionPhases, templateDurationSec, totalQuestions, withCodingPhase } from '../utils/templates';
+import { describeEditorSnapshot, parseCodingReview, SNAPSHOT_DEBOUNCE_MS, SnapshotReason } from '../utils/coding';
+import { getCodingProblem } from '../utils/codingProblems';
+import { runCode } from '../utils/codeRunner';
+import { useI18n } from '../i18n';
+import { CodingPanel } from './CodingPanel';
 
 interface InterviewSessionProps {
   candidate: CandidateInfo;
-  onComplete: (transcript: string, terminationReason?: string) => void;
+  ambientNoiseRms?: number; // from the pre-interview check; the VAD calibrates itself without it
+  onComplete: (outcome: InterviewSessionOutcome) => void;
 }
 
-const endInterviewTool: FunctionDeclaration = {
-  name: "endInterview",
-  description: "Ends the interview session. Call this when 5 questions are completed or the user requests to end.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      reason: { 
-        type: Type.STRING,
-        description: "The reason for ending the interview."
-      }
-    },
-    required: ["reason"]
-  }
-};
+// Local barge-in: sustained speech over AI playback cuts the AI off without waiting for the server
+const BARGE_IN_MS = 300;
 
-export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, onComplete }) => {
-  const [status, setStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
+export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, ambientNoiseRms, onComplete }) => {
+  const template = withCodingPhase(getTemplate(candidate.templateId), candidate.field);
+  const hasCodingPhase = template.phases.some(p => p.phase === 'coding');
+  const { t } = useI18n();
+  const [status, setStatus] = useState<'connecting' | 'connected' | 'reconnecting' | 'error'>('connecting');
   const [isMuted, setIsMuted] = useState(false);
   const [showTranscript, setShowTranscript] = useState(false);
-  const [transcriptLines, setTranscriptLines] = useState<{speaker: 'user' | 'ai', text: string}[]>([]);
-  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [transcriptLines, setTranscriptLines] = useState<InterviewTranscript>(() => createTranscript(Date.now(), questionPhases(template)));
   const [systemMessageStatus, setSystemMessageStatus] = useState<string | null>(null);
-  const [timeLeft, setTimeLeft] = useState(600);
+  const [timeLeft, setTimeLeft] = useState(() => templateDurationSec(template));
   const [isReadyToStart, setIsReadyToStart] = useState(false); // New state to show "Start" button
+  const [proctorWarning, setProctorWarning] = useState<string | null>(null);
+  const [currentDifficulty, setCurrentDifficulty] = useState(STARTING_DIFFICULTY);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [coding, setCoding] = useState<CodingSubmission | null>(null);
+  const [isRunningCode, setIsRunningCode] = useState(false);
 
   // Refs
   const isMountedRef = useRef<boolean>(false);
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const nextAudioStartTimeRef = useRef<number>(0);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -49,19 +59,74 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
   const terminationTriggeredRef = useRef<boolean>(false);
   const isConnectedRef = useRef<boolean>(false);
   const isAiSpeakingRef = useRef<boolean>(false);
+  const isUserSpeakingRef = useRef<boolean>(false);
   
   const mouthRef = useRef<SVGEllipseElement>(null);
   const lastUserSpeechTimeRef = useRef<number>(Date.now());
-  const fullTranscriptHistory = useRef<string[]>([]);
+  const fullTranscriptHistory = useRef<InterviewTranscript>(createTranscript(Date.now(), questionPhases(template)));
   const isWaitingForResponseRef = useRef<boolean>(false);
+  const proctorRef = useRef<Proctor | null>(null);
+  const cameraMonitorRef = useRef<CameraMonitor | null>(null);
+  const warningTimeoutRef = useRef<number>(0);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const phaseStartRef = useRef<{ phase: InterviewPhase; startedAt: number }>({ phase: 'intro', startedAt: Date.now() });
+  const nudgedPhasesRef = useRef<Set<InterviewPhase>>(new Set());
+  const trajectoryRef = useRef<AnswerAssessment[]>([]);
+  // Reconnection state: each connect() gets a generation so callbacks from dead sessions are ignored
+  const connectRef = useRef<((resume?: LiveResume) => Promise<void>) | null>(null);
+  const connectionGenerationRef = useRef<number>(0);
+  const hasOpenedRef = useRef<boolean>(false);
+  const hasStartedRef = useRef<boolean>(false);
+  const outageRef = useRef<ConnectionOutage | null>(null);
+  const outagesRef = useRef<ConnectionOutage[]>([]);
+  const reconnectTimeoutRef = useRef<number>(0);
+  const silenceRef = useRef<SilenceTracker>(createSilenceTracker());
+  // Barge-in state: continuous speech so far, and whether the rest of the cut-off AI turn is dropped
+  const bargeInSpeechMsRef = useRef<number>(0);
+  const dropAiTurnRef = useRef<boolean>(false);
+  // Coding phase: the open exercise, and the last code the interviewer was shown
+  const codingRef = useRef<CodingSubmission | null>(null);
+  const snapshotTimeoutRef = useRef<number>(0);
+  const lastSnapshotCodeRef = useRef<string>('');
+
+  // --- PLAYBACK ---
+  // Silences everything already scheduled and restarts the playback clock
+  const stopPlayback = () => {
+    sourcesRef.current.forEach(source => {
+        source.onended = null;
+        try { source.stop(); } catch (e) {}
+    });
+    sourcesRef.current.clear();
+    nextAudioStartTimeRef.current = 0;
+    isAiSpeakingRef.current = false;
+  };
+
+  const handleBargeIn = () => {
+    stopPlayback();
+    updateTranscript(t => markTurnInterrupted(t));
+  };
 
   // --- CLEANUP ---
   const disconnect = () => {
     isConnectedRef.current = false;
-    if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.onaudioprocess = null;
-        scriptProcessorRef.current.disconnect();
-        scriptProcessorRef.current = null;
+    connectionGenerationRef.current++;
+    if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
+    if (proctorRef.current) {
+        proctorRef.current.stop();
+    }
+    cameraMonitorRef.current?.stop();
+    if (recorderRef.current) {
+        recorderRef.current.stop();
+        recorderRef.current = null;
+    }
+    if (warningTimeoutRef.current) clearTimeout(warningTimeoutRef.current);
+    if (snapshotTimeoutRef.current) clearTimeout(snapshotTimeoutRef.current);
+    if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+    }
+    if (micCaptureRef.current) {
+        micCaptureRef.current.stop();
+        micCaptureRef.current = null;
     }
     if (sessionRef.current) {
       try { sessionRef.current.close(); } catch (e) {}
@@ -75,20 +140,235 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
     if (inputAudioContextRef.current) inputAudioContextRef.current.close();
     if (animationRef.current) cancelAnimationFrame(animationRef.current);
     
-    sourcesRef.current.forEach(source => { try { source.stop(); } catch(e) {} });
-    sourcesRef.current.clear();
+    stopPlayback();
   };
 
   const handleTermination = (reason: string) => {
       if (terminationTriggeredRef.current) return;
       terminationTriggeredRef.current = true;
-      setSystemMessageStatus(`Ending: ${reason}`);
-      setTimeout(() => {
+      setSystemMessageStatus(t('session.ending', { reason }));
+      setTimeout(async () => {
+          const proctoringEvents = proctorRef.current?.getEvents() || [];
+          const faceDetectionAvailable = !!cameraMonitorRef.current?.hasFaceDetection;
+          const openOutage = outageRef.current;
+          const connectionOutages = openOutage ? [...outagesRef.current, { ...openOutage, endedAt: Date.now() }] : outagesRef.current;
+          // Stop recording before disconnect() ends the tracks, so the final chunk is flushed
+          const recording = await recorderRef.current?.stop();
+          recorderRef.current = null;
           disconnect();
-          onComplete(fullTranscriptHistory.current.join('\n'), reason);
+          onComplete({
+              transcript: finalizeTranscript(fullTranscriptHistory.current),
+              terminationReason: reason,
+              proctoringEvents,
+              difficultyTrajectory: trajectoryRef.current,
+              connectionOutages,
+              silences: silenceRef.current.getSilences(),
+              faceDetectionAvailable,
+              coding: codingRef.current ?? undefined,
+              recording,
+          });
       }, 2000);
   };
 
+  // Both the on-screen panel and the evaluator read from the same turn-ordered transcript
+  const updateTranscript = (update: (transcript: InterviewTranscript) => InterviewTranscript) => {
+      fullTranscriptHistory.current = update(fullTranscriptHistory.current);
+      setTranscriptLines(fullTranscriptHistory.current);
+      const phase = currentPhase(fullTranscriptHistory.current);
+      if (phase !== phaseStartRef.current.phase) {
+          phaseStartRef.current = { phase, startedAt: Date.now() };
+      }
+  };
+
+  const handleProctoringEvent = (event: ProctoringEvent, warningCount: number) => {
+      if (event.action !== 'warn') return;
+      const remaining = DEFAULT_PROCTORING_POLICY.maxWarnings - warningCount;
+      setProctorWarning(`${t(`proctoring.${event.type}`)}. ${remaining > 0 ? t('session.warningsLeft', { count: remaining }) : t('session.lastWarning')}.`);
+      if (warningTimeoutRef.current) clearTimeout(warningTimeoutRef.current);
+      warningTimeoutRef.current = window.setTimeout(() => setProctorWarning(null), 5000);
+  };
+
+  // Nudge the interviewer once per phase when it overruns the template's time budget
+  const checkPhaseBudget = () => {
+      const { phase, startedAt } = phaseStartRef.current;
+      const budget = template.phases.find(p => p.phase === phase);
+      if (!budget || !sessionRef.current || nudgedPhasesRef.current.has(phase)) return;
+      if (Date.now() - startedAt < budget.timeBudgetSec * 1000) return;
+
+      nudgedPhasesRef.current.add(phase);
+      const next = template.phases[template.phases.indexOf(budget) + 1];
+      sessionRef.current.sendText(next
+          ? `[SYSTEM] The ${phase} phase is over its time budget. Let the candidate finish this answer, then move on to the ${next.phase} phase.`
+          : `[SYSTEM] Time is up. Say the closing message and call endInterview with reason 'Completed'.`);
+  };
+
+  // Re-prompt a silent candidate once per gap, and log long stretches without any speech
+  const checkSilence = () => {
+      if (!hasStartedRef.current || !sessionRef.current) return;
+      // A candidate typing in the editor is not silent
+      const isCoding = !!codingRef.current && !codingRef.current.submittedAt;
+      const isAwaitingAnswer = isWaitingForResponseRef.current && !isCoding && !isUserSpeakingRef.current && sourcesRef.current.size === 0;
+      const action = silenceRef.current.update(isAwaitingAnswer, lastUserSpeechTimeRef.current);
+      if (action === 'reprompt') {
+          sessionRef.current.sendText(`[SYSTEM] The candidate has been silent for ${REPROMPT_SILENCE_MS / 1000} seconds. Check in briefly: offer to repeat or rephrase the question, without giving away the answer.`);
+      } else if (action === 'no_speech') {
+          proctorRef.current?.report('no_speech', `No speech for ${NO_SPEECH_PROCTOR_MS / 1000}s`);
+      }
+  };
+
+  // The interviewer scores each answer live; we decide the next difficulty and tell it back
+  const handleScoreAnswer = (call: ToolCall) => {
+      const assessment = assessAnswer(call.args, trajectoryRef.current, questionsAsked(fullTranscriptHistory.current) - 1);
+      trajectoryRef.current = [...trajectoryRef.current, assessment];
+      setCurrentDifficulty(assessment.nextDifficulty);
+      sessionRef.current?.sendToolResponse(call, adjustmentInstruction(assessment));
+  };
+
+  // --- CODING ---
+  const updateCoding = (update: (submission: CodingSubmission) => CodingSubmission) => {
+      if (!codingRef.current) return;
+      codingRef.current = update(codingRef.current);
+      setCoding(codingRef.current);
+  };
+
+  const sendSnapshot = (reason: SnapshotReason) => {
+      if (snapshotTimeoutRef.current) clearTimeout(snapshotTimeoutRef.current);
+      snapshotTimeoutRef.current = 0;
+      const submission = codingRef.current;
+      if (!submission || !sessionRef.current) return;
+      lastSnapshotCodeRef.current = submission.code;
+      sessionRef.current.sendText(describeEditorSnapshot(submission, reason));
+  };
+
+  const handlePresentCodingProblem = (call: ToolCall) => {
+      const problem = getCodingProblem(String(call.args.problemId));
+      if (!problem) {
+          sessionRef.current?.sendToolResponse(call, { error: 'Unknown problemId. Choose an id from the catalogue.' });
+          return;
+      }
+      if (codingRef.current) {
+          sessionRef.current?.sendToolResponse(call, { error: `"${codingRef.current.problem.id}" is already open. Continue with it.` });
+          return;
+      }
+      codingRef.current = { problem, language: 'javascript', code: problem.starterCode.javascript, startedAt: Date.now(), runCount: 0 };
+      lastSnapshotCodeRef.current = codingRef.current.code;
+      setCoding(codingRef.current);
+      sessionRef.current?.sendToolResponse(call, {
+          result: 'The editor is open on the candidate\'s screen with the problem statement and starter code. Explain the problem in your own words.',
+          title: problem.title,
+          functionName: problem.functionName,
+          tests: problem.tests.map(test => test.name),
+      });
+  };
+
+  const handleReviewCode = (call: ToolCall) => {
+      if (!codingRef.current) {
+          sessionRef.current?.sendToolResponse(call, { error: 'No coding problem has been issued.' });
+          return;
+      }
+      const review = parseCodingReview(call.args);
+      updateCoding(c => ({ ...c, review }));
+      sessionRef.current?.sendToolResponse(call, { result: 'Review recorded. Move on with the interview.' });
+  };
+
+  const handleCodeChange = (code: string) => {
+      updateCoding(c => ({ ...c, code }));
+      // Snapshot once the candidate pauses, not on every keystroke
+      if (snapshotTimeoutRef.current) clearTimeout(snapshotTimeoutRef.current);
+      snapshotTimeoutRef.current = window.setTimeout(() => {
+          if (codingRef.current && codingRef.current.code !== lastSnapshotCodeRef.current) sendSnapshot('edit');
+      }, SNAPSHOT_DEBOUNCE_MS);
+  };
+
+  const handleLanguageChange = (language: CodingLanguage) => {
+      // Untouched starter code follows the language; anything the candidate wrote is kept
+      updateCoding(c => ({
+          ...c,
+          language,
+          code: c.code === c.problem.starterCode[c.language] ? c.problem.starterCode[language] : c.code,
+      }));
+  };
+
+  const handleRunCode = async () => {
+      const submission = codingRef.current;
+      if (!submission) return;
+      setIsRunningCode(true);
+      const run = await runCode(submission.code, submission.language, submission.problem);
+      if (!isMountedRef.current) return;
+      setIsRunningCode(false);
+      updateCoding(c => ({ ...c, lastRun: run, runCount: c.runCount + 1 }));
+      sendSnapshot('run');
+  };
+
+  const handleSubmitCode = () => {
+      updateCoding(c => ({ ...c, submittedAt: Date.now() }));
+      sendSnapshot('submit');
+  };
+
+  // --- RECONNECTION ---
+  const handleConnectionLost = () => {
+      if (terminationTriggeredRef.current || !isMountedRef.current) return;
+      // A failure before the first open is a setup problem, not a dropped interview
+      if (!hasOpenedRef.current) {
+          setStatus('error');
+          return;
+      }
+      // Invalidate the dead session so its remaining callbacks are ignored
+      connectionGenerationRef.current++;
+      isConnectedRef.current = false;
+      const dead = sessionRef.current;
+      sessionRef.current = null;
+      try { dead?.close(); } catch (e) {}
+
+      if (!outageRef.current) {
+          outageRef.current = { startedAt: Date.now(), attempts: 0, recovered: false };
+          stopPlayback();
+          dropAiTurnRef.current = false;
+          isWaitingForResponseRef.current = false;
+          silenceRef.current.update(false, lastUserSpeechTimeRef.current);
+          updateTranscript(t => closeTranscriptTurn(closeTranscriptTurn(t, 'ai'), 'user'));
+          setStatus('reconnecting');
+      }
+      scheduleReconnect();
+  };
+
+  const scheduleReconnect = () => {
+      const outage = outageRef.current;
+      if (!outage || reconnectTimeoutRef.current) return;
+      if (outage.attempts >= MAX_RECONNECT_ATTEMPTS) {
+          handleTermination(CONNECTION_LOST_REASON);
+          return;
+      }
+      const delay = reconnectDelayMs(outage.attempts);
+      outage.attempts++;
+      setReconnectAttempt(outage.attempts);
+      reconnectTimeoutRef.current = window.setTimeout(() => {
+          reconnectTimeoutRef.current = 0;
+          const resume = hasStartedRef.current
+              ? { transcript: fullTranscriptHistory.current, coding: codingRef.current || undefined }
+              : undefined;
+          connectRef.current?.(resume);
+      }, delay);
+  };
+
+  const handleReconnected = () => {
+      const outage = outageRef.current;
+      if (!outage) return;
+      const endedAt = Date.now();
+      outagesRef.current = [...outagesRef.current, { ...outage, endedAt, recovered: true }];
+      outageRef.current = null;
+      // The phase budget should not be spent on the outage either
+      phaseStartRef.current = { ...phaseStartRef.current, startedAt: phaseStartRef.current.startedAt + (endedAt - outage.startedAt) };
+      if (hasStartedRef.current) {
+          // Time offline is not the candidate's silence
+          lastUserSpeechTimeRef.current = endedAt;
+          setStatus('connected');
+          sessionRef.current?.sendText("[SYSTEM] Connection restored. Resume the interview now.");
+      } else {
+          setStatus('connecting');
+      }
+  };
+
   // --- VISUALIZER LOGIC ---
   const drawVisualizer = () => {
       const canvas = canvasRef.current;
@@ -132,7 +412,7 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
           }
 
           // Orb Animation
-          const baseColor = isAiSpeakingRef.current ? '99, 102, 241' : isUserSpeaking ? '16, 185, 129' : '139, 92, 246';
+          const baseColor = isAiSpeakingRef.current ? '99, 102, 241' : isUserSpeakingRef.current ? '16, 185, 129' : '139, 92, 246';
           const radius = 60 + (volume * 30);
 
           const gradient = ctx.createRadialGradient(centerX, centerY, 60, centerX, centerY, radius + 50);
@@ -162,8 +442,18 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
     // 2. Send the explicit trigger to the AI session
     const session = sessionRef.current;
     if (session) {
-        session.sendRealtimeInput([{ text: "Start the interview now." }]);
+        hasStartedRef.current = true;
+        session.sendText("Start the interview now.");
+        updateTranscript(() => createTranscript(Date.now(), questionPhases(template)));
+        phaseStartRef.current = { phase: 'intro', startedAt: Date.now() };
+        lastUserSpeechTimeRef.current = Date.now();
+        recorderRef.current?.start();
         setStatus('connected'); // Set status connected after trigger
+
+        // 3. Proctoring starts with the interview. Fullscreen needs this click as the user gesture.
+        try { await document.documentElement.requestFullscreen(); } catch (e) {}
+        proctorRef.current?.start();
+        cameraMonitorRef.current?.start();
     }
   };
 
@@ -171,13 +461,13 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
   // --- INITIALIZATION ---
   useEffect(() => {
     isMountedRef.current = true;
+    proctorRef.current = createProctor({
+        onEvent: handleProctoringEvent,
+        onTerminate: (reason) => handleTermination(reason),
+    });
     
     const initializeMediaAndConnection = async () => {
       try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) { setStatus('error'); return; }
-
-        const ai = new GoogleGenAI({ apiKey });
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
         
         // 1. Output Audio Context
@@ -200,118 +490,143 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
         // Request media, but don't start sending data until the user clicks start
         const stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true }, video: true });
         streamRef.current = stream;
-        if (videoRef.current) videoRef.current.srcObject = stream;
+        if (videoRef.current) {
+            videoRef.current.srcObject = stream;
+            // Camera findings go through the proctor, so they share its severity policy and warning count
+            cameraMonitorRef.current = createCameraMonitor(videoRef.current, {
+                onFinding: (finding, detail, snapshot) => proctorRef.current?.report(finding, detail, snapshot),
+            });
+        }
+        proctorRef.current?.watchStream(stream);
+
+        // Opt-in recording: camera video plus a mix of the candidate's mic and the AI voice
+        if (candidate.recordSession) {
+            const recordingMix = audioContext.createMediaStreamDestination();
+            analyser.connect(recordingMix);
+            audioContext.createMediaStreamSource(stream).connect(recordingMix);
+            recorderRef.current = createSessionRecorder(stream, recordingMix.stream);
+        }
         
         const source = inputAudioContext.createMediaStreamSource(stream);
-        const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-        scriptProcessorRef.current = scriptProcessor;
-        const inputGain = inputAudioContext.createGain();
-        source.connect(inputGain);
-        inputGain.connect(scriptProcessor);
-        scriptProcessor.connect(inputAudioContext.destination);
-
-        // 3. Connect Gemini
-        const sessionPromise = ai.live.connect({
-          model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-          callbacks: {
-            onopen: async () => {
-              if (!isMountedRef.current) return;
-              // Status remains 'connecting' until user clicks START
-              isConnectedRef.current = true;
-              setIsReadyToStart(true); // Indicate readiness
-              
-              // *** AI TRIGGER MOVED TO handleStart FUNCTION ***
-              
-              scriptProcessor.onaudioprocess = (e) => {
-                 if (!isConnectedRef.current) return;
-                 const inputData = e.inputBuffer.getChannelData(0);
-                 
-                 // VAD
-                 let sum = 0;
-                 for (let i = 0; i < inputData.length; i++) sum += inputData[i] * inputData[i];
-                 const rms = Math.sqrt(sum / inputData.length);
-                 
-                 if (rms > 0.02) {
-                     lastUserSpeechTimeRef.current = Date.now();
-                     setIsUserSpeaking(true);
-                     isWaitingForResponseRef.current = false;
-                 } else {
-                     setIsUserSpeaking(false);
-                 }
-
-                 const downsampled = downsampleBuffer(inputData, inputAudioContext.sampleRate, 16000);
-                 if (downsampled.length > 0) {
-                     sessionRef.current.sendRealtimeInput([{ mimeType: "audio/pcm;rate=16000", data: createBlob(downsampled, 16000).data }]);
-                 }
-              };
-            },
-            onmessage: async (message: LiveServerMessage) => {
-                if (!isMountedRef.current) return;
-
-                if (message.toolCall) {
-                   const call = message.toolCall.functionCalls?.find(f => f.name === 'endInterview');
-                   if (call) handleTermination((call.args as any)?.reason || "Completed");
-                }
-
-                if (message.serverContent?.modelTurn?.parts?.[0]?.text) {
-                    const text = message.serverContent.modelTurn.parts[0].text;
-                    setTranscriptLines(prev => [...prev, {speaker: 'ai', text}]);
-                    fullTranscriptHistory.current.push(`AI: ${text}`);
-                    isAiSpeakingRef.current = true;
-                }
-
-                if (message.serverContent?.turnComplete) {
-                    isAiSpeakingRef.current = false;
-                    isWaitingForResponseRef.current = true;
-                }
-
-                if (message.serverContent?.modelTurn?.parts?.[0]?.inlineData) {
-                    const audioData = message.serverContent.modelTurn.parts[0].inlineData.data;
-                    const buffer = await decodeAudioData(decode(audioData), audioContext, 24000, 1);
-                    
-                    const src = audioContext.createBufferSource();
-                    src.buffer = buffer;
-                    src.connect(analyser); 
-                    
-                    const currentTime = audioContext.currentTime;
-                    const startTime = Math.max(currentTime, nextAudioStartTimeRef.current);
-                    src.start(startTime);
-                    nextAudioStartTimeRef.current = startTime + buffer.duration;
-                    
-                    isAiSpeakingRef.current = true;
-                    // FIX 5: Simplified onended handler
-                    src.onended = () => {
-                         isAiSpeakingRef.current = false;
-                    };
-                }
-            },
-            onerror: () => setStatus('error'),
-          }
-          ,
-          config: {
-            responseModality: "AUDIO", 
-            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
-            tools: [{ functionDeclarations: [endInterviewTool] }],
-            systemInstruction: {
-              parts: [{
-                text: `You are Interna, an AI Interviewer developed by Internadda. 
-                       Candidate Name: ${candidate.name}
-                       Role: ${candidate.field}
-                       Context: ${candidate.jobDescription.substring(0, 1000)}
-                       
-                       **INTERVIEW PROTOCOL:**
-                       1. **IMMEDIATE INTRO:** As soon as you connect, say: "Hello ${candidate.name}, I am Interna, your AI interviewer from Internadda. Welcome to your assessment for the ${candidate.field} role. Let's begin."
-                       2. **BEHAVIORAL START:** Ask ONE quick behavioral question (e.g., "Tell me about yourself" or "Why this role?").
-                       3. **TECHNICAL LOOP (5 Questions):** - Ask 5 technical questions relevant to the role/context.
-                          - Ask one by one. Wait for the answer.
-                          - Acknowledge the answer briefly (e.g., "Good point", "Understood") before moving to the next.
-                       4. **CONCLUSION:** After the 5th technical question, say: "Thank you, this concludes our interview." and IMMEDIATELY call the 'endInterview' tool.
-                       `
-              }]
-            }
-          }
+        // Capture runs for the whole session; audio is only forwarded while a live session is open.
+        // Chunks arrive already resampled and encoded, so there is no per-buffer work (or re-render) here.
+        // The VAD sees every chunk, so it calibrates while the candidate waits on the start screen
+        const vad = createVoiceActivityDetector({ noiseFloor: ambientNoiseRms });
+        micCaptureRef.current = await createMicCapture(inputAudioContext, source, (chunk, rms) => {
+           const { isSpeaking } = vad.process(rms, CAPTURE_CHUNK_MS);
+           if (!isConnectedRef.current) return;
+
+           isUserSpeakingRef.current = isSpeaking;
+           if (isSpeaking) {
+               lastUserSpeechTimeRef.current = Date.now();
+               isWaitingForResponseRef.current = false;
+           }
+
+           bargeInSpeechMsRef.current = isSpeaking ? bargeInSpeechMsRef.current + CAPTURE_CHUNK_MS : 0;
+           if (bargeInSpeechMsRef.current >= BARGE_IN_MS && sourcesRef.current.size > 0) {
+               // The server may keep streaming the old turn until its own VAD catches up
+               dropAiTurnRef.current = true;
+               handleBargeIn();
+           }
+
+           sessionRef.current?.sendAudio(chunk);
         });
-        sessionRef.current = await sessionPromise;
+
+        const handleEvent = async (event: LiveEvent) => {
+          if (!isMountedRef.current) return;
+
+          switch (event.type) {
+              case 'toolCall': {
+                  event.calls.filter(c => c.name === 'scoreAnswer').forEach(handleScoreAnswer);
+                  event.calls.filter(c => c.name === 'presentCodingProblem').forEach(handlePresentCodingProblem);
+                  event.calls.filter(c => c.name === 'reviewCode').forEach(handleReviewCode);
+                  const call = event.calls.find(c => c.name === 'endInterview');
+                  if (call) handleTermination((call.args.reason as string) || "Completed");
+                  break;
+              }
+              case 'inputTranscript':
+                  if (event.text) updateTranscript(t => appendTranscriptChunk(t, 'user', event.text));
+                  if (event.finished) updateTranscript(t => closeTranscriptTurn(t, 'user'));
+                  break;
+              case 'outputTranscript':
+                  if (dropAiTurnRef.current) break;
+                  if (event.text) {
+                      updateTranscript(t => appendTranscriptChunk(t, 'ai', event.text));
+                      isAiSpeakingRef.current = true;
+                  }
+                  if (event.finished) updateTranscript(t => closeTranscriptTurn(t, 'ai'));
+                  break;
+              case 'interrupted':
+                  // Anything the server sends after this belongs to its next turn
+                  dropAiTurnRef.current = false;
+                  handleBargeIn();
+                  break;
+              case 'turnComplete':
+                  if (dropAiTurnRef.current) {
+                      dropAiTurnRef.current = false;
+                      break;
+                  }
+                  updateTranscript(t => closeTranscriptTurn(t, 'ai'));
+                  isAiSpeakingRef.current = false;
+                  isWaitingForResponseRef.current = true;
+                  break;
+              case 'audio': {
+                  if (dropAiTurnRef.current) break;
+                  const buffer = await decodeAudioData(decode(event.data), audioContext, event.sampleRate, 1);
+                  // A barge-in can land while the chunk is decoding
+                  if (dropAiTurnRef.current || !isMountedRef.current) break;
+                  
+                  const src = audioContext.createBufferSource();
+                  src.buffer = buffer;
+                  src.connect(analyser); 
+                  
+                  const currentTime = audioContext.currentTime;
+                  const startTime = Math.max(currentTime, nextAudioStartTimeRef.current);
+                  src.start(startTime);
+                  nextAudioStartTimeRef.current = startTime + buffer.duration;
+                  
+                  sourcesRef.current.add(src);
+                  isAiSpeakingRef.current = true;
+                  src.onended = () => {
+                       sourcesRef.current.delete(src);
+                       if (sourcesRef.current.size === 0) isAiSpeakingRef.current = false;
+                  };
+                  break;
+              }
+          }
+        };
+
+        // 3. Connect the live provider. Reconnects go through the same path with a recap of the conversation.
+        connectRef.current = (resume) => {
+          const generation = ++connectionGenerationRef.current;
+          const isCurrent = () => isMountedRef.current && generation === connectionGenerationRef.current;
+          let opened = false;
+          let session: LiveSession | null = null;
+          // onOpen can fire before or after connect() resolves depending on the provider
+          const ready = () => {
+            if (!opened || !session || !isCurrent()) return;
+            sessionRef.current = session;
+            isConnectedRef.current = true;
+            hasOpenedRef.current = true;
+            if (outageRef.current) handleReconnected();
+            else setIsReadyToStart(true); // Status remains 'connecting' until user clicks START
+          };
+
+          return getLlmProviders().live.connect({ candidate, resume }, {
+            onOpen: () => { opened = true; ready(); },
+            onEvent: (event) => { if (isCurrent()) handleEvent(event); },
+            onError: () => { if (isCurrent()) handleConnectionLost(); },
+            onClose: () => { if (isCurrent()) handleConnectionLost(); },
+          }).then(
+            connected => {
+              if (!isCurrent()) { connected.close(); return; }
+              session = connected;
+              ready();
+            },
+            () => { if (isCurrent()) handleConnectionLost(); }
+          );
+        };
+        await connectRef.current();
         
       } catch (e) { setStatus('error'); }
     };
@@ -319,6 +634,11 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
     initializeMediaAndConnection();
 
     const timerInterval = setInterval(() => {
+        // The clock starts when the candidate starts the interview, not while media and the connection
+        // are set up, and it stops while the connection is down
+        if (!hasStartedRef.current || outageRef.current) return;
+        checkPhaseBudget();
+        checkSilence();
         setTimeLeft(prev => {
             if (prev <= 1) { handleTermination("Time Limit"); return 0; }
             return prev - 1;
@@ -341,10 +661,11 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
   };
 
   const getStatusText = () => {
-      if (status === 'error') return 'Connection Failed';
-      if (status === 'connecting') return 'Connecting...';
-      if (isReadyToStart) return 'Ready. Click Start!';
-      return 'Connected';
+      if (status === 'error') return t('session.status.error');
+      if (status === 'connecting') return t('session.status.connecting');
+      if (status === 'reconnecting') return t('session.status.reconnecting', { attempt: reconnectAttempt, max: MAX_RECONNECT_ATTEMPTS });
+      if (isReadyToStart) return t('session.status.ready');
+      return t('session.status.connected');
   }
 
   return (
@@ -354,25 +675,42 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
       <div className="z-20 flex items-center justify-between px-6 py-4 bg-slate-900/50 backdrop-blur-md border-b border-white/5">
         <div className="flex items-center gap-4">
            <div className={`flex items-center gap-2 px-3 py-1 rounded-full border ${
-               status === 'connected' ? 'bg-emerald-500/20 border-emerald-500/30 text-emerald-400' : 'bg-rose-500/20 border-rose-500/30 text-rose-400'
+               status === 'connected' ? 'bg-emerald-500/20 border-emerald-500/30 text-emerald-400'
+                   : status === 'reconnecting' ? 'bg-amber-500/20 border-amber-500/30 text-amber-400'
+                   : 'bg-rose-500/20 border-rose-500/30 text-rose-400'
            }`}>
-               <span className={`w-2 h-2 rounded-full ${status === 'connected' ? 'bg-emerald-400 animate-pulse' : 'bg-current'}`}></span>
+               <span className={`w-2 h-2 rounded-full ${status === 'connected' ? 'bg-emerald-400 animate-pulse' : status === 'reconnecting' ? 'bg-current animate-pulse' : 'bg-current'}`}></span>
                <span className="text-xs font-bold uppercase tracking-widest">{getStatusText()}</span>
            </div>
            <div className="flex items-center gap-2 px-3 py-1 rounded-full font-mono font-medium bg-slate-800 text-slate-300">
               <span>{Math.floor(timeLeft / 60)}:{String(timeLeft % 60).padStart(2, '0')}</span>
            </div>
+           {status === 'connected' && (
+               <div className="hidden md:flex items-center gap-2 px-3 py-1 rounded-full text-xs font-bold uppercase tracking-widest bg-slate-800 text-slate-400">
+                   <span>{t(`phase.${currentPhase(transcriptLines)}`)}</span>
+                   <span className="text-slate-600">·</span>
+                   <span>{t('session.questionProgress', { current: Math.min(questionsAsked(transcriptLines), totalQuestions(template)), total: totalQuestions(template) })}</span>
+                   <span className="text-slate-600">·</span>
+                   <span className={currentDifficulty === 'hard' ? 'text-rose-400' : currentDifficulty === 'medium' ? 'text-amber-400' : 'text-emerald-400'}>{t(`difficulty.${currentDifficulty}`)}</span>
+               </div>
+           )}
         </div>
-        <button onClick={() => handleTermination("User ended session")} className="text-xs text-rose-400 border border-rose-500/30 px-3 py-1 rounded-full hover:bg-rose-500/10">End</button>
+        <button onClick={() => handleTermination("User ended session")} className="text-xs text-rose-400 border border-rose-500/30 px-3 py-1 rounded-full hover:bg-rose-500/10">{t('session.end')}</button>
       </div>
 
       {/* 2. Main Stage */}
-      <div className="relative flex items-center justify-center overflow-hidden w-full h-full">
+      <div className={`relative flex items-center justify-center overflow-hidden w-full h-full ${coding ? 'gap-6 p-6' : ''}`}>
+         {proctorWarning && (
+             <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 px-4 py-2 rounded-full bg-amber-500/20 border border-amber-500/40 text-amber-300 text-sm font-bold animate-fade-in">
+                 <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse"></span>
+                 {proctorWarning}
+             </div>
+         )}
          <video ref={videoRef} autoPlay muted playsInline className="absolute opacity-0 pointer-events-none w-1 h-1" />
          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full z-0 opacity-60" />
          
          {/* ROBOT UI */}
-         <div className="relative z-10 flex flex-col items-center justify-center transition-transform duration-300">
+         <div className={`relative z-10 flex-col items-center justify-center transition-transform duration-300 ${coding ? 'hidden lg:flex lg:w-1/3 scale-75' : 'flex'}`}>
              <svg width="220" height="220" viewBox="0 0 200 200" fill="none" className={`transition-all duration-500 ${status === 'connected' ? 'drop-shadow-[0_0_30px_rgba(139,92,246,0.3)]' : 'opacity-50 grayscale'}`}>
                 <rect x="20" y="20" width="160" height="160" rx="30" fill="#F1F5F9" />
                 <path d="M85 20H115V15C115 12.2 112.7 10 110 10H90C87.2 10 85 12.2 85 15V20Z" fill="#CBD5E1"/>
@@ -388,31 +726,46 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
              </svg>
              
              <div className="mt-8 text-center min-h-[24px]">
-                 {status === 'connecting' && <p className="text-indigo-300 animate-pulse font-medium">Connecting to Interna...</p>}
-                 {status === 'error' && <p className="text-rose-400 font-bold">Connection Failed</p>}
-                 {status === 'connected' && !isAiSpeakingRef.current && <p className="text-slate-400 text-sm">Listening...</p>}
+                 {status === 'connecting' && <p className="text-indigo-300 animate-pulse font-medium">{t('session.connectingTo', { name: template.personaName })}</p>}
+                 {status === 'reconnecting' && <p className="text-amber-300 animate-pulse font-medium">{t('session.reconnectingPaused')}</p>}
+                 {status === 'error' && <p className="text-rose-400 font-bold">{t('session.status.error')}</p>}
+                 {status === 'connected' && !isAiSpeakingRef.current && <p className="text-slate-400 text-sm">{t('session.listening')}</p>}
                  
                  {/* START BUTTON OVERLAY */}
-                 {isReadyToStart && status !== 'connected' && (
+                 {isReadyToStart && status === 'connecting' && (
                      <button
                         onClick={handleStart}
                         className="bg-indigo-600 text-white font-bold py-3 px-6 rounded-full shadow-lg hover:bg-indigo-700 transition-colors"
                      >
-                        Start Interview Now
+                        {t('session.start')}
                      </button>
                  )}
 
              </div>
          </div>
+
+         {/* Shared editor, open once the interviewer issues a coding problem */}
+         {coding && (
+             <div className="relative z-10 flex-1 h-full min-w-0">
+                 <CodingPanel
+                     submission={coding}
+                     isRunning={isRunningCode}
+                     onCodeChange={handleCodeChange}
+                     onLanguageChange={handleLanguageChange}
+                     onRun={handleRunCode}
+                     onSubmit={handleSubmitCode}
+                 />
+             </div>
+         )}
       </div>
 
       {/* 3. Controls */}
       <div className="z-20 p-6 flex flex-col items-center gap-4 bg-slate-900/80 backdrop-blur-md border-t border-white/10">
          {showTranscript && (
              <div className="absolute bottom-24 left-6 right-6 max-h-[30vh] bg-black/90 rounded-2xl border border-white/10 p-4 overflow-y-auto">
-                 {transcriptLines.map((line, i) => (
-                     <p key={i} className={`mb-2 text-sm ${line.speaker === 'ai' ? 'text-indigo-300' : 'text-emerald-300'}`}>
-                         <strong className="uppercase text-xs opacity-50 mr-2">{line.speaker}:</strong>{line.text}
+                 {transcriptLines.turns.map((line, i) => (
+                     <p key={i} className={`mb-2 text-sm ${line.speaker === 'ai' ? 'text-indigo-300' : 'text-emerald-300'} ${line.isFinal ? '' : 'opacity-70'}`}>
+                         <strong className="uppercase text-xs opacity-50 mr-2">{line.speaker === 'ai' ? t('session.speaker.ai') : t('session.speaker.user')}:</strong>{line.text.trim()}{line.interrupted && <span className="ml-1 opacity-50">…</span>}
                      </p>
                  ))}
              </div>
@@ -420,10 +773,10 @@ export const InterviewSession: React.FC<InterviewSessionProps> = ({ candidate, o
 
          <div className="flex items-center gap-6">
             <button onClick={toggleMute} className={`p-4 rounded-full transition-all ${isMuted ? 'bg-rose-500/20 text-rose-500' : 'bg-slate-800 text-white hover:bg-slate-700'}`}>
-                {isMuted ? "Unmute" : "Mute"}
+                {isMuted ? t('session.unmute') : t('session.mute')}
             </button>
             <button onClick={() => setShowTranscript(!showTranscript)} className={`p-4 rounded-full transition-all ${showTranscript ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}>
-                Transcript
+                {t('session.transcript')}
             </button>
          </div>
       </div>
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { CandidateInfo, Invitation } from '../types';
+import { createInvitation, INVITATION_VALIDITY_OPTIONS, listInvitations } from '../services/invitations';
+import { isMissingRecruiterKey } from '../services/api';
+import { candidateLink } from '../utils/routing';
+import { getTemplate } from '../utils/templates';
+import { RecruiterKeyField } from './RecruiterKeyField';
+
+interface InviteLinkProps {
+  candidate: CandidateInfo;
+  onNewInterview: () => void;
+  onBack: () => void;
+  // Runs the interview on this device instead, evaluated and stored in this browser; only offered when
+  // the provider needs no invitation session (the offline mock)
+  onRunHere?: () => void;
+}
+
+export const InviteLink: React.FC<InviteLinkProps> = ({ candidate, onNewInterview, onBack, onRunHere }) => {
+  const [validForMs, setValidForMs] = useState(INVITATION_VALIDITY_OPTIONS[1].ms);
+  const [created, setCreated] = useState<{ invitation: Invitation; link: string } | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [recent, setRecent] = useState<Invitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [needsKey, setNeedsKey] = useState(false);
+
+  const handleError = (message: string) => (error: unknown) => {
+    console.error(message, error);
+    setNeedsKey(isMissingRecruiterKey(error));
+    setError(error instanceof Error ? error.message : message);
+  };
+
+  const loadRecent = async () => {
+    setRecent((await listInvitations()).slice(0, 5));
+    setNeedsKey(false);
+  };
+
+  useEffect(() => {
+    loadRecent().catch(handleError("Failed to load invitations"));
+  }, []);
+
+  const create = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { invitation, token } = await createInvitation(candidate, validForMs);
+      setCreated({ invitation, link: candidateLink(token) });
+      setCopied(false);
+      await loadRecent();
+    } catch (error) {
+      handleError("Failed to create invitation")(error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copy = async () => {
+    if (!created) return;
+    try {
+      await navigator.clipboard.writeText(created.link);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy link", error);
+    }
+  };
+
+  return (
+    <div className="h-full w-full bg-slate-50 overflow-y-auto custom-scrollbar">
+      <div className="max-w-3xl mx-auto px-4 lg:px-12 pt-24 pb-20">
+        <h2 className="text-[10px] lg:text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Invite Candidate</h2>
+        <h1 className="text-2xl lg:text-3xl font-bold text-slate-900 mb-8">{candidate.name} · {candidate.field}</h1>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-5 lg:p-8 space-y-6">
+          <p className="text-sm text-slate-600">
+            The candidate opens this link, runs the device check and starts the <strong>{getTemplate(candidate.templateId).name}</strong> interview in {candidate.language}. They never see the job description or the results.
+          </p>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Link Valid For</label>
+            <div className="flex gap-2">
+              {INVITATION_VALIDITY_OPTIONS.map(option => (
+                <button
+                  key={option.ms}
+                  type="button"
+                  onClick={() => setValidForMs(option.ms)}
+                  className={`px-4 py-2 rounded-xl border-2 text-sm font-bold transition-all ${validForMs === option.ms ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {needsKey && <RecruiterKeyField onSaved={() => { setError(null); loadRecent().catch(handleError("Failed to load invitations")); }} />}
+          {error && !needsKey && <p className="text-sm text-rose-600">{error}</p>}
+
+          <button
+            onClick={create}
+            disabled={isCreating}
+            className="w-full bg-slate-900 text-white py-4 rounded-xl font-bold hover:bg-indigo-600 transition-all shadow-lg disabled:opacity-50"
+          >
+            {isCreating ? 'Creating...' : created ? 'Create Another Link' : 'Create Single-Use Link'}
+          </button>
+
+          {created && (
+            <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-4 space-y-3">
+              <div className="flex gap-2">
+                <input readOnly value={created.link} onFocus={e => e.currentTarget.select()} className="flex-1 min-w-0 px-3 py-2 bg-white border border-indigo-200 rounded-lg text-xs font-mono text-slate-700" />
+                <button onClick={copy} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-indigo-700">
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+                <a href={created.link} target="_blank" rel="noreferrer" className="px-4 py-2 bg-white border border-indigo-200 text-indigo-700 rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-indigo-100">
+                  Open
+                </a>
+              </div>
+              <p className="text-xs text-indigo-800">
+                Expires {new Date(created.invitation.expiresAt).toLocaleString()}. It stops working once the candidate starts the interview.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {recent.length > 0 && (
+          <div className="mt-8">
+            <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Recent Invitations</h3>
+            <div className="bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100">
+              {recent.map(invitation => {
+                const status = invitation.redeemedAt ? 'Used' : Date.now() >= invitation.expiresAt ? 'Expired' : 'Open';
+                return (
+                  <div key={invitation.id} className="p-4 flex items-center justify-between gap-4 text-sm">
+                    <span className="flex-1 min-w-0 truncate text-slate-700">{invitation.candidate.name} · {invitation.candidate.field}</span>
+                    <span className="font-mono text-xs text-slate-400">{new Date(invitation.expiresAt).toLocaleDateString()}</span>
+                    <span className={`text-[10px] font-bold uppercase tracking-widest ${status === 'Open' ? 'text-emerald-600' : 'text-slate-400'}`}>{status}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between mt-8">
+          <button onClick={onBack} className="text-xs font-bold text-slate-500 uppercase tracking-widest hover:text-slate-900">← Edit Setup</button>
+          <div className="flex gap-6">
+            {onRunHere && <button onClick={onRunHere} className="text-xs font-bold text-slate-500 uppercase tracking-widest hover:text-slate-900">Run Here Instead</button>}
+            <button onClick={onNewInterview} className="text-xs font-bold text-indigo-600 uppercase tracking-widest hover:text-indigo-800">New Interview</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { CandidateInfo, SeniorityLevel, SkillMatrix } from '../types';
+import { analyzeJobDescription } from '../services/tasks';
+import { normalizeSkillMatrix, SENIORITY_LABELS, SENIORITY_LEVELS } from '../utils/skillMatrix';
+
+interface JobAnalysisProps {
+  candidate: CandidateInfo;
+  onApprove: (matrix: SkillMatrix) => void;
+  onBack: () => void;
+}
+
+type SkillList = 'mustHave' | 'niceToHave';
+
+const SkillListEditor: React.FC<{
+  title: string;
+  skills: string[];
+  accent: string;
+  moveLabel: string;
+  onAdd: (skill: string) => void;
+  onRemove: (skill: string) => void;
+  onMove: (skill: string) => void;
+}> = ({ title, skills, accent, moveLabel, onAdd, onRemove, onMove }) => {
+  const [draft, setDraft] = useState('');
+  const add = () => {
+    if (draft.trim()) onAdd(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-5 lg:p-6">
+      <h3 className={`text-xs font-bold uppercase tracking-widest mb-4 ${accent}`}>{title} <span className="text-slate-400">({skills.length})</span></h3>
+      <div className="flex flex-wrap gap-2 mb-4 min-h-[2rem]">
+        {skills.length === 0 && <span className="text-sm text-slate-400">None yet.</span>}
+        {skills.map(skill => (
+          <span key={skill} className="group inline-flex items-center gap-1 pl-3 pr-1 py-1 bg-slate-50 border border-slate-200 rounded-full text-sm text-slate-700">
+            {skill}
+            <button type="button" onClick={() => onMove(skill)} title={moveLabel} className="px-1 text-slate-400 hover:text-indigo-600">⇄</button>
+            <button type="button" onClick={() => onRemove(skill)} title="Remove" className="px-1 text-slate-400 hover:text-rose-600">×</button>
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="flex-1 px-3 py-2 bg-slate-50 border-2 border-slate-200 rounded-xl focus:border-indigo-600 focus:bg-white outline-none text-sm"
+          placeholder="Add a skill..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); add(); } }}
+        />
+        <button type="button" onClick={add} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-indigo-600">Add</button>
+      </div>
+    </div>
+  );
+};
+
+export const JobAnalysis: React.FC<JobAnalysisProps> = ({ candidate, onApprove, onBack }) => {
+  const [matrix, setMatrix] = useState<SkillMatrix | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    analyzeJobDescription(candidate.jobDescription, candidate.field).then(result => {
+      if (!cancelled) setMatrix(result);
+    });
+    return () => { cancelled = true; };
+  }, [candidate]);
+
+  if (!matrix) {
+    return (
+      <div className="h-full w-full flex flex-col items-center justify-center bg-slate-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-600 mb-4"></div>
+        <h2 className="text-xl font-bold text-slate-900">Analysing the job description...</h2>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<SkillMatrix>) => setMatrix({ ...matrix, ...changes });
+  const other = (list: SkillList): SkillList => list === 'mustHave' ? 'niceToHave' : 'mustHave';
+  const addSkill = (list: SkillList, skill: string) => {
+    if (matrix[list].some(s => s.toLowerCase() === skill.toLowerCase())) return;
+    update({ [list]: [...matrix[list], skill], [other(list)]: matrix[other(list)].filter(s => s.toLowerCase() !== skill.toLowerCase()) });
+  };
+  const removeSkill = (list: SkillList, skill: string) => update({ [list]: matrix[list].filter(s => s !== skill) });
+  const moveSkill = (list: SkillList, skill: string) =>
+    update({ [list]: matrix[list].filter(s => s !== skill), [other(list)]: [...matrix[other(list)], skill] });
+
+  const selectClass = "w-full px-4 py-3 bg-slate-50 border-2 border-slate-200 rounded-xl focus:border-indigo-600 focus:bg-white outline-none transition-all text-sm";
+
+  return (
+    <div className="h-full w-full bg-slate-50 overflow-y-auto custom-scrollbar animate-fade-in">
+      <div className="max-w-4xl mx-auto px-4 lg:px-12 pt-24 pb-20">
+        <div className="mb-8">
+          <h2 className="text-[10px] lg:text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Job Description Analysis</h2>
+          <h1 className="text-2xl lg:text-3xl font-bold text-slate-900">Review the skill matrix</h1>
+          <p className="text-slate-500 mt-2 text-sm">
+            Interna interviews and scores {candidate.name} for {candidate.field} against this matrix, not the raw job description. Edit anything that is off.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Seniority</label>
+            <select className={selectClass} value={matrix.seniority} onChange={(e) => update({ seniority: e.target.value as SeniorityLevel })}>
+              {SENIORITY_LEVELS.map(level => <option key={level} value={level}>{SENIORITY_LABELS[level]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Domain</label>
+            <input type="text" className={selectClass} value={matrix.domain} onChange={(e) => update({ domain: e.target.value })} />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <SkillListEditor
+            title="Must-have"
+            accent="text-indigo-600"
+            moveLabel="Move to nice-to-have"
+            skills={matrix.mustHave}
+            onAdd={(skill) => addSkill('mustHave', skill)}
+            onRemove={(skill) => removeSkill('mustHave', skill)}
+            onMove={(skill) => moveSkill('mustHave', skill)}
+          />
+          <SkillListEditor
+            title="Nice-to-have"
+            accent="text-slate-500"
+            moveLabel="Move to must-have"
+            skills={matrix.niceToHave}
+            onAdd={(skill) => addSkill('niceToHave', skill)}
+            onRemove={(skill) => removeSkill('niceToHave', skill)}
+            onMove={(skill) => moveSkill('niceToHave', skill)}
+          />
+        </div>
+
+        {matrix.mustHave.length === 0 && (
+          <p className="text-sm text-amber-600 mt-4">No must-have skills yet. Add at least one so the interview has something to probe.</p>
+        )}
+
+        <div className="flex gap-3 mt-8">
+          <button onClick={onBack} className="px-6 py-4 bg-white border-2 border-slate-200 text-slate-700 rounded-xl font-bold hover:border-slate-300 transition-all">
+            Back
+          </button>
+          <button
+            onClick={() => onApprove(normalizeSkillMatrix(matrix, matrix))}
+            disabled={matrix.mustHave.length === 0}
+            className="flex-1 py-4 bg-slate-900 text-white rounded-xl font-bold hover:bg-indigo-600 transition-all shadow-xl disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Approve & Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { CandidateInfo, HumanReview, InterviewResult } from '../types';
+import { PROCTORING_EVENT_LABELS } from '../utils/proctoring';
+import { LONG_SILENCE_MS } from '../utils/silence';
+import { describeRun } from '../utils/coding';
+import { commentsFor, DECISION_LABELS, effectiveVerdict } from '../utils/review';
+import { formatScore } from '../utils/rubrics';
+
+interface PrintReportProps {
+  candidate: CandidateInfo;
+  result: InterviewResult;
+  review?: HumanReview | null;
+}
+
+// Rendered outside #root so the app's fixed-height, overflow-hidden layout cannot clip it.
+// Only visible when printing (see index.css).
+export const PrintReport: React.FC<PrintReportProps> = ({ candidate, result, review }) => {
+  const isDisqualified = !!result.terminationReason;
+  const events = result.proctoringEvents || [];
+  const isUnevaluated = !isDisqualified && (result.evaluationStatus === 'pending' || result.evaluationStatus === 'failed');
+  const effective = effectiveVerdict(result, review);
+  const verdict = isDisqualified ? 'Disqualified' : isUnevaluated ? 'Not Evaluated' : effective.passed ? 'Qualified' : 'Does Not Meet Bar';
+
+  return createPortal(
+    <div className="print-report font-sans text-slate-900 text-sm p-8">
+      <header className="flex items-start justify-between border-b-2 border-slate-900 pb-4 mb-6">
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Interna Candidate Evaluation</p>
+          <h1 className="text-2xl font-bold">{candidate.name}</h1>
+          <p className="text-slate-600">{candidate.field} · {candidate.language}</p>
+        </div>
+        <div className="text-right">
+          {!isDisqualified && !isUnevaluated && <p className="text-3xl font-black">{formatScore(effective.rating)}<span className="text-base text-slate-400"> / 10</span></p>}
+          <p className="font-bold uppercase tracking-widest text-xs">{verdict}</p>
+          {effective.overridden && <p className="text-xs text-slate-600">Reviewer override · AI scored {formatScore(result.rating)}</p>}
+          {result.confidence !== undefined && (
+            <p className="text-xs text-slate-600">{Math.round(result.confidence * 100)}% confidence{result.needsHumanReview ? ' · Needs human review' : ''}</p>
+          )}
+          <p className="text-xs text-slate-500">{new Date().toLocaleDateString()}</p>
+        </div>
+      </header>
+
+      <section className="mb-6 break-inside-avoid">
+        <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Executive Summary</h2>
+        <p className="leading-relaxed">{result.feedback}</p>
+      </section>
+
+      {review && (review.decision || review.overall) && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Human Review</h2>
+          {review.decision && (
+            <p>
+              <span className="font-semibold">Decision: {DECISION_LABELS[review.decision.value]}</span> · {review.decision.author}, {new Date(review.decision.at).toLocaleDateString()}
+              {review.decision.note && ` · ${review.decision.note}`}
+            </p>
+          )}
+          {review.overall && (
+            <p>
+              <span className="font-semibold">Overall score overridden to {review.overall.score}</span> (AI: {formatScore(result.rating)}) by {review.overall.author}: {review.overall.justification}
+            </p>
+          )}
+        </section>
+      )}
+
+      {result.needsHumanReview && result.reviewReasons && result.reviewReasons.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Flagged for Human Review</h2>
+          <ul className="list-disc pl-5">
+            {result.reviewReasons.map((reason, i) => <li key={i}>{reason}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {result.competencies && result.competencies.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">
+            Competency Breakdown{result.passThreshold !== undefined && ` (pass bar ${result.passThreshold} / 10)`}
+          </h2>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="text-left border-b border-slate-300">
+                <th className="py-1 pr-2">Competency</th>
+                <th className="py-1 pr-2">Weight</th>
+                <th className="py-1 pr-2">Score</th>
+                <th className="py-1">Rationale</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.competencies.map(c => (
+                <tr key={c.competencyId} className="border-b border-slate-100 align-top">
+                  <td className="py-1 pr-2 font-semibold">{c.name}</td>
+                  <td className="py-1 pr-2">{Math.round(c.weight * 100)}%</td>
+                  <td className="py-1 pr-2">{formatScore(c.score)} ({c.level})</td>
+                  <td className="py-1">{c.rationale}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {result.questions && result.questions.length > 0 && (
+        <section className="mb-6">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Question Review</h2>
+          {result.questions.map((qa, idx) => (
+            <div key={idx} className="mb-4 break-inside-avoid">
+              <p className="font-semibold">
+                Q{idx + 1}. {qa.question}{' '}
+                <span className="text-slate-500">
+                  ({review?.questions[idx] ? `${review.questions[idx].score} / 10, reviewer override; AI ${qa.rating}` : `${qa.rating} / 10`})
+                </span>
+              </p>
+              <p><span className="font-semibold">Answer: </span>{qa.candidateAnswerSummary}</p>
+              <p><span className="font-semibold">Analysis: </span>{qa.feedback}</p>
+              {qa.expectedAnswerComparison && <p><span className="font-semibold">Against expected answer: </span>{qa.expectedAnswerComparison}</p>}
+              {review?.questions[idx] && <p><span className="font-semibold">Override justification: </span>{review.questions[idx].justification}</p>}
+              {commentsFor(review, { kind: 'question', questionIndex: idx }).map(c => (
+                <p key={c.id}><span className="font-semibold">Comment ({c.author}): </span>{c.text}</p>
+              ))}
+            </div>
+          ))}
+        </section>
+      )}
+
+      {result.skillCoverage && result.skillCoverage.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Must-Have Skills</h2>
+          <ul className="list-disc pl-5">
+            {result.skillCoverage.map((coverage, idx) => (
+              <li key={idx}><span className="font-semibold">{coverage.skill}</span> ({coverage.demonstrated ? 'demonstrated' : 'not demonstrated'}): {coverage.note}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {result.resumeClaims && result.resumeClaims.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Resume Claims vs. Demonstrated</h2>
+          <table className="w-full border-collapse">
+            <tbody>
+              {result.resumeClaims.map((check, idx) => (
+                <tr key={idx} className="border-b border-slate-100 align-top">
+                  <td className="py-1 pr-2 font-semibold">{check.claim}</td>
+                  <td className="py-1 pr-2 whitespace-nowrap">{check.status.replace(/_/g, ' ')}</td>
+                  <td className="py-1">{check.evidence}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {result.difficultyTrajectory && result.difficultyTrajectory.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Difficulty Trajectory</h2>
+          <p>
+            {result.difficultyTrajectory.map(a => `${a.isFollowUp ? 'Follow-up' : `Q${a.questionIndex + 1}`} ${a.difficulty} (${a.score}/10)`).join(' → ')}
+          </p>
+        </section>
+      )}
+
+      {result.missedMustAskQuestions && result.missedMustAskQuestions.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Must-Ask Questions Not Covered</h2>
+          <ul className="list-disc pl-5">
+            {result.missedMustAskQuestions.map((text, idx) => <li key={idx}>{text}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {result.connectionOutages && result.connectionOutages.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Connection Outages</h2>
+          <ul className="list-disc pl-5">
+            {result.connectionOutages.map((outage, idx) => (
+              <li key={idx}>
+                {new Date(outage.startedAt).toLocaleTimeString()} · {Math.round(((outage.endedAt ?? outage.startedAt) - outage.startedAt) / 1000)}s · {outage.recovered ? 'recovered' : 'not recovered'}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {result.silences && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Engagement</h2>
+          <p>
+            {result.silences.length} long silence{result.silences.length === 1 ? '' : 's'} ({LONG_SILENCE_MS / 1000}s+) · {result.silences.filter(s => s.reprompted).length} re-prompt(s)
+            {result.silences.length > 0 && ` · longest ${Math.round(Math.max(...result.silences.map(s => s.durationMs)) / 1000)}s`}
+          </p>
+        </section>
+      )}
+
+      {result.coding && (
+        <section className="mb-6">
+          <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Coding Round</h2>
+          <p className="font-semibold">
+            {result.coding.problem.title} ({result.coding.problem.difficulty}, {result.coding.language}){result.coding.review && ` · ${result.coding.review.score}/10`}
+          </p>
+          <p>{describeRun(result.coding.lastRun)}</p>
+          {result.coding.review && <p className="mt-1">{result.coding.review.summary}</p>}
+          <pre className="mt-2 text-xs font-mono whitespace-pre-wrap border border-slate-300 p-2">{result.coding.code}</pre>
+        </section>
+      )}
+
+      <section className="break-inside-avoid">
+        <h2 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Proctoring</h2>
+        {isDisqualified && <p className="font-semibold mb-2">Session terminated: {result.terminationReason}</p>}
+        {events.length === 0 ? (
+          <p>No proctoring events were recorded.</p>
+        ) : (
+          <ul className="list-disc pl-5">
+            {events.map((event, idx) => (
+              <li key={idx}>
+                {new Date(event.timestamp).toLocaleTimeString()} · {PROCTORING_EVENT_LABELS[event.type]} ({event.action}){event.detail && ` · ${event.detail}`}
+                {event.snapshot && <img src={event.snapshot} alt="" className="mt-1 w-24 border border-slate-300" />}
+              </li>
+            ))}
+          </ul>
+        )}
+        {result.faceDetectionAvailable === false && <p className="mt-2 text-xs">Face checks were unavailable in the candidate's browser; only covered-camera checks ran.</p>}
+      </section>
+    </div>,
+    document.body
+  );
+};
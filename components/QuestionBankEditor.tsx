@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { BankQuestion, QuestionDifficulty } from '../types';
+import { saveQuestionBank } from '../services/interviewStore';
+import { createBankQuestion } from '../utils/questionBanks';
+
+interface QuestionBankEditorProps {
+  role: string;
+  questions: BankQuestion[];
+  onSaved: (questions: BankQuestion[]) => void;
+  onCancel: () => void;
+}
+
+const DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Edits a role's bank for every later interview; interviews already set up keep the bank they were created with
+export const QuestionBankEditor: React.FC<QuestionBankEditorProps> = ({ role, questions, onSaved, onCancel }) => {
+  const [draft, setDraft] = useState<BankQuestion[]>(questions);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (id: string, change: Partial<BankQuestion>) => {
+    setDraft(prev => prev.map(q => (q.id === id ? { ...q, ...change } : q)));
+  };
+
+  const save = async () => {
+    const cleaned = draft.map(q => ({ ...q, text: q.text.trim(), expectedAnswer: q.expectedAnswer.trim() }));
+    if (cleaned.some(q => !q.text)) return setError('Every question needs its text; delete the ones you do not need.');
+    setIsSaving(true);
+    try {
+      await saveQuestionBank(role, cleaned);
+      onSaved(cleaned);
+    } catch (e) {
+      console.error("Failed to save question bank", e);
+      setError('The bank could not be saved in this browser.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fieldClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-800 outline-none focus:border-indigo-600 resize-none";
+
+  return (
+    <div className="border-2 border-indigo-200 rounded-xl p-4 space-y-4 bg-indigo-50/40">
+      <p className="text-[10px] font-bold text-indigo-700 uppercase tracking-widest">Editing the {role} bank</p>
+
+      {draft.length === 0 && <p className="text-sm text-slate-500">No questions yet. Interna will make up its own technical questions.</p>}
+
+      {draft.map((q, i) => (
+        <div key={q.id} className="bg-white border border-slate-200 rounded-xl p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Question {i + 1}</span>
+            <button type="button" onClick={() => setDraft(prev => prev.filter(x => x.id !== q.id))} className="text-xs font-bold text-rose-600 hover:text-rose-700">
+              Delete
+            </button>
+          </div>
+          <textarea rows={2} className={fieldClass} placeholder="What the interviewer asks" value={q.text} onChange={(e) => update(q.id, { text: e.target.value })} />
+          <textarea rows={2} className={fieldClass} placeholder="What a good answer covers (used for grading, never shown to the interviewer)" value={q.expectedAnswer} onChange={(e) => update(q.id, { expectedAnswer: e.target.value })} />
+          <div className="flex items-center gap-4">
+            <select className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none focus:border-indigo-600" value={q.difficulty} onChange={(e) => update(q.id, { difficulty: e.target.value as QuestionDifficulty })}>
+              {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer select-none">
+              <input type="checkbox" className="w-4 h-4 accent-indigo-600" checked={q.required} onChange={(e) => update(q.id, { required: e.target.checked })} />
+              Must-ask by default
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => setDraft(prev => [...prev, createBankQuestion()])} className="px-4 py-2 border-2 border-slate-200 rounded-lg text-xs font-bold uppercase tracking-widest text-slate-700 hover:border-indigo-600 transition-colors">
+          Add Question
+        </button>
+        <div className="flex-1" />
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-widest text-slate-500 hover:text-slate-900">
+          Cancel
+        </button>
+        <button type="button" onClick={save} disabled={isSaving} className="px-4 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-indigo-600 transition-colors disabled:opacity-40">
+          {isSaving ? 'Saving...' : 'Save Bank'}
+        </button>
+      </div>
+    </div>
+  );
+};
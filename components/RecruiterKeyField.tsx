@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { getRecruiterKey, setRecruiterKey } from '../services/api';
+
+interface RecruiterKeyFieldProps {
+  // Called after a new key is saved, so the screen can retry what the server refused
+  onSaved: () => void;
+}
+
+// Shown when the API server rejects a recruiter request for a missing or wrong key
+export const RecruiterKeyField: React.FC<RecruiterKeyFieldProps> = ({ onSaved }) => {
+  const [key, setKey] = useState(getRecruiterKey);
+
+  const save = () => {
+    setRecruiterKey(key);
+    onSaved();
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-2">
+      <label className="block text-[10px] font-bold text-amber-700 uppercase tracking-widest">Recruiter Key</label>
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          placeholder="Printed by the API server at startup"
+          className="flex-1 min-w-0 px-3 py-2 bg-white border border-amber-200 rounded-lg text-sm text-slate-800 outline-none focus:border-indigo-600"
+        />
+        <button onClick={save} disabled={!key.trim()} className="px-4 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-indigo-600 transition-colors disabled:opacity-40">
+          Save
+        </button>
+      </div>
+      <p className="text-xs text-amber-800">Set RECRUITER_KEY on the server to keep the same key across restarts.</p>
+    </div>
+  );
+};
@@ -1,20 +1,372 @@
-import React, { useState } from 'react';
-import { InterviewResult } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { AnswerAssessment, CandidateInfo, CodingSubmission, EvaluationPassRating, HumanReview, InterviewResult, InterviewTranscript, ProctoringEvent, ResumeClaimStatus, SessionRecording, TranscriptTurn } from '../types';
+import { PROCTORING_EVENT_LABELS } from '../utils/proctoring';
+import { findQuestionTurn, PHASE_LABELS } from '../utils/transcript';
+import { resolveQuestionBank } from '../utils/questionBanks';
+import { ADJUSTMENT_LABELS, DIFFICULTY_LEVELS, highestDifficultyReached } from '../utils/adaptiveDifficulty';
+import { LONG_SILENCE_MS } from '../utils/silence';
+import { CODING_LANGUAGES } from '../utils/codingProblems';
+import { passedCount } from '../utils/codeRunner';
+import { DEFAULT_LANGUAGE, getInterviewLanguage, INTERVIEW_LANGUAGES } from '../utils/languages';
+import { translateTranscript } from '../services/tasks';
+import { buildQuestionsCsv, buildSessionJson, downloadFile, exportFileName } from '../utils/export';
+import { addComment, commentsFor, EMPTY_REVIEW, effectiveQuestionRating, effectiveVerdict, overrideOverall, overrideQuestion, recordDecision, removeComment, revertOverride } from '../utils/review';
+import { formatScore } from '../utils/rubrics';
+import { getReviewerName, setReviewerName } from '../services/reviewer';
+import { PrintReport } from './PrintReport';
+import { CommentThread, ReviewPanel, ScoreOverrideForm } from './ReviewControls';
 
 interface ResultScreenProps {
   result: InterviewResult;
-  candidateName: string;
+  candidate: CandidateInfo;
+  transcript?: InterviewTranscript | null;
+  recording?: SessionRecording | null;
   onReset: () => void;
+  onReevaluate?: () => Promise<void>;
+  review?: HumanReview | null;
+  onReviewChange?: (review: HumanReview) => void;
 }
 
-type Tab = 'overview' | 'qa';
+type Tab = 'overview' | 'qa' | 'transcript';
 
-export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateName, onReset }) => {
+const CLAIM_STATUS_STYLES: Record<ResumeClaimStatus, { label: string; className: string }> = {
+  demonstrated: { label: 'Demonstrated', className: 'bg-emerald-50 text-emerald-700 border-emerald-100' },
+  partially_demonstrated: { label: 'Partially', className: 'bg-amber-50 text-amber-700 border-amber-100' },
+  not_demonstrated: { label: 'Not Demonstrated', className: 'bg-rose-50 text-rose-700 border-rose-100' },
+  not_discussed: { label: 'Not Discussed', className: 'bg-slate-50 text-slate-500 border-slate-200' },
+};
+
+const ProctoringTimeline: React.FC<{ events: ProctoringEvent[] }> = ({ events }) => (
+  <ol className="relative border-l-2 border-slate-200 ml-2 space-y-4">
+    {events.map((event, idx) => (
+      <li key={idx} className="ml-4">
+        <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+          event.action === 'terminate' ? 'bg-rose-500' : event.action === 'warn' ? 'bg-amber-400' : 'bg-slate-300'
+        }`}></span>
+        <div className="flex items-baseline justify-between gap-4">
+          <span className="text-sm font-semibold text-slate-800">{PROCTORING_EVENT_LABELS[event.type]}</span>
+          <span className="font-mono text-xs text-slate-400 shrink-0">{new Date(event.timestamp).toLocaleTimeString()}</span>
+        </div>
+        <div className={`text-[10px] font-bold uppercase tracking-widest ${
+          event.action === 'terminate' ? 'text-rose-600' : event.action === 'warn' ? 'text-amber-600' : 'text-slate-400'
+        }`}>
+          {event.action === 'terminate' ? 'Session Terminated' : event.action === 'warn' ? 'Warning Issued' : 'Logged'}
+        </div>
+        {event.detail && <div className="text-xs text-slate-500 mt-0.5">{event.detail}</div>}
+        {event.snapshot && <img src={event.snapshot} alt={`Camera frame: ${PROCTORING_EVENT_LABELS[event.type]}`} className="mt-2 w-32 rounded-lg border border-slate-200" />}
+      </li>
+    ))}
+  </ol>
+);
+
+// One column per live assessment; column height is the question's difficulty, colour is the score
+const DifficultyTrajectory: React.FC<{ trajectory: AnswerAssessment[] }> = ({ trajectory }) => (
+  <div className="flex items-end gap-2 lg:gap-3 h-40 overflow-x-auto pb-1">
+    {trajectory.map((a, idx) => (
+      <div key={idx} className="flex flex-col items-center justify-end h-full min-w-[48px] flex-1" title={a.rationale}>
+        <span className="text-[10px] font-mono text-slate-500 mb-1">{a.score}/10</span>
+        <div
+          className={`w-full rounded-t-md ${a.score >= 7 ? 'bg-emerald-400' : a.score >= 5 ? 'bg-amber-400' : 'bg-rose-400'} ${a.isFollowUp ? 'opacity-60' : ''}`}
+          style={{ height: `${((DIFFICULTY_LEVELS.indexOf(a.difficulty) + 1) / DIFFICULTY_LEVELS.length) * 70}%` }}
+        ></div>
+        <span className="mt-1 text-[10px] font-bold text-slate-500 uppercase tracking-widest">{a.isFollowUp ? 'F/U' : `Q${a.questionIndex + 1}`}</span>
+        <span className="text-[9px] text-slate-400 uppercase tracking-wide whitespace-nowrap">{ADJUSTMENT_LABELS[a.adjustment]}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const CodingRound: React.FC<{ coding: CodingSubmission }> = ({ coding }) => {
+  const { problem, lastRun, review } = coding;
+  const language = CODING_LANGUAGES.find(l => l.id === coding.language)?.label || coding.language;
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+      <div className="p-4 lg:p-6 flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest bg-slate-100 px-2 py-0.5 rounded-full">{problem.difficulty}</span>
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{language} · {coding.runCount} run{coding.runCount === 1 ? '' : 's'}{coding.submittedAt ? '' : ' · Not submitted'}</span>
+          </div>
+          <p className="text-sm lg:text-lg font-semibold text-slate-900">{problem.title}</p>
+          <p className="text-xs text-slate-500 mt-1">{problem.prompt}</p>
+        </div>
+        {review && (
+          <div className={`flex flex-col items-center justify-center w-10 h-10 lg:w-14 lg:h-14 rounded-lg lg:rounded-xl shrink-0 border ${
+            review.score >= 7 ? 'bg-emerald-50 border-emerald-100 text-emerald-600' :
+            review.score >= 5 ? 'bg-amber-50 border-amber-100 text-amber-600' :
+            'bg-rose-50 border-rose-100 text-rose-600'
+          }`}>
+            <span className="text-base lg:text-xl font-bold">{review.score}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 lg:p-6">
+        <h5 className="text-xs font-bold text-indigo-600 uppercase tracking-wide mb-2">AI Review</h5>
+        {review ? (
+          <>
+            <p className="text-sm text-slate-700 leading-relaxed">{review.summary}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+              {review.strengths.length > 0 && (
+                <ul className="text-sm text-slate-600 space-y-1">
+                  {review.strengths.map((item, idx) => <li key={idx}><span className="text-emerald-500 mr-1">+</span>{item}</li>)}
+                </ul>
+              )}
+              {review.concerns.length > 0 && (
+                <ul className="text-sm text-slate-600 space-y-1">
+                  {review.concerns.map((item, idx) => <li key={idx}><span className="text-rose-500 mr-1">−</span>{item}</li>)}
+                </ul>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-slate-400">The interviewer did not review the code before the session ended.</p>
+        )}
+      </div>
+
+      <div className="p-4 lg:p-6">
+        <div className="flex items-baseline justify-between mb-2">
+          <h5 className="text-xs font-bold text-indigo-600 uppercase tracking-wide">Test Results</h5>
+          {lastRun && !lastRun.error && (
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{passedCount(lastRun)}/{lastRun.results.length} passed</span>
+          )}
+        </div>
+        {!lastRun ? (
+          <p className="text-sm text-slate-400">The candidate never ran the tests.</p>
+        ) : lastRun.error ? (
+          <p className="text-sm font-mono text-rose-600">{lastRun.error}</p>
+        ) : (
+          <div className="space-y-1">
+            {lastRun.results.map(r => (
+              <div key={r.name} className="text-xs font-mono flex gap-2">
+                <span className={r.passed ? 'text-emerald-600' : 'text-rose-600'}>{r.passed ? '✓' : '✗'}</span>
+                <span className="text-slate-700">{r.name}</span>
+                {!r.passed && <span className="text-slate-400 truncate">expected {r.expected} · {r.error ? r.error : `got ${r.actual}`}</span>}
+              </div>
+            ))}
+          </div>
+        )}
+        {lastRun && lastRun.code !== coding.code && (
+          <p className="text-[10px] text-slate-400 mt-2">Results are from the run at {new Date(lastRun.timestamp).toLocaleTimeString()}; the code changed after it.</p>
+        )}
+      </div>
+
+      <div className="p-4 lg:p-6">
+        <h5 className="text-xs font-bold text-indigo-600 uppercase tracking-wide mb-2">Final Code</h5>
+        <pre className="text-xs font-mono bg-slate-900 text-slate-100 rounded-xl p-4 overflow-x-auto">{coding.code}</pre>
+      </div>
+    </div>
+  );
+};
+
+const PASS_LABELS: Record<EvaluationPassRating['kind'], string> = {
+  holistic: 'Holistic',
+  per_question: 'Per-question',
+};
+
+// How far the independent grading passes agreed, and why a human should look when they did not
+const GradingConfidence: React.FC<{ result: InterviewResult }> = ({ result }) => {
+  const confidence = Math.round((result.confidence ?? 0) * 100);
+  return (
+    <div className={`p-5 lg:p-6 rounded-2xl border ${result.needsHumanReview ? 'bg-amber-50 border-amber-200' : 'bg-white border-slate-100 shadow-sm'}`}>
+      <div className="flex items-baseline justify-between gap-4 mb-3">
+        <h3 className={`text-xs font-bold uppercase tracking-widest ${result.needsHumanReview ? 'text-amber-700' : 'text-slate-400'}`}>
+          {result.needsHumanReview ? 'Flagged for human review' : 'Grading confidence'}
+        </h3>
+        <span className="text-sm font-bold text-slate-900">{confidence}% confidence</span>
+      </div>
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-4">
+        <div className={`h-full rounded-full ${result.needsHumanReview ? 'bg-amber-400' : 'bg-emerald-500'}`} style={{ width: `${confidence}%` }}></div>
+      </div>
+      {result.passRatings && result.passRatings.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {result.passRatings.map((pass, i) => (
+            <span key={i} className={`px-2.5 py-1 rounded-lg border text-xs font-medium ${pass.passed ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-rose-50 border-rose-100 text-rose-700'}`}>
+              {PASS_LABELS[pass.kind]} {formatScore(pass.rating)}
+            </span>
+          ))}
+        </div>
+      )}
+      {result.reviewReasons && result.reviewReasons.length > 0 && (
+        <ul className="list-disc pl-5 space-y-1 text-sm text-slate-700">
+          {result.reviewReasons.map((reason, i) => <li key={i}>{reason}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const ExportActions: React.FC<{ candidate: CandidateInfo; result: InterviewResult; transcript?: InterviewTranscript | null; review?: HumanReview | null }> = ({ candidate, result, transcript, review }) => {
+  const buttonClass = "flex-1 py-2 bg-white border border-slate-200 rounded-lg text-xs font-bold uppercase tracking-widest text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+  return (
+    <div className="flex gap-2">
+      <button className={buttonClass} onClick={() => window.print()}>PDF</button>
+      <button
+        className={buttonClass}
+        onClick={() => downloadFile(exportFileName(candidate, 'json'), buildSessionJson({ candidate, result, transcript, review }), 'application/json')}
+      >
+        JSON
+      </button>
+      <button
+        className={buttonClass}
+        disabled={!result.questions?.length}
+        onClick={() => downloadFile(exportFileName(candidate, 'csv'), buildQuestionsCsv(candidate, result.questions || []), 'text/csv;charset=utf-8')}
+      >
+        CSV
+      </button>
+    </div>
+  );
+};
+
+const formatOffset = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+interface TranscriptViewProps {
+  transcript: InterviewTranscript;
+  translations?: string[];
+  onSeek?: (turn: TranscriptTurn) => void;
+  renderAnnotations?: (turn: TranscriptTurn) => React.ReactNode;
+}
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript, translations, onSeek, renderAnnotations }) => (
+  <div className="space-y-3">
+    {transcript.turns.map((turn, idx) => {
+      const startsPhase = idx === 0 || transcript.turns[idx - 1].phase !== turn.phase;
+      return (
+        <React.Fragment key={turn.id}>
+          {startsPhase && (
+            <div className="pt-4 first:pt-0 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{PHASE_LABELS[turn.phase]}</div>
+          )}
+          <div className={`flex gap-3 ${turn.speaker === 'user' ? 'flex-row-reverse' : ''}`}>
+            <div
+              onClick={onSeek && (() => onSeek(turn))}
+              className={`max-w-[85%] rounded-xl px-4 py-3 border text-xs lg:text-sm leading-relaxed ${
+                turn.speaker === 'ai' ? 'bg-white border-slate-200 text-slate-800' : 'bg-indigo-50 border-indigo-100 text-indigo-900'
+              } ${onSeek ? 'cursor-pointer hover:border-indigo-300 transition-colors' : ''}`}
+              title={onSeek ? 'Play from here' : undefined}
+            >
+              <div className="flex items-center gap-2 mb-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                <span>{turn.speaker === 'ai' ? 'Interna' : 'Candidate'}</span>
+                <span className="font-mono normal-case">{formatOffset(turn.startedAt - transcript.startedAt)}</span>
+                {turn.questionIndex !== null && <span>Q{turn.questionIndex + 1}</span>}
+                {turn.interrupted && <span className="text-amber-600">Interrupted</span>}
+              </div>
+              {turn.text.trim()}
+              {translations?.[idx] && <div className="mt-2 pt-2 border-t border-slate-200/70 text-slate-500 italic">{translations[idx]}</div>}
+            </div>
+          </div>
+          {renderAnnotations && (
+            <div className={`max-w-[85%] ${turn.speaker === 'user' ? 'ml-auto' : ''}`}>{renderAnnotations(turn)}</div>
+          )}
+        </React.Fragment>
+      );
+    })}
+  </div>
+);
+
+export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidate, transcript, recording, onReset, onReevaluate, review, onReviewChange }) => {
+  const candidateName = candidate.name;
   const [activeTab, setActiveTab] = useState<Tab>('overview');
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const replayRef = useRef<HTMLVideoElement>(null);
   const isDisqualified = !!result.terminationReason;
+  // A pending or failed evaluation has no score to show, only a way to re-run it
+  const isUnevaluated = !isDisqualified && (result.evaluationStatus === 'pending' || result.evaluationStatus === 'failed');
+  const evaluationLabel = result.evaluationStatus === 'pending' ? 'Evaluation Pending' : 'Evaluation Failed';
+  const [isReevaluating, setIsReevaluating] = useState(false);
+  // Reviewer overrides sit on top of the AI evaluation; `result` itself is never edited
+  const verdict = effectiveVerdict(result, review);
+  const canReview = !!onReviewChange && !isUnevaluated;
+  const currentReview = review || EMPTY_REVIEW;
+  const [reviewer, setReviewer] = useState(getReviewerName);
+  const canEditReview = !!reviewer.trim();
+  const proctoringEvents = result.proctoringEvents || [];
+  const questionBank = resolveQuestionBank(candidate);
+  const missedMustAsk = result.missedMustAskQuestions || [];
+  const trajectory = result.difficultyTrajectory || [];
+  const peakDifficulty = highestDifficultyReached(trajectory);
+  const interviewLanguage = getInterviewLanguage(candidate.language);
+  const [translationTarget, setTranslationTarget] = useState(interviewLanguage.name === DEFAULT_LANGUAGE.name ? INTERVIEW_LANGUAGES[1].name : DEFAULT_LANGUAGE.name);
+  const [translations, setTranslations] = useState<string[] | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!recording) {
+      setRecordingUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recording.blob);
+    setRecordingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  // Transcript timestamps are wall-clock; the recording started at a known wall-clock time
+  const seekTo = (timestamp: number) => {
+    const video = replayRef.current;
+    if (!video || !recording) return;
+    video.currentTime = Math.max(0, (timestamp - recording.startedAt) / 1000);
+    video.play().catch(() => {});
+    video.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+  const handleTranslate = async () => {
+    if (!transcript) return;
+    setIsTranslating(true);
+    setTranslationError(null);
+    try {
+      setTranslations(await translateTranscript(transcript, interviewLanguage.name, translationTarget));
+    } catch (error) {
+      console.error("Transcript translation failed", error);
+      setTranslationError("Translation failed. Try again.");
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    setReviewerName(name);
+  };
+
+  const updateReview = (change: (current: HumanReview, author: string) => HumanReview) => {
+    if (!onReviewChange || !canEditReview) return;
+    onReviewChange(change(currentReview, reviewer.trim()));
+  };
+
+  const handleReevaluate = async () => {
+    if (!onReevaluate) return;
+    setIsReevaluating(true);
+    try {
+      await onReevaluate();
+    } finally {
+      setIsReevaluating(false);
+    }
+  };
+
+  // Shared by the overview tab and the disqualified report, so a reviewer can overturn a termination too
+  const reviewSection = canReview && (
+    <div>
+        <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6">Human Review</h3>
+        <ReviewPanel
+            result={result}
+            review={currentReview}
+            reviewer={reviewer}
+            onReviewerChange={handleReviewerChange}
+            onOverride={(score, justification, passed) => updateReview((current, author) => overrideOverall(current, result, { score, passed, justification }, author))}
+            onRevert={(justification) => updateReview((current, author) => revertOverride(current, result, 'overall', justification, author))}
+            onDecision={(value, note) => updateReview((current, author) => recordDecision(current, value, note, author))}
+        />
+    </div>
+  );
+
+  const canSeek = !!recordingUrl;
+  const showReplay = canSeek && (isDisqualified || activeTab !== 'overview');
 
   return (
     <div className="flex flex-col lg:grid lg:grid-cols-12 h-full w-full bg-slate-50 animate-slide-up">
+       <PrintReport candidate={candidate} result={result} review={review} />
        
        {/* TOP SECTION (Mobile) / SIDEBAR (Desktop) */}
        <div className="lg:col-span-4 bg-white border-b lg:border-b-0 lg:border-r border-slate-200 shrink-0 z-10 pt-14 lg:pt-0">
@@ -24,20 +376,20 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
           <div className="lg:hidden px-4 py-3 flex items-center justify-between bg-white/50 backdrop-blur-sm">
               <div className="flex items-center gap-4">
                   {/* Small Circular Score Badge */}
-                  {!isDisqualified && (
+                  {!isDisqualified && !isUnevaluated && (
                     <div className="relative w-12 h-12 shrink-0">
                         <svg className="w-full h-full transform -rotate-90">
                             <circle cx="50%" cy="50%" r="45%" stroke="#f1f5f9" strokeWidth="8" fill="transparent" />
                             <circle 
                                 cx="50%" cy="50%" r="45%" 
-                                stroke={result.passed ? '#10b981' : '#f43f5e'} 
+                                stroke={verdict.passed ? '#10b981' : '#f43f5e'} 
                                 strokeWidth="8" 
                                 fill="transparent" 
-                                strokeDasharray={`${result.rating * 10} 100`} 
+                                strokeDasharray={`${verdict.rating * 10} 100`} 
                             />
                         </svg>
                         <div className="absolute inset-0 flex items-center justify-center text-sm font-bold text-slate-900">
-                            {result.rating}
+                            {formatScore(verdict.rating)}
                         </div>
                     </div>
                   )}
@@ -46,10 +398,16 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
                   <div>
                       <h1 className="text-base font-bold text-slate-900 leading-tight truncate max-w-[180px]">{candidateName}</h1>
                       {isDisqualified ? (
-                          <span className="text-[10px] font-bold uppercase tracking-wide text-rose-600">Disqualified</span>
+                          <span className="text-[10px] font-bold uppercase tracking-wide text-rose-600">
+                              Disqualified
+                              {verdict.overridden && <span className="text-indigo-600"> · Overridden to {formatScore(verdict.rating)} ({verdict.passed ? 'qualified' : 'not qualified'})</span>}
+                          </span>
+                      ) : isUnevaluated ? (
+                          <span className="text-[10px] font-bold uppercase tracking-wide text-amber-600">{evaluationLabel}</span>
                       ) : (
-                          <span className={`text-[10px] font-bold uppercase tracking-wide ${result.passed ? 'text-emerald-600' : 'text-rose-600'}`}>
-                              {result.passed ? 'Qualified' : 'Not Qualified'}
+                          <span className={`text-[10px] font-bold uppercase tracking-wide ${verdict.passed ? 'text-emerald-600' : 'text-rose-600'}`}>
+                              {verdict.passed ? 'Qualified' : 'Not Qualified'}
+                              {verdict.overridden ? <span className="text-indigo-600"> · Overridden</span> : result.needsHumanReview && <span className="text-amber-600"> · Needs Review</span>}
                           </span>
                       )}
                   </div>
@@ -66,6 +424,9 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
                  </svg>
               </button>
           </div>
+          <div className="lg:hidden px-4 pb-3">
+              <ExportActions candidate={candidate} result={result} transcript={transcript} review={review} />
+          </div>
 
 
           {/* --- DESKTOP EXPANDED VIEW --- */}
@@ -87,31 +448,60 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
                         </div>
                         <h2 className="text-2xl lg:text-3xl font-bold text-rose-600 mb-2">DISQUALIFIED</h2>
                         <p className="text-slate-500 max-w-xs mx-auto">{result.terminationReason}</p>
+                        {verdict.overridden && (
+                            <p className="mt-3 text-[10px] font-bold uppercase tracking-widest text-indigo-600">
+                                Reviewer override · {formatScore(verdict.rating)} ({verdict.passed ? 'qualified' : 'not qualified'})
+                            </p>
+                        )}
+                    </div>
+                ) : isUnevaluated ? (
+                    <div className="text-center">
+                        <div className="w-24 h-24 lg:w-32 lg:h-32 bg-amber-100 text-amber-600 rounded-full flex items-center justify-center mx-auto mb-6">
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-12 h-12 lg:w-16 lg:h-16">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                        </div>
+                        <h2 className="text-2xl lg:text-3xl font-bold text-amber-600 mb-2 uppercase">{evaluationLabel}</h2>
+                        <p className="text-slate-500 max-w-xs mx-auto">No score yet. The transcript is saved, so the evaluation can be run again.</p>
                     </div>
                 ) : (
                     <div className="relative mb-6 lg:mb-8">
                         <svg className="w-40 h-40 lg:w-56 lg:h-56 transform -rotate-90">
                             <circle cx="50%" cy="50%" r="45%" stroke="currentColor" strokeWidth="12" fill="transparent" className="text-slate-100"/>
-                            <circle cx="50%" cy="50%" r="45%" stroke="currentColor" strokeWidth="12" fill="transparent" className={result.passed ? 'text-emerald-500' : 'text-rose-500'} strokeDasharray={100} strokeDashoffset={100 - (result.rating * 10)} pathLength={100} style={{transition: 'stroke-dashoffset 1s ease-in-out'}} />
+                            <circle cx="50%" cy="50%" r="45%" stroke="currentColor" strokeWidth="12" fill="transparent" className={verdict.passed ? 'text-emerald-500' : 'text-rose-500'} strokeDasharray={100} strokeDashoffset={100 - (verdict.rating * 10)} pathLength={100} style={{transition: 'stroke-dashoffset 1s ease-in-out'}} />
                         </svg>
                         <div className="absolute inset-0 flex flex-col items-center justify-center">
-                            <span className="text-4xl lg:text-6xl font-black text-slate-900">{result.rating}</span>
+                            <span className="text-4xl lg:text-6xl font-black text-slate-900">{formatScore(verdict.rating)}</span>
                             <span className="text-slate-400 text-base lg:text-lg font-medium">/ 10</span>
                         </div>
                     </div>
                 )}
                 
-                {!isDisqualified && (
+                {!isDisqualified && !isUnevaluated && (
                     <div className={`px-4 lg:px-6 py-2 lg:py-3 rounded-full text-xs lg:text-sm font-bold uppercase tracking-widest ${
-                        result.passed ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'
+                        verdict.passed ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'
                     }`}>
-                        {result.passed ? 'Qualified Candidate' : 'Does Not Meet Bar'}
+                        {verdict.passed ? 'Qualified Candidate' : 'Does Not Meet Bar'}
                     </div>
                 )}
+                {!isDisqualified && !isUnevaluated && verdict.overridden && (
+                    <p className="mt-3 text-[10px] font-bold uppercase tracking-widest text-indigo-600">
+                        Reviewer override · AI scored {formatScore(result.rating)} ({result.passed ? 'qualified' : 'not qualified'})
+                    </p>
+                )}
+                {!isDisqualified && !isUnevaluated && result.confidence !== undefined && (
+                    <p className={`mt-3 text-[10px] font-bold uppercase tracking-widest ${result.needsHumanReview ? 'text-amber-600' : 'text-slate-400'}`}>
+                        {Math.round(result.confidence * 100)}% confidence{result.needsHumanReview ? ' · Needs human review' : ''}
+                    </p>
+                )}
             </div>
 
             {/* Action Footer */}
             <div className="hidden lg:block p-8 border-t border-slate-100 bg-slate-50/50">
+                <div className="mb-4">
+                    <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Export Report</h3>
+                    <ExportActions candidate={candidate} result={result} transcript={transcript} review={review} />
+                </div>
                 <button
                 onClick={onReset}
                 className="w-full py-4 bg-slate-900 text-white rounded-xl font-bold hover:bg-indigo-600 transition-all shadow-lg hover:shadow-indigo-200 flex items-center justify-center gap-2"
@@ -155,6 +545,18 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
                         <span className="bg-slate-100 text-slate-600 text-[10px] px-2 py-0.5 rounded-full font-bold">{result.questions.length}</span>
                     )}
                     </button>
+                    {transcript && (
+                    <button 
+                    onClick={() => setActiveTab('transcript')}
+                    className={`pb-3 lg:pb-4 text-sm lg:text-base font-bold border-b-2 transition-all ${
+                        activeTab === 'transcript' 
+                        ? 'border-indigo-600 text-indigo-600' 
+                        : 'border-transparent text-slate-500 hover:text-slate-800'
+                    }`}
+                    >
+                    Transcript
+                    </button>
+                    )}
                 </div>
             </div>
           )}
@@ -163,7 +565,18 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
           <div className="flex-1 overflow-y-auto p-4 lg:p-12 custom-scrollbar">
              <div className="max-w-4xl mx-auto animate-fade-in pb-20 lg:pb-0">
                 
+                {/* Replay (opt-in recording) */}
+                {showReplay && (
+                    <div className="mb-4 lg:mb-6 bg-black rounded-2xl overflow-hidden border border-slate-200 shadow-sm">
+                        <video ref={replayRef} src={recordingUrl!} controls playsInline className="w-full max-h-[40vh] bg-black" />
+                        <p className="px-4 py-2 bg-slate-900 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                            Click a transcript turn or question to jump to that moment
+                        </p>
+                    </div>
+                )}
+
                 {isDisqualified ? (
+                    <>
                     <div className="bg-white rounded-2xl p-6 lg:p-8 border border-slate-200 text-center mt-4 lg:mt-0">
                         <h3 className="text-lg lg:text-xl font-bold text-slate-900 mb-4">Security Violation Report</h3>
                         <p className="text-slate-600 mb-6">This session was flagged for suspicious activity inconsistent with our proctoring guidelines.</p>
@@ -171,12 +584,40 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
                             <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Reason</div>
                             <div className="font-mono text-rose-600 text-sm lg:text-base">{result.terminationReason}</div>
                         </div>
+                        {proctoringEvents.length > 0 && (
+                            <div className="text-left bg-slate-50 p-6 rounded-xl border border-slate-100 w-full mt-4">
+                                <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Event Timeline</div>
+                                <ProctoringTimeline events={proctoringEvents} />
+                            </div>
+                        )}
                     </div>
+                    {reviewSection && <div className="mt-6 lg:mt-12">{reviewSection}</div>}
+                    </>
                 ) : (
                     <>
                     {/* Overview Tab Content */}
                     {activeTab === 'overview' && (
                     <div className="space-y-6 lg:space-y-12">
+                        {isUnevaluated && (
+                            <div className="bg-amber-50 p-5 lg:p-6 rounded-2xl border border-amber-200">
+                                <h3 className="text-xs font-bold text-amber-700 uppercase tracking-widest mb-2">{evaluationLabel}</h3>
+                                <p className="text-sm text-amber-900 mb-4">
+                                    {result.evaluationStatus === 'pending'
+                                        ? 'The evaluation never finished: it may have been interrupted when the tab closed.'
+                                        : result.evaluationError || 'The evaluation could not be completed.'}
+                                </p>
+                                {onReevaluate && transcript && (
+                                    <button
+                                        onClick={handleReevaluate}
+                                        disabled={isReevaluating}
+                                        className="px-5 py-2.5 bg-slate-900 text-white rounded-xl text-sm font-bold hover:bg-indigo-600 transition-all disabled:opacity-50"
+                                    >
+                                        {isReevaluating ? 'Evaluating...' : 'Re-run Evaluation'}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
                         {/* Executive Summary */}
                         <div>
                             <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6 flex items-center gap-2">
@@ -192,49 +633,252 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
                             </div>
                         </div>
 
+                        {result.confidence !== undefined && <GradingConfidence result={result} />}
+
+                        {reviewSection}
+
+                        {/* Parts of the model's response that failed validation */}
+                        {result.evaluationIssues && result.evaluationIssues.length > 0 && (
+                            <details className="bg-slate-100 p-4 rounded-2xl border border-slate-200 text-sm text-slate-600">
+                                <summary className="cursor-pointer text-xs font-bold uppercase tracking-widest text-slate-500">
+                                    {result.evaluationIssues.length} item(s) left out of this evaluation
+                                </summary>
+                                <ul className="list-disc pl-5 mt-3 space-y-1">
+                                    {result.evaluationIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+                                </ul>
+                            </details>
+                        )}
+
+                        {/* Must-ask coverage */}
+                        {missedMustAsk.length > 0 && (
+                            <div className="bg-amber-50 p-5 lg:p-6 rounded-2xl border border-amber-200">
+                                <h3 className="text-xs font-bold text-amber-700 uppercase tracking-widest mb-2">Must-ask questions not covered</h3>
+                                <ul className="list-disc pl-5 space-y-1 text-sm text-amber-900">
+                                    {missedMustAsk.map((text, i) => <li key={i}>{text}</li>)}
+                                </ul>
+                            </div>
+                        )}
+
                         {/* Detailed Metrics Grid */}
+                        {result.competencies && result.competencies.length > 0 && (
                         <div>
-                            <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6">Competency Breakdown</h3>
+                            <div className="flex items-baseline justify-between mb-3 lg:mb-6">
+                                <h3 className="text-sm lg:text-lg font-bold text-slate-900">Competency Breakdown</h3>
+                                {result.passThreshold !== undefined && (
+                                    <span className="text-[10px] lg:text-xs font-bold text-slate-400 uppercase tracking-widest">Pass bar {result.passThreshold} / 10</span>
+                                )}
+                            </div>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-3 lg:gap-6">
-                                <div className="bg-white p-4 lg:p-6 rounded-xl border border-slate-100">
+                                {result.competencies.map(c => (
+                                <div key={c.competencyId} className="bg-white p-4 lg:p-6 rounded-xl border border-slate-100">
                                 <div className="flex justify-between items-end mb-3 lg:mb-4">
-                                    <span className="text-slate-500 font-medium text-xs lg:text-base">Technical Depth</span>
-                                    <span className="text-slate-900 font-bold text-base lg:text-xl">{result.rating >= 8 ? 'High' : result.rating >= 5 ? 'Medium' : 'Low'}</span>
+                                    <div>
+                                        <span className="block text-slate-500 font-medium text-xs lg:text-base">{c.name}</span>
+                                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Weight {Math.round(c.weight * 100)}%</span>
+                                    </div>
+                                    <div className="text-right">
+                                        <span className="block text-slate-900 font-bold text-base lg:text-xl">{c.level}</span>
+                                        <span className="text-xs font-mono text-slate-400">{formatScore(c.score)} / 10</span>
+                                    </div>
                                 </div>
                                 <div className="w-full bg-slate-100 h-1.5 lg:h-2 rounded-full overflow-hidden">
-                                    <div className="h-full bg-indigo-500" style={{width: `${result.rating * 10}%`}}></div>
+                                    <div className={`h-full ${c.score >= 7 ? 'bg-emerald-500' : c.score >= 5 ? 'bg-amber-500' : 'bg-rose-500'}`} style={{width: `${c.score * 10}%`}}></div>
                                 </div>
+                                <p className="text-slate-600 text-xs lg:text-sm leading-relaxed mt-3 lg:mt-4">{c.rationale}</p>
+                                {c.evidence.length > 0 && (
+                                    <div className="mt-3 space-y-2">
+                                        {c.evidence.map((quote, i) => (
+                                            <blockquote key={i} className="border-l-2 border-indigo-200 pl-3 text-xs text-slate-500 italic">"{quote}"</blockquote>
+                                        ))}
+                                    </div>
+                                )}
                                 </div>
-                                <div className="bg-white p-4 lg:p-6 rounded-xl border border-slate-100">
-                                <div className="flex justify-between items-end mb-3 lg:mb-4">
-                                    <span className="text-slate-500 font-medium text-xs lg:text-base">Role Fit</span>
-                                    <span className="text-slate-900 font-bold text-base lg:text-xl">{result.passed ? 'Strong' : 'Weak'}</span>
+                                ))}
+                            </div>
+                        </div>
+                        )}
+
+                        {/* Must-have skills from the approved JD matrix */}
+                        {result.skillCoverage && result.skillCoverage.length > 0 && (
+                        <div>
+                            <div className="flex items-baseline justify-between mb-3 lg:mb-6">
+                                <h3 className="text-sm lg:text-lg font-bold text-slate-900">Must-Have Skills</h3>
+                                <span className="text-[10px] lg:text-xs font-bold text-slate-400 uppercase tracking-widest">
+                                    {result.skillCoverage.filter(c => c.demonstrated).length} / {result.skillCoverage.length} demonstrated
+                                </span>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {result.skillCoverage.map((coverage, idx) => (
+                                    <div key={idx} className="bg-white p-4 rounded-xl border border-slate-100 flex items-start gap-3">
+                                        <span className={`mt-0.5 w-5 h-5 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${
+                                            coverage.demonstrated ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'
+                                        }`}>{coverage.demonstrated ? '✓' : '✕'}</span>
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-slate-900">{coverage.skill}</p>
+                                            <p className="text-xs text-slate-500 leading-relaxed mt-0.5">{coverage.note}</p>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                        )}
+
+                        {/* Resume claims vs. demonstrated */}
+                        {result.resumeClaims && result.resumeClaims.length > 0 && (
+                        <div>
+                            <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6">Resume Claims vs. Demonstrated</h3>
+                            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+                                {result.resumeClaims.map((check, idx) => (
+                                    <div key={idx} className="p-4 lg:p-5 flex items-start gap-3 lg:gap-4">
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{check.category}</span>
+                                            </div>
+                                            <p className="text-sm font-semibold text-slate-900">{check.claim}</p>
+                                            <p className="text-xs lg:text-sm text-slate-600 mt-1 leading-relaxed">{check.evidence}</p>
+                                        </div>
+                                        <span className={`shrink-0 px-2 py-1 rounded-lg border text-[10px] font-bold uppercase tracking-widest ${CLAIM_STATUS_STYLES[check.status]?.className || CLAIM_STATUS_STYLES.not_discussed.className}`}>
+                                            {CLAIM_STATUS_STYLES[check.status]?.label || check.status}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                        )}
+
+                        {/* Adaptive difficulty */}
+                        {trajectory.length > 0 && (
+                        <div>
+                            <div className="flex items-baseline justify-between mb-3 lg:mb-6">
+                                <h3 className="text-sm lg:text-lg font-bold text-slate-900">Difficulty Trajectory</h3>
+                                <span className="text-[10px] lg:text-xs font-bold text-slate-400 uppercase tracking-widest">
+                                    {peakDifficulty ? `Handled up to ${peakDifficulty}` : 'Struggled at every level'}
+                                </span>
+                            </div>
+                            <div className="bg-white p-5 lg:p-8 rounded-2xl shadow-sm border border-slate-100">
+                                <DifficultyTrajectory trajectory={trajectory} />
+                                <p className="text-xs text-slate-400 mt-3">Bar height is question difficulty (easy, medium, hard); colour is the interviewer's live score. Faded bars are follow-ups.</p>
+                            </div>
+                        </div>
+                        )}
+
+                        {/* Live coding exercise */}
+                        {result.coding && (
+                            <div>
+                                <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6">Coding Round</h3>
+                                <CodingRound coding={result.coding} />
+                            </div>
+                        )}
+
+                        {/* Connection outages (timer was paused during each) */}
+                        {result.connectionOutages && result.connectionOutages.length > 0 && (
+                            <div>
+                                <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6">Connection</h3>
+                                <div className="bg-white rounded-2xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+                                    {result.connectionOutages.map((outage, idx) => (
+                                        <div key={idx} className="p-4 flex items-center justify-between gap-4 text-sm">
+                                            <span className="font-mono text-xs text-slate-400">{new Date(outage.startedAt).toLocaleTimeString()}</span>
+                                            <span className="flex-1 text-slate-700">
+                                                Dropped for {Math.round(((outage.endedAt ?? outage.startedAt) - outage.startedAt) / 1000)}s · {outage.attempts} reconnect attempt{outage.attempts === 1 ? '' : 's'}
+                                            </span>
+                                            <span className={`text-[10px] font-bold uppercase tracking-widest ${outage.recovered ? 'text-emerald-600' : 'text-rose-600'}`}>
+                                                {outage.recovered ? 'Recovered' : 'Not Recovered'}
+                                            </span>
+                                        </div>
+                                    ))}
                                 </div>
-                                <div className="w-full bg-slate-100 h-1.5 lg:h-2 rounded-full overflow-hidden">
-                                    <div className="h-full bg-emerald-500" style={{width: result.passed ? '90%' : '40%'}}></div>
+                            </div>
+                        )}
+
+                        {/* Engagement: gaps where an answer was expected and the candidate stayed silent */}
+                        {result.silences && (
+                            <div>
+                                <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6">Engagement</h3>
+                                <div className="bg-white rounded-2xl shadow-sm border border-slate-100">
+                                    <div className="p-4 lg:p-5 grid grid-cols-3 gap-4 text-center">
+                                        <div>
+                                            <div className="text-2xl font-bold text-slate-900">{result.silences.length}</div>
+                                            <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Long silences ({LONG_SILENCE_MS / 1000}s+)</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-2xl font-bold text-slate-900">{result.silences.filter(s => s.reprompted).length}</div>
+                                            <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Re-prompts</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-2xl font-bold text-slate-900">{result.silences.length ? `${Math.round(Math.max(...result.silences.map(s => s.durationMs)) / 1000)}s` : '—'}</div>
+                                            <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Longest</div>
+                                        </div>
+                                    </div>
+                                    {result.silences.length > 0 && (
+                                        <div className="divide-y divide-slate-100 border-t border-slate-100">
+                                            {result.silences.map((silence, idx) => (
+                                                <div key={idx} className="p-4 flex items-center justify-between gap-4 text-sm">
+                                                    <span className="font-mono text-xs text-slate-400">{new Date(silence.startedAt).toLocaleTimeString()}</span>
+                                                    <span className="flex-1 text-slate-700">Silent for {Math.round(silence.durationMs / 1000)}s</span>
+                                                    {silence.reprompted && <span className="text-[10px] font-bold uppercase tracking-widest text-amber-600">Re-prompted</span>}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
+                            </div>
+                        )}
+
+                        {/* Proctoring Log (warnings that did not end the session) */}
+                        {proctoringEvents.length > 0 && (
+                            <div>
+                                <h3 className="text-sm lg:text-lg font-bold text-slate-900 mb-3 lg:mb-6">Proctoring Log</h3>
+                                <div className="bg-white p-5 lg:p-8 rounded-2xl shadow-sm border border-slate-100">
+                                    <ProctoringTimeline events={proctoringEvents} />
                                 </div>
                             </div>
-                        </div>
+                        )}
+                        {result.faceDetectionAvailable === false && (
+                            <p className="text-xs text-slate-400">Face detection could not run in the candidate's browser, so only covered or black camera checks ran. No face events here does not confirm presence.</p>
+                        )}
                     </div>
                     )}
 
                     {/* Q&A Tab Content */}
                     {activeTab === 'qa' && (
                     <div className="space-y-4 lg:space-y-6">
-                        {result.questions?.map((qa, idx) => (
+                        {result.questions?.map((qa, idx) => {
+                            const questionTurn = canSeek && transcript ? findQuestionTurn(transcript, idx) : undefined;
+                            const bankQuestion = qa.bankQuestionId ? questionBank.find(q => q.id === qa.bankQuestionId) : undefined;
+                            const rating = effectiveQuestionRating(result, review, idx);
+                            const questionOverride = currentReview.questions[idx];
+                            return (
                             <div key={idx} className="bg-white rounded-xl lg:rounded-2xl shadow-sm border border-slate-200 overflow-hidden transition-all hover:shadow-md">
                                 <div className="p-4 lg:p-6 border-b border-slate-100 flex items-start gap-3 lg:gap-4">
                                 <div className="flex-1">
-                                    <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 lg:mb-2">Question {idx + 1}</h4>
+                                    <div className="flex items-center gap-2 mb-1 lg:mb-2">
+                                        <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Question {idx + 1}</h4>
+                                        {bankQuestion && (
+                                            <>
+                                                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest bg-slate-100 px-2 py-0.5 rounded-full">{bankQuestion.difficulty}</span>
+                                                {bankQuestion.required && (
+                                                    <span className="text-[10px] font-bold text-indigo-600 uppercase tracking-widest bg-indigo-50 px-2 py-0.5 rounded-full">Must-ask</span>
+                                                )}
+                                            </>
+                                        )}
+                                    </div>
                                     <p className="text-sm lg:text-lg font-semibold text-slate-900">{qa.question}</p>
+                                    {questionTurn && (
+                                        <button
+                                            onClick={() => seekTo(questionTurn.startedAt)}
+                                            className="mt-2 text-[10px] font-bold text-indigo-600 uppercase tracking-widest hover:text-indigo-800"
+                                        >
+                                            ▶ Replay answer
+                                        </button>
+                                    )}
                                 </div>
                                 <div className={`flex flex-col items-center justify-center w-10 h-10 lg:w-14 lg:h-14 rounded-lg lg:rounded-xl shrink-0 border ${
-                                    qa.rating >= 7 ? 'bg-emerald-50 border-emerald-100 text-emerald-600' :
-                                    qa.rating >= 5 ? 'bg-amber-50 border-amber-100 text-amber-600' :
+                                    rating >= 7 ? 'bg-emerald-50 border-emerald-100 text-emerald-600' :
+                                    rating >= 5 ? 'bg-amber-50 border-amber-100 text-amber-600' :
                                     'bg-rose-50 border-rose-100 text-rose-600'
-                                }`}>
-                                    <span className="text-base lg:text-xl font-bold">{qa.rating}</span>
+                                }`} title={questionOverride ? `Reviewer override; AI scored ${qa.rating}` : undefined}>
+                                    <span className="text-base lg:text-xl font-bold">{rating}</span>
+                                    {questionOverride && <span className="text-[8px] font-bold uppercase tracking-widest">Edited</span>}
                                 </div>
                                 </div>
                                 <div className="p-4 lg:p-6 grid grid-cols-1 gap-4 lg:gap-6">
@@ -246,11 +890,78 @@ export const ResultScreen: React.FC<ResultScreenProps> = ({ result, candidateNam
                                         <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1 lg:mb-2">AI Analysis</h5>
                                         <p className="text-slate-800 text-xs lg:text-sm leading-relaxed">{qa.feedback}</p>
                                     </div>
+                                    {bankQuestion && (
+                                        <div className="bg-indigo-50/50 p-3 lg:p-4 rounded-lg lg:rounded-xl border border-indigo-100">
+                                            <h5 className="text-xs font-bold text-indigo-600 uppercase tracking-wide mb-1 lg:mb-2">Expected Answer</h5>
+                                            <p className="text-slate-600 text-xs lg:text-sm leading-relaxed">{bankQuestion.expectedAnswer}</p>
+                                            {qa.expectedAnswerComparison && (
+                                                <p className="text-slate-800 text-xs lg:text-sm leading-relaxed mt-2">{qa.expectedAnswerComparison}</p>
+                                            )}
+                                        </div>
+                                    )}
+                                    {canReview && (
+                                        <div className="border-t border-slate-100 pt-4 space-y-4">
+                                            <ScoreOverrideForm
+                                                aiScore={qa.rating}
+                                                current={questionOverride}
+                                                disabled={!canEditReview}
+                                                onSave={(score, justification) => updateReview((current, author) => overrideQuestion(current, result, idx, score, justification, author))}
+                                                onRevert={(justification) => updateReview((current, author) => revertOverride(current, result, idx, justification, author))}
+                                            />
+                                            <CommentThread
+                                                comments={commentsFor(review, { kind: 'question', questionIndex: idx })}
+                                                disabled={!canEditReview}
+                                                onAdd={(text) => updateReview((current, author) => addComment(current, { kind: 'question', questionIndex: idx }, text, author))}
+                                                onRemove={(id) => updateReview((current, author) => removeComment(current, id, author))}
+                                            />
+                                        </div>
+                                    )}
                                 </div>
                             </div>
-                        ))}
+                            );
+                        })}
                     </div>
                     )}
+
+                    {/* Transcript Tab Content */}
+                    {activeTab === 'transcript' && transcript && (
+                        transcript.turns.length > 0 ? (
+                            <>
+                                <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+                                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Held in {interviewLanguage.name} · Translate to</span>
+                                    <select
+                                        value={translationTarget}
+                                        onChange={(e) => { setTranslationTarget(e.target.value); setTranslations(null); }}
+                                        className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none focus:border-indigo-600"
+                                    >
+                                        {INTERVIEW_LANGUAGES.filter(l => l.name !== interviewLanguage.name).map(l => <option key={l.name} value={l.name}>{l.name}</option>)}
+                                    </select>
+                                    <button
+                                        onClick={translations ? () => setTranslations(null) : handleTranslate}
+                                        disabled={isTranslating}
+                                        className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-indigo-600 disabled:opacity-50"
+                                    >
+                                        {isTranslating ? 'Translating...' : translations ? 'Hide Translation' : 'Translate'}
+                                    </button>
+                                </div>
+                                {translationError && <p className="text-xs text-rose-600 text-right mb-4">{translationError}</p>}
+                                <TranscriptView
+                                    transcript={transcript}
+                                    translations={translations || undefined}
+                                    onSeek={canSeek ? (turn) => seekTo(turn.startedAt) : undefined}
+                                    renderAnnotations={canReview ? (turn) => (
+                                        <CommentThread
+                                            collapsible
+                                            comments={commentsFor(review, { kind: 'turn', turnId: turn.id })}
+                                            disabled={!canEditReview}
+                                            onAdd={(text) => updateReview((current, author) => addComment(current, { kind: 'turn', turnId: turn.id }, text, author))}
+                                            onRemove={(id) => updateReview((current, author) => removeComment(current, id, author))}
+                                        />
+                                    ) : undefined}
+                                />
+                            </>
+                        ) : <p className="text-center text-slate-400 text-sm">No conversation was captured.</p>
+                    )}
                     </>
                 )}
 
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { HiringDecision, HumanReview, InterviewResult, ReviewComment, ScoreOverride } from '../types';
+import { DECISION_LABELS, validateOverride } from '../utils/review';
+import { formatScore } from '../utils/rubrics';
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-800 outline-none focus:border-indigo-600";
+const primaryButtonClass = "px-4 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-indigo-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+const linkButtonClass = "text-[10px] font-bold text-indigo-600 uppercase tracking-widest hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const DECISION_STYLES: Record<HiringDecision, string> = {
+  advance: 'bg-emerald-50 border-emerald-200 text-emerald-700',
+  hold: 'bg-amber-50 border-amber-200 text-amber-700',
+  reject: 'bg-rose-50 border-rose-200 text-rose-700',
+};
+
+const formatWhen = (at: number) => new Date(at).toLocaleString();
+
+interface ScoreOverrideFormProps {
+  aiScore: number;
+  current?: ScoreOverride & { passed?: boolean };
+  // Set for the overall score, where the reviewer also decides whether the candidate meets the bar
+  aiPassed?: boolean;
+  disabled?: boolean;
+  onSave: (score: number, justification: string, passed: boolean) => void;
+  onRevert: (justification: string) => void;
+}
+
+// Editing and reverting both need a written justification, which goes into the audit trail
+export const ScoreOverrideForm: React.FC<ScoreOverrideFormProps> = ({ aiScore, current, aiPassed, disabled, onSave, onRevert }) => {
+  const [mode, setMode] = useState<'idle' | 'edit' | 'revert'>('idle');
+  const [score, setScore] = useState(current ? String(current.score) : formatScore(aiScore));
+  const [passed, setPassed] = useState(current?.passed ?? aiPassed ?? false);
+  const [justification, setJustification] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const hasVerdict = aiPassed !== undefined;
+
+  const open = (next: 'edit' | 'revert') => {
+    setScore(current ? String(current.score) : formatScore(aiScore));
+    setPassed(current?.passed ?? aiPassed ?? false);
+    setJustification('');
+    setError(null);
+    setMode(next);
+  };
+
+  const submit = () => {
+    if (mode === 'revert') {
+      if (!justification.trim()) return setError('Explain why you are reverting to the AI score.');
+      onRevert(justification);
+    } else {
+      const problem = validateOverride(Number(score), justification);
+      if (problem) return setError(problem);
+      onSave(Number(score), justification, passed);
+    }
+    setMode('idle');
+  };
+
+  if (mode === 'idle') {
+    return (
+      <div className="space-y-2">
+        {current && (
+          <div className="bg-indigo-50/60 border border-indigo-100 rounded-lg p-3 text-xs text-slate-700">
+            <div className="text-[10px] font-bold text-indigo-600 uppercase tracking-widest mb-1">
+              Overridden to {current.score}{hasVerdict ? ` · ${current.passed ? 'Qualified' : 'Not qualified'}` : ''} · AI scored {formatScore(aiScore)}
+            </div>
+            <p>{current.justification}</p>
+            <p className="text-slate-400 mt-1">{current.author} · {formatWhen(current.at)}</p>
+          </div>
+        )}
+        <div className="flex gap-4">
+          <button className={linkButtonClass} disabled={disabled} onClick={() => open('edit')}>{current ? 'Change override' : 'Override score'}</button>
+          {current && <button className={linkButtonClass} disabled={disabled} onClick={() => open('revert')}>Revert to AI score</button>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 space-y-3">
+      {mode === 'edit' && (
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Score</label>
+          <input type="number" min={1} max={10} value={score} onChange={(e) => setScore(e.target.value)} className="w-20 px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:border-indigo-600" />
+          {hasVerdict && (
+            <select value={passed ? 'yes' : 'no'} onChange={(e) => setPassed(e.target.value === 'yes')} className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:border-indigo-600">
+              <option value="yes">Qualified</option>
+              <option value="no">Not qualified</option>
+            </select>
+          )}
+          <span className="text-xs text-slate-400">AI scored {formatScore(aiScore)}</span>
+        </div>
+      )}
+      <textarea
+        value={justification}
+        onChange={(e) => setJustification(e.target.value)}
+        rows={2}
+        placeholder={mode === 'revert' ? 'Why the AI score should stand (required)' : 'Justification (required)'}
+        className={inputClass}
+      />
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      <div className="flex gap-2">
+        <button className={primaryButtonClass} onClick={submit}>{mode === 'revert' ? 'Revert' : 'Save Override'}</button>
+        <button className="px-4 py-2 text-xs font-bold uppercase tracking-widest text-slate-500 hover:text-slate-800" onClick={() => setMode('idle')}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+interface CommentThreadProps {
+  comments: ReviewComment[];
+  disabled?: boolean;
+  // Hides the input behind a button, for places with many threads such as transcript turns
+  collapsible?: boolean;
+  onAdd: (text: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export const CommentThread: React.FC<CommentThreadProps> = ({ comments, disabled, collapsible, onAdd, onRemove }) => {
+  const [draft, setDraft] = useState('');
+  const [isOpen, setIsOpen] = useState(!collapsible);
+  const add = () => {
+    if (!draft.trim()) return;
+    onAdd(draft);
+    setDraft('');
+    if (collapsible) setIsOpen(false);
+  };
+  return (
+    <div className="space-y-2">
+      {comments.map(comment => (
+        <div key={comment.id} className="bg-yellow-50 border border-yellow-100 rounded-lg px-3 py-2 text-xs text-slate-700">
+          <p className="whitespace-pre-wrap">{comment.text}</p>
+          <div className="flex items-center justify-between gap-2 mt-1 text-slate-400">
+            <span>{comment.author} · {formatWhen(comment.createdAt)}</span>
+            <button className={linkButtonClass} disabled={disabled} onClick={() => onRemove(comment.id)}>Remove</button>
+          </div>
+        </div>
+      ))}
+      {isOpen ? (
+        <div className="flex gap-2">
+          <input
+            autoFocus={collapsible}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+            disabled={disabled}
+            placeholder={disabled ? 'Enter your name under Human Review to comment' : 'Add a comment'}
+            className={inputClass}
+          />
+          <button className={primaryButtonClass} disabled={disabled || !draft.trim()} onClick={add}>Add</button>
+        </div>
+      ) : (
+        <button className={linkButtonClass} disabled={disabled} onClick={() => setIsOpen(true)}>+ Comment</button>
+      )}
+    </div>
+  );
+};
+
+interface ReviewPanelProps {
+  result: InterviewResult;
+  review: HumanReview;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  onOverride: (score: number, justification: string, passed: boolean) => void;
+  onRevert: (justification: string) => void;
+  onDecision: (value: HiringDecision, note: string) => void;
+}
+
+// The reviewer's overall override, final decision and the history of every change to this review
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ result, review, reviewer, onReviewerChange, onOverride, onRevert, onDecision }) => {
+  const [decisionNote, setDecisionNote] = useState('');
+  const canEdit = !!reviewer.trim();
+  const decision = review.decision;
+
+  return (
+    <div className="bg-white p-5 lg:p-6 rounded-2xl shadow-sm border border-slate-100 space-y-6">
+      <div>
+        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Reviewer</label>
+        <input value={reviewer} onChange={(e) => onReviewerChange(e.target.value)} placeholder="Your name, recorded with every change" className={inputClass} />
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Overall Score</h4>
+        <ScoreOverrideForm aiScore={result.rating} aiPassed={result.passed} current={review.overall} disabled={!canEdit} onSave={onOverride} onRevert={onRevert} />
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Final Decision</h4>
+        {decision && (
+          <div className={`rounded-lg border p-3 mb-3 text-xs ${DECISION_STYLES[decision.value]}`}>
+            <div className="text-[10px] font-bold uppercase tracking-widest">{DECISION_LABELS[decision.value]}</div>
+            {decision.note && <p className="mt-1 text-slate-700">{decision.note}</p>}
+            <p className="mt-1 text-slate-400">{decision.author} · {formatWhen(decision.at)}</p>
+          </div>
+        )}
+        <textarea value={decisionNote} onChange={(e) => setDecisionNote(e.target.value)} rows={2} placeholder="Note (optional)" disabled={!canEdit} className={`${inputClass} mb-2`} />
+        <div className="flex gap-2">
+          {(Object.keys(DECISION_LABELS) as HiringDecision[]).map(value => (
+            <button
+              key={value}
+              disabled={!canEdit}
+              onClick={() => { onDecision(value, decisionNote); setDecisionNote(''); }}
+              className={`flex-1 py-2 rounded-lg border text-xs font-bold uppercase tracking-widest transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                decision?.value === value ? DECISION_STYLES[value] : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'
+              }`}
+            >
+              {DECISION_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {review.audit.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-[10px] font-bold text-slate-400 uppercase tracking-widest">Audit Trail ({review.audit.length})</summary>
+          <ol className="mt-3 space-y-2">
+            {[...review.audit].reverse().map((entry, i) => (
+              <li key={i} className="text-xs text-slate-600 border-l-2 border-slate-200 pl-3">
+                <div>
+                  <span className="font-semibold text-slate-800">{entry.author}</span> · {entry.target}
+                  {entry.to !== undefined && <span>: {entry.from !== undefined ? `${entry.from} → ` : ''}{entry.to}</span>}
+                  {entry.action === 'comment' && <span>: comment added</span>}
+                  {entry.action === 'remove_comment' && <span>: comment removed</span>}
+                </div>
+                {entry.note && <p className="text-slate-500 italic">"{entry.note}"</p>}
+                <p className="text-slate-400">{formatWhen(entry.at)}</p>
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React, { createContext, useContext } from 'react';
+import { en, MessageKey, Messages } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { de } from './locales/de';
+import { hi } from './locales/hi';
+import { ja } from './locales/ja';
+
+export type Locale = 'en' | 'es' | 'fr' | 'de' | 'hi' | 'ja';
+export type { MessageKey };
+
+const MESSAGES: Record<Locale, Messages> = { en, es, fr, de, hi, ja };
+
+export function translate(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = MESSAGES[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+interface I18nContextValue {
+  locale: Locale;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+}
+
+const I18nContext = createContext<I18nContextValue>({ locale: 'en', t: (key, params) => translate('en', key, params) });
+
+export const I18nProvider: React.FC<{ locale: Locale; children: React.ReactNode }> = ({ locale, children }) => (
+  <I18nContext.Provider value={{ locale, t: (key, params) => translate(locale, key, params) }}>
+    {children}
+  </I18nContext.Provider>
+);
+
+export const useI18n = () => useContext(I18nContext);
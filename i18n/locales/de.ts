@@ -0,0 +1,107 @@
+import { Messages } from './en';
+
+export const de: Messages = {
+  'app.analyzing': 'Interna wertet aus...',
+  'app.submitted.title': 'Interview abgeschickt',
+  'app.submitted.message': 'Danke, {name}. Dein Interview wurde an den Recruiter gesendet, der sich wegen der nächsten Schritte meldet. Du kannst diesen Tab jetzt schließen.',
+  'app.submitting': 'Dein Interview wird gesendet...',
+  'app.submitFailed.title': 'Dein Interview wurde nicht gesendet',
+  'app.submitFailed.message': 'Der Server war nicht erreichbar. Prüfe deine Verbindung und versuche es erneut; deine Antworten bleiben erhalten, bis du diesen Tab schließt.',
+  'app.submitFailed.retry': 'Erneut versuchen',
+
+  'invite.checking': 'Dein Interview wird geöffnet...',
+  'invite.invalid.title': 'Ungültiger Interview-Link',
+  'invite.invalid.message': 'Dieser Link ist unvollständig oder beschädigt. Bitte frag den Recruiter nach einem neuen.',
+  'invite.expired.title': 'Dieser Link ist abgelaufen',
+  'invite.expired.message': 'Der Interview-Link ist nicht mehr gültig. Bitte frag den Recruiter nach einem neuen.',
+  'invite.used.title': 'Dieser Link wurde bereits verwendet',
+  'invite.used.message': 'Jeder Link startet nur ein Interview. Wende dich an den Recruiter, wenn du einen weiteren Versuch brauchst.',
+
+  'instructions.permissionsDenied': 'Berechtigungen verweigert',
+  'instructions.permissionsRequired': 'Zugriff auf Kamera und Mikrofon ist für die Betrugsprüfung zwingend erforderlich.',
+  'instructions.tooNoisy': 'Umgebung zu laut',
+  'instructions.moveToQuietRoom': 'Bitte wechsle in einen ruhigen Raum, damit das Interview gut verständlich ist.',
+  'instructions.systemReady': 'System bereit',
+  'instructions.initializing': 'Wird gestartet...',
+  'instructions.net.excellent': 'Netz: Optimal',
+  'instructions.net.fair': 'Netz: Stabil',
+  'instructions.net.poor': 'Netz: Schwach',
+  'instructions.net.checking': 'Netz: ...',
+  'instructions.noise.good': 'Lärm: Ruhig',
+  'instructions.noise.fair': 'Lärm: Mittel',
+  'instructions.noise.bad': 'Lärm: Laut',
+  'instructions.noise.checking': 'Lärm: ...',
+  'instructions.title': 'Sicherheitsprüfung',
+  'instructions.subtitle': 'Die Anti-Betrugs-Maßnahmen sind aktiv.',
+  'instructions.rulesTitle': 'Aufsichtsregeln',
+  'instructions.rule.tabs': 'Ein Tab-Wechsel wird als Verstoß gewertet.',
+  'instructions.rule.fullscreen': 'Das Interview läuft im Vollbild. Verlassen zählt als Verstoß.',
+  'instructions.rule.camera': 'Die Kamera muss eingeschaltet bleiben.',
+  'instructions.rule.copyPaste': 'Kopieren und Einfügen ist deaktiviert.',
+  'instructions.rule.silence': 'Sorge für eine ruhige Umgebung.',
+  'instructions.rule.recorded': 'Diese Sitzung wird zur Auswertung aufgezeichnet (Kamera, Mikrofon und Stimme des Interviewers).',
+  'instructions.begin': 'Akzeptieren & starten',
+  'instructions.cannotStartNoisy': 'Start nicht möglich: Die Umgebung ist zu laut.',
+  'instructions.nameLabel': 'Dein Name',
+  'instructions.interviewFor': 'Interview für {role}',
+
+  'session.status.error': 'Verbindung fehlgeschlagen',
+  'session.status.connecting': 'Verbinde...',
+  'session.status.reconnecting': 'Verbinde erneut ({attempt}/{max})',
+  'session.status.ready': 'Bereit. Klicke auf Starten!',
+  'session.status.connected': 'Verbunden',
+  'session.end': 'Beenden',
+  'session.ending': 'Wird beendet: {reason}',
+  'session.connectingTo': 'Verbinde mit {name}...',
+  'session.reconnectingPaused': 'Verbindung unterbrochen. Verbinde erneut, der Timer ist pausiert...',
+  'session.listening': 'Hört zu...',
+  'session.start': 'Interview jetzt starten',
+  'session.questionProgress': 'F {current}/{total}',
+  'session.mute': 'Stumm',
+  'session.unmute': 'Ton an',
+  'session.transcript': 'Transkript',
+  'session.speaker.ai': 'KI',
+  'session.speaker.user': 'Du',
+  'session.warningsLeft': 'Noch {count} Verwarnung(en)',
+  'session.lastWarning': 'Der nächste Verstoß beendet das Interview',
+
+  'coding.title': 'Programmieraufgabe',
+  'coding.shared': 'Der Interviewer sieht deinen Code, während du tippst.',
+  'coding.language': 'Sprache',
+  'coding.run': 'Tests ausführen',
+  'coding.running': 'Läuft...',
+  'coding.submit': 'Lösung abgeben',
+  'coding.submitted': 'Abgegeben',
+  'coding.testsPassed': '{passed}/{total} Tests bestanden',
+  'coding.notRun': 'Führe die Tests aus, um deine Lösung zu prüfen.',
+  'coding.expected': 'Erwartet',
+  'coding.actual': 'Erhalten',
+  'coding.console': 'Konsole',
+
+  'phase.intro': 'Einführung',
+  'phase.behavioral': 'Verhalten',
+  'phase.technical': 'Fachlich',
+  'phase.coding': 'Live-Coding',
+  'phase.closing': 'Abschluss',
+
+  'difficulty.easy': 'leicht',
+  'difficulty.medium': 'mittel',
+  'difficulty.hard': 'schwer',
+
+  'proctoring.tab_hidden': 'Tab gewechselt',
+  'proctoring.window_blur': 'Interviewfenster verlassen',
+  'proctoring.fullscreen_exit': 'Vollbild verlassen',
+  'proctoring.copy': 'Kopierversuch',
+  'proctoring.paste': 'Einfügeversuch',
+  'proctoring.cut': 'Ausschneideversuch',
+  'proctoring.context_menu': 'Kontextmenü geöffnet',
+  'proctoring.camera_ended': 'Kamera beendet',
+  'proctoring.camera_muted': 'Kamerabild unterbrochen',
+  'proctoring.mic_ended': 'Mikrofon beendet',
+  'proctoring.mic_muted': 'Mikrofonsignal unterbrochen',
+  'proctoring.no_speech': 'Lange nichts gesagt',
+  'proctoring.no_face': 'Kandidat nicht im Bild',
+  'proctoring.multiple_faces': 'Mehrere Personen im Bild',
+  'proctoring.camera_covered': 'Kamera verdeckt oder schwarz',
+  'proctoring.looking_away': 'Blick vom Bildschirm abgewandt',
+};
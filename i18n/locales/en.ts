@@ -0,0 +1,109 @@
+// Source strings. Every other locale must translate each key; `{name}` placeholders are filled by t().
+export const en = {
+  'app.analyzing': 'Interna is Analyzing...',
+  'app.submitted.title': 'Interview Submitted',
+  'app.submitted.message': 'Thank you, {name}. Your interview has been sent to the recruiter, who will follow up with next steps. You can close this tab.',
+  'app.submitting': 'Sending your interview...',
+  'app.submitFailed.title': 'Your interview was not sent',
+  'app.submitFailed.message': 'We could not reach the server. Check your connection and try again; your answers are kept until you close this tab.',
+  'app.submitFailed.retry': 'Try again',
+
+  'invite.checking': 'Opening your interview...',
+  'invite.invalid.title': 'Invalid Interview Link',
+  'invite.invalid.message': 'This link is incomplete or damaged. Please ask the recruiter for a new one.',
+  'invite.expired.title': 'This Link Has Expired',
+  'invite.expired.message': 'The interview link is no longer valid. Please ask the recruiter for a new one.',
+  'invite.used.title': 'This Link Was Already Used',
+  'invite.used.message': 'Each link starts one interview. Please contact the recruiter if you need another attempt.',
+
+  'instructions.permissionsDenied': 'Permissions Denied',
+  'instructions.permissionsRequired': 'Camera and Microphone access are strictly required for anti-cheating verification.',
+  'instructions.tooNoisy': 'Environment Too Noisy',
+  'instructions.moveToQuietRoom': 'Please move to a silent room to ensure interview quality.',
+  'instructions.systemReady': 'System Ready',
+  'instructions.initializing': 'Initializing...',
+  'instructions.net.excellent': 'Net: Optimal',
+  'instructions.net.fair': 'Net: Stable',
+  'instructions.net.poor': 'Net: Weak',
+  'instructions.net.checking': 'Net: ...',
+  'instructions.noise.good': 'Noise: Quiet',
+  'instructions.noise.fair': 'Noise: Fair',
+  'instructions.noise.bad': 'Noise: Loud',
+  'instructions.noise.checking': 'Noise: ...',
+  'instructions.title': 'Security Check',
+  'instructions.subtitle': 'Anti-cheating protocols are active.',
+  'instructions.rulesTitle': 'Proctoring Rules',
+  'instructions.rule.tabs': 'Switching tabs will trigger a violation.',
+  'instructions.rule.fullscreen': 'The interview runs fullscreen. Exiting counts as a violation.',
+  'instructions.rule.camera': 'Camera must remain active.',
+  'instructions.rule.copyPaste': 'Copy/Paste is disabled.',
+  'instructions.rule.silence': 'Ensure your environment is silent.',
+  'instructions.rule.recorded': 'This session is recorded (camera, microphone and interviewer audio) for review.',
+  'instructions.begin': 'Accept & Begin',
+  'instructions.cannotStartNoisy': 'Cannot start: Environment is too noisy.',
+  'instructions.nameLabel': 'Your Name',
+  'instructions.interviewFor': 'Interview for {role}',
+
+  'session.status.error': 'Connection Failed',
+  'session.status.connecting': 'Connecting...',
+  'session.status.reconnecting': 'Reconnecting ({attempt}/{max})',
+  'session.status.ready': 'Ready. Click Start!',
+  'session.status.connected': 'Connected',
+  'session.end': 'End',
+  'session.ending': 'Ending: {reason}',
+  'session.connectingTo': 'Connecting to {name}...',
+  'session.reconnectingPaused': 'Connection lost. Reconnecting, the timer is paused...',
+  'session.listening': 'Listening...',
+  'session.start': 'Start Interview Now',
+  'session.questionProgress': 'Q {current}/{total}',
+  'session.mute': 'Mute',
+  'session.unmute': 'Unmute',
+  'session.transcript': 'Transcript',
+  'session.speaker.ai': 'AI',
+  'session.speaker.user': 'You',
+  'session.warningsLeft': '{count} warning(s) left',
+  'session.lastWarning': 'Next violation ends the interview',
+
+  'coding.title': 'Coding Exercise',
+  'coding.shared': 'The interviewer sees your code as you type.',
+  'coding.language': 'Language',
+  'coding.run': 'Run Tests',
+  'coding.running': 'Running...',
+  'coding.submit': 'Submit Solution',
+  'coding.submitted': 'Submitted',
+  'coding.testsPassed': '{passed}/{total} tests passed',
+  'coding.notRun': 'Run the tests to check your solution.',
+  'coding.expected': 'Expected',
+  'coding.actual': 'Got',
+  'coding.console': 'Console',
+
+  'phase.intro': 'Introduction',
+  'phase.behavioral': 'Behavioral',
+  'phase.technical': 'Technical',
+  'phase.coding': 'Live Coding',
+  'phase.closing': 'Closing',
+
+  'difficulty.easy': 'easy',
+  'difficulty.medium': 'medium',
+  'difficulty.hard': 'hard',
+
+  'proctoring.tab_hidden': 'Switched tab',
+  'proctoring.window_blur': 'Left interview window',
+  'proctoring.fullscreen_exit': 'Exited fullscreen',
+  'proctoring.copy': 'Copy attempt',
+  'proctoring.paste': 'Paste attempt',
+  'proctoring.cut': 'Cut attempt',
+  'proctoring.context_menu': 'Context menu opened',
+  'proctoring.camera_ended': 'Camera stopped',
+  'proctoring.camera_muted': 'Camera feed interrupted',
+  'proctoring.mic_ended': 'Microphone stopped',
+  'proctoring.mic_muted': 'Microphone feed interrupted',
+  'proctoring.no_speech': 'No speech for a long stretch',
+  'proctoring.no_face': 'Candidate not in frame',
+  'proctoring.multiple_faces': 'Multiple people in frame',
+  'proctoring.camera_covered': 'Camera covered or black',
+  'proctoring.looking_away': 'Looking away from the screen',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
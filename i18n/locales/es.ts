@@ -0,0 +1,107 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.analyzing': 'Interna está analizando...',
+  'app.submitted.title': 'Entrevista enviada',
+  'app.submitted.message': 'Gracias, {name}. Tu entrevista se ha enviado al reclutador, que se pondrá en contacto contigo con los próximos pasos. Ya puedes cerrar esta pestaña.',
+  'app.submitting': 'Enviando tu entrevista...',
+  'app.submitFailed.title': 'Tu entrevista no se ha enviado',
+  'app.submitFailed.message': 'No pudimos conectar con el servidor. Revisa tu conexión y vuelve a intentarlo; tus respuestas se conservan hasta que cierres esta pestaña.',
+  'app.submitFailed.retry': 'Reintentar',
+
+  'invite.checking': 'Abriendo tu entrevista...',
+  'invite.invalid.title': 'Enlace de entrevista no válido',
+  'invite.invalid.message': 'Este enlace está incompleto o dañado. Pide uno nuevo al reclutador.',
+  'invite.expired.title': 'Este enlace ha caducado',
+  'invite.expired.message': 'El enlace de la entrevista ya no es válido. Pide uno nuevo al reclutador.',
+  'invite.used.title': 'Este enlace ya se ha utilizado',
+  'invite.used.message': 'Cada enlace inicia una sola entrevista. Contacta con el reclutador si necesitas otro intento.',
+
+  'instructions.permissionsDenied': 'Permisos denegados',
+  'instructions.permissionsRequired': 'El acceso a la cámara y al micrófono es obligatorio para la verificación antifraude.',
+  'instructions.tooNoisy': 'Entorno demasiado ruidoso',
+  'instructions.moveToQuietRoom': 'Muévete a una sala silenciosa para garantizar la calidad de la entrevista.',
+  'instructions.systemReady': 'Sistema listo',
+  'instructions.initializing': 'Iniciando...',
+  'instructions.net.excellent': 'Red: Óptima',
+  'instructions.net.fair': 'Red: Estable',
+  'instructions.net.poor': 'Red: Débil',
+  'instructions.net.checking': 'Red: ...',
+  'instructions.noise.good': 'Ruido: Bajo',
+  'instructions.noise.fair': 'Ruido: Moderado',
+  'instructions.noise.bad': 'Ruido: Alto',
+  'instructions.noise.checking': 'Ruido: ...',
+  'instructions.title': 'Control de seguridad',
+  'instructions.subtitle': 'Los protocolos antifraude están activos.',
+  'instructions.rulesTitle': 'Reglas de supervisión',
+  'instructions.rule.tabs': 'Cambiar de pestaña se registrará como infracción.',
+  'instructions.rule.fullscreen': 'La entrevista se realiza en pantalla completa. Salir de ella cuenta como infracción.',
+  'instructions.rule.camera': 'La cámara debe permanecer activa.',
+  'instructions.rule.copyPaste': 'Copiar y pegar está desactivado.',
+  'instructions.rule.silence': 'Asegúrate de estar en un entorno silencioso.',
+  'instructions.rule.recorded': 'Esta sesión se graba (cámara, micrófono y audio del entrevistador) para su revisión.',
+  'instructions.begin': 'Aceptar y comenzar',
+  'instructions.cannotStartNoisy': 'No se puede comenzar: el entorno es demasiado ruidoso.',
+  'instructions.nameLabel': 'Tu nombre',
+  'instructions.interviewFor': 'Entrevista para {role}',
+
+  'session.status.error': 'Error de conexión',
+  'session.status.connecting': 'Conectando...',
+  'session.status.reconnecting': 'Reconectando ({attempt}/{max})',
+  'session.status.ready': 'Listo. ¡Pulsa Comenzar!',
+  'session.status.connected': 'Conectado',
+  'session.end': 'Finalizar',
+  'session.ending': 'Finalizando: {reason}',
+  'session.connectingTo': 'Conectando con {name}...',
+  'session.reconnectingPaused': 'Conexión perdida. Reconectando, el temporizador está en pausa...',
+  'session.listening': 'Escuchando...',
+  'session.start': 'Comenzar la entrevista',
+  'session.questionProgress': 'P {current}/{total}',
+  'session.mute': 'Silenciar',
+  'session.unmute': 'Activar sonido',
+  'session.transcript': 'Transcripción',
+  'session.speaker.ai': 'IA',
+  'session.speaker.user': 'Tú',
+  'session.warningsLeft': 'Quedan {count} advertencia(s)',
+  'session.lastWarning': 'La próxima infracción finalizará la entrevista',
+
+  'coding.title': 'Ejercicio de programación',
+  'coding.shared': 'El entrevistador ve tu código mientras escribes.',
+  'coding.language': 'Lenguaje',
+  'coding.run': 'Ejecutar pruebas',
+  'coding.running': 'Ejecutando...',
+  'coding.submit': 'Enviar solución',
+  'coding.submitted': 'Enviada',
+  'coding.testsPassed': '{passed}/{total} pruebas superadas',
+  'coding.notRun': 'Ejecuta las pruebas para comprobar tu solución.',
+  'coding.expected': 'Esperado',
+  'coding.actual': 'Obtenido',
+  'coding.console': 'Consola',
+
+  'phase.intro': 'Introducción',
+  'phase.behavioral': 'Conductual',
+  'phase.technical': 'Técnica',
+  'phase.coding': 'Programación en vivo',
+  'phase.closing': 'Cierre',
+
+  'difficulty.easy': 'fácil',
+  'difficulty.medium': 'media',
+  'difficulty.hard': 'difícil',
+
+  'proctoring.tab_hidden': 'Cambio de pestaña',
+  'proctoring.window_blur': 'Salida de la ventana de la entrevista',
+  'proctoring.fullscreen_exit': 'Salida de pantalla completa',
+  'proctoring.copy': 'Intento de copiar',
+  'proctoring.paste': 'Intento de pegar',
+  'proctoring.cut': 'Intento de cortar',
+  'proctoring.context_menu': 'Menú contextual abierto',
+  'proctoring.camera_ended': 'Cámara detenida',
+  'proctoring.camera_muted': 'Señal de la cámara interrumpida',
+  'proctoring.mic_ended': 'Micrófono detenido',
+  'proctoring.mic_muted': 'Señal del micrófono interrumpida',
+  'proctoring.no_speech': 'Sin hablar durante mucho tiempo',
+  'proctoring.no_face': 'Candidato fuera de cuadro',
+  'proctoring.multiple_faces': 'Varias personas en cuadro',
+  'proctoring.camera_covered': 'Cámara tapada o en negro',
+  'proctoring.looking_away': 'Mirando fuera de la pantalla',
+};
@@ -0,0 +1,107 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'app.analyzing': 'Interna analyse l’entretien...',
+  'app.submitted.title': 'Entretien envoyé',
+  'app.submitted.message': 'Merci, {name}. Votre entretien a été transmis au recruteur, qui vous recontactera pour la suite. Vous pouvez fermer cet onglet.',
+  'app.submitting': 'Envoi de votre entretien...',
+  'app.submitFailed.title': 'Votre entretien n’a pas été envoyé',
+  'app.submitFailed.message': 'Le serveur est injoignable. Vérifiez votre connexion et réessayez ; vos réponses sont conservées tant que cet onglet reste ouvert.',
+  'app.submitFailed.retry': 'Réessayer',
+
+  'invite.checking': 'Ouverture de votre entretien...',
+  'invite.invalid.title': 'Lien d’entretien invalide',
+  'invite.invalid.message': 'Ce lien est incomplet ou endommagé. Demandez-en un nouveau au recruteur.',
+  'invite.expired.title': 'Ce lien a expiré',
+  'invite.expired.message': 'Le lien de l’entretien n’est plus valide. Demandez-en un nouveau au recruteur.',
+  'invite.used.title': 'Ce lien a déjà été utilisé',
+  'invite.used.message': 'Chaque lien ne démarre qu’un seul entretien. Contactez le recruteur si vous avez besoin d’une nouvelle tentative.',
+
+  'instructions.permissionsDenied': 'Autorisations refusées',
+  'instructions.permissionsRequired': 'L’accès à la caméra et au micro est obligatoire pour la vérification anti-triche.',
+  'instructions.tooNoisy': 'Environnement trop bruyant',
+  'instructions.moveToQuietRoom': 'Installez-vous dans une pièce calme pour garantir la qualité de l’entretien.',
+  'instructions.systemReady': 'Système prêt',
+  'instructions.initializing': 'Initialisation...',
+  'instructions.net.excellent': 'Réseau : Optimal',
+  'instructions.net.fair': 'Réseau : Stable',
+  'instructions.net.poor': 'Réseau : Faible',
+  'instructions.net.checking': 'Réseau : ...',
+  'instructions.noise.good': 'Bruit : Calme',
+  'instructions.noise.fair': 'Bruit : Modéré',
+  'instructions.noise.bad': 'Bruit : Fort',
+  'instructions.noise.checking': 'Bruit : ...',
+  'instructions.title': 'Contrôle de sécurité',
+  'instructions.subtitle': 'Les protocoles anti-triche sont actifs.',
+  'instructions.rulesTitle': 'Règles de surveillance',
+  'instructions.rule.tabs': 'Changer d’onglet sera enregistré comme une infraction.',
+  'instructions.rule.fullscreen': 'L’entretien se déroule en plein écran. En sortir compte comme une infraction.',
+  'instructions.rule.camera': 'La caméra doit rester active.',
+  'instructions.rule.copyPaste': 'Le copier-coller est désactivé.',
+  'instructions.rule.silence': 'Assurez-vous d’être dans un environnement calme.',
+  'instructions.rule.recorded': 'Cette session est enregistrée (caméra, micro et voix de l’intervieweur) pour relecture.',
+  'instructions.begin': 'Accepter et commencer',
+  'instructions.cannotStartNoisy': 'Impossible de commencer : l’environnement est trop bruyant.',
+  'instructions.nameLabel': 'Votre nom',
+  'instructions.interviewFor': 'Entretien pour le poste {role}',
+
+  'session.status.error': 'Échec de la connexion',
+  'session.status.connecting': 'Connexion...',
+  'session.status.reconnecting': 'Reconnexion ({attempt}/{max})',
+  'session.status.ready': 'Prêt. Cliquez sur Commencer !',
+  'session.status.connected': 'Connecté',
+  'session.end': 'Terminer',
+  'session.ending': 'Fin : {reason}',
+  'session.connectingTo': 'Connexion à {name}...',
+  'session.reconnectingPaused': 'Connexion perdue. Reconnexion en cours, le chronomètre est en pause...',
+  'session.listening': 'À l’écoute...',
+  'session.start': 'Commencer l’entretien',
+  'session.questionProgress': 'Q {current}/{total}',
+  'session.mute': 'Couper le micro',
+  'session.unmute': 'Activer le micro',
+  'session.transcript': 'Transcription',
+  'session.speaker.ai': 'IA',
+  'session.speaker.user': 'Vous',
+  'session.warningsLeft': '{count} avertissement(s) restant(s)',
+  'session.lastWarning': 'La prochaine infraction mettra fin à l’entretien',
+
+  'coding.title': 'Exercice de code',
+  'coding.shared': 'L’intervieweur voit votre code pendant que vous tapez.',
+  'coding.language': 'Langage',
+  'coding.run': 'Lancer les tests',
+  'coding.running': 'Exécution...',
+  'coding.submit': 'Soumettre la solution',
+  'coding.submitted': 'Soumise',
+  'coding.testsPassed': '{passed}/{total} tests réussis',
+  'coding.notRun': 'Lancez les tests pour vérifier votre solution.',
+  'coding.expected': 'Attendu',
+  'coding.actual': 'Obtenu',
+  'coding.console': 'Console',
+
+  'phase.intro': 'Introduction',
+  'phase.behavioral': 'Comportemental',
+  'phase.technical': 'Technique',
+  'phase.coding': 'Codage en direct',
+  'phase.closing': 'Conclusion',
+
+  'difficulty.easy': 'facile',
+  'difficulty.medium': 'moyen',
+  'difficulty.hard': 'difficile',
+
+  'proctoring.tab_hidden': 'Changement d’onglet',
+  'proctoring.window_blur': 'Sortie de la fenêtre de l’entretien',
+  'proctoring.fullscreen_exit': 'Sortie du plein écran',
+  'proctoring.copy': 'Tentative de copie',
+  'proctoring.paste': 'Tentative de collage',
+  'proctoring.cut': 'Tentative de couper',
+  'proctoring.context_menu': 'Menu contextuel ouvert',
+  'proctoring.camera_ended': 'Caméra arrêtée',
+  'proctoring.camera_muted': 'Flux de la caméra interrompu',
+  'proctoring.mic_ended': 'Micro arrêté',
+  'proctoring.mic_muted': 'Flux du micro interrompu',
+  'proctoring.no_speech': 'Aucune parole pendant longtemps',
+  'proctoring.no_face': 'Candidat hors du champ',
+  'proctoring.multiple_faces': 'Plusieurs personnes dans le champ',
+  'proctoring.camera_covered': 'Caméra masquée ou noire',
+  'proctoring.looking_away': 'Regard détourné de l’écran',
+};
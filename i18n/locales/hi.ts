@@ -0,0 +1,107 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'app.analyzing': 'Interna विश्लेषण कर रहा है...',
+  'app.submitted.title': 'साक्षात्कार जमा हो गया',
+  'app.submitted.message': 'धन्यवाद, {name}। आपका साक्षात्कार रिक्रूटर को भेज दिया गया है, जो आगे के चरणों के बारे में आपसे संपर्क करेंगे। अब आप यह टैब बंद कर सकते हैं।',
+  'app.submitting': 'आपका साक्षात्कार भेजा जा रहा है...',
+  'app.submitFailed.title': 'आपका साक्षात्कार नहीं भेजा जा सका',
+  'app.submitFailed.message': 'सर्वर से संपर्क नहीं हो सका। अपना कनेक्शन जाँचें और फिर से प्रयास करें; यह टैब बंद करने तक आपके उत्तर सुरक्षित रहेंगे।',
+  'app.submitFailed.retry': 'फिर से प्रयास करें',
+
+  'invite.checking': 'आपका साक्षात्कार खुल रहा है...',
+  'invite.invalid.title': 'अमान्य साक्षात्कार लिंक',
+  'invite.invalid.message': 'यह लिंक अधूरा या खराब है। कृपया रिक्रूटर से नया लिंक माँगें।',
+  'invite.expired.title': 'इस लिंक की समय-सीमा समाप्त हो गई है',
+  'invite.expired.message': 'साक्षात्कार लिंक अब मान्य नहीं है। कृपया रिक्रूटर से नया लिंक माँगें।',
+  'invite.used.title': 'इस लिंक का पहले ही उपयोग हो चुका है',
+  'invite.used.message': 'हर लिंक से केवल एक साक्षात्कार शुरू होता है। दोबारा प्रयास के लिए रिक्रूटर से संपर्क करें।',
+
+  'instructions.permissionsDenied': 'अनुमति नहीं मिली',
+  'instructions.permissionsRequired': 'नकल-रोधी सत्यापन के लिए कैमरा और माइक्रोफ़ोन की अनुमति अनिवार्य है।',
+  'instructions.tooNoisy': 'आसपास बहुत शोर है',
+  'instructions.moveToQuietRoom': 'इंटरव्यू की गुणवत्ता के लिए कृपया किसी शांत कमरे में जाएँ।',
+  'instructions.systemReady': 'सिस्टम तैयार',
+  'instructions.initializing': 'शुरू हो रहा है...',
+  'instructions.net.excellent': 'नेट: बेहतरीन',
+  'instructions.net.fair': 'नेट: स्थिर',
+  'instructions.net.poor': 'नेट: कमज़ोर',
+  'instructions.net.checking': 'नेट: ...',
+  'instructions.noise.good': 'शोर: शांत',
+  'instructions.noise.fair': 'शोर: ठीक',
+  'instructions.noise.bad': 'शोर: ज़्यादा',
+  'instructions.noise.checking': 'शोर: ...',
+  'instructions.title': 'सुरक्षा जाँच',
+  'instructions.subtitle': 'नकल-रोधी नियम सक्रिय हैं।',
+  'instructions.rulesTitle': 'निगरानी के नियम',
+  'instructions.rule.tabs': 'टैब बदलना नियम का उल्लंघन माना जाएगा।',
+  'instructions.rule.fullscreen': 'इंटरव्यू फ़ुलस्क्रीन में चलता है। इससे बाहर निकलना उल्लंघन माना जाएगा।',
+  'instructions.rule.camera': 'कैमरा पूरे समय चालू रहना चाहिए।',
+  'instructions.rule.copyPaste': 'कॉपी/पेस्ट बंद है।',
+  'instructions.rule.silence': 'सुनिश्चित करें कि आसपास शांति हो।',
+  'instructions.rule.recorded': 'समीक्षा के लिए यह सत्र रिकॉर्ड किया जा रहा है (कैमरा, माइक्रोफ़ोन और इंटरव्यूअर की आवाज़)।',
+  'instructions.begin': 'स्वीकार करें और शुरू करें',
+  'instructions.cannotStartNoisy': 'शुरू नहीं हो सकता: आसपास बहुत शोर है।',
+  'instructions.nameLabel': 'आपका नाम',
+  'instructions.interviewFor': '{role} के लिए साक्षात्कार',
+
+  'session.status.error': 'कनेक्शन विफल',
+  'session.status.connecting': 'कनेक्ट हो रहा है...',
+  'session.status.reconnecting': 'फिर से कनेक्ट हो रहा है ({attempt}/{max})',
+  'session.status.ready': 'तैयार। शुरू करें पर क्लिक करें!',
+  'session.status.connected': 'कनेक्टेड',
+  'session.end': 'समाप्त करें',
+  'session.ending': 'समाप्त हो रहा है: {reason}',
+  'session.connectingTo': '{name} से कनेक्ट हो रहा है...',
+  'session.reconnectingPaused': 'कनेक्शन टूट गया। फिर से कनेक्ट हो रहा है, टाइमर रुका हुआ है...',
+  'session.listening': 'सुन रहा है...',
+  'session.start': 'इंटरव्यू अभी शुरू करें',
+  'session.questionProgress': 'प्रश्न {current}/{total}',
+  'session.mute': 'म्यूट',
+  'session.unmute': 'अनम्यूट',
+  'session.transcript': 'ट्रांसक्रिप्ट',
+  'session.speaker.ai': 'AI',
+  'session.speaker.user': 'आप',
+  'session.warningsLeft': '{count} चेतावनी बाकी',
+  'session.lastWarning': 'अगला उल्लंघन इंटरव्यू समाप्त कर देगा',
+
+  'coding.title': 'कोडिंग अभ्यास',
+  'coding.shared': 'आप जो टाइप करते हैं, साक्षात्कारकर्ता उसे देख सकता है।',
+  'coding.language': 'भाषा',
+  'coding.run': 'टेस्ट चलाएँ',
+  'coding.running': 'चल रहा है...',
+  'coding.submit': 'समाधान जमा करें',
+  'coding.submitted': 'जमा किया गया',
+  'coding.testsPassed': '{total} में से {passed} टेस्ट पास',
+  'coding.notRun': 'अपना समाधान जाँचने के लिए टेस्ट चलाएँ।',
+  'coding.expected': 'अपेक्षित',
+  'coding.actual': 'मिला',
+  'coding.console': 'कंसोल',
+
+  'phase.intro': 'परिचय',
+  'phase.behavioral': 'व्यवहार संबंधी',
+  'phase.technical': 'तकनीकी',
+  'phase.coding': 'लाइव कोडिंग',
+  'phase.closing': 'समापन',
+
+  'difficulty.easy': 'आसान',
+  'difficulty.medium': 'मध्यम',
+  'difficulty.hard': 'कठिन',
+
+  'proctoring.tab_hidden': 'टैब बदला',
+  'proctoring.window_blur': 'इंटरव्यू विंडो छोड़ी',
+  'proctoring.fullscreen_exit': 'फ़ुलस्क्रीन से बाहर निकले',
+  'proctoring.copy': 'कॉपी करने की कोशिश',
+  'proctoring.paste': 'पेस्ट करने की कोशिश',
+  'proctoring.cut': 'कट करने की कोशिश',
+  'proctoring.context_menu': 'कॉन्टेक्स्ट मेन्यू खोला',
+  'proctoring.camera_ended': 'कैमरा बंद हुआ',
+  'proctoring.camera_muted': 'कैमरा फ़ीड रुकी',
+  'proctoring.mic_ended': 'माइक्रोफ़ोन बंद हुआ',
+  'proctoring.mic_muted': 'माइक्रोफ़ोन फ़ीड रुकी',
+  'proctoring.no_speech': 'लंबे समय तक कुछ नहीं बोला',
+  'proctoring.no_face': 'उम्मीदवार फ़्रेम में नहीं',
+  'proctoring.multiple_faces': 'फ़्रेम में एक से ज़्यादा लोग',
+  'proctoring.camera_covered': 'कैमरा ढका हुआ या काला',
+  'proctoring.looking_away': 'स्क्रीन से नज़र हटी',
+};
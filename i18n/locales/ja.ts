@@ -0,0 +1,107 @@
+import { Messages } from './en';
+
+export const ja: Messages = {
+  'app.analyzing': 'Interna が分析しています...',
+  'app.submitted.title': '面接を提出しました',
+  'app.submitted.message': '{name} さん、ありがとうございました。面接は採用担当者に送信されました。今後の流れについては担当者からご連絡します。このタブは閉じてかまいません。',
+  'app.submitting': '面接を送信しています...',
+  'app.submitFailed.title': '面接を送信できませんでした',
+  'app.submitFailed.message': 'サーバーに接続できませんでした。接続を確認して、もう一度お試しください。このタブを閉じるまで回答は保持されます。',
+  'app.submitFailed.retry': '再試行',
+
+  'invite.checking': '面接を開いています...',
+  'invite.invalid.title': '無効な面接リンク',
+  'invite.invalid.message': 'このリンクは不完全か破損しています。採用担当者に新しいリンクを依頼してください。',
+  'invite.expired.title': 'このリンクは期限切れです',
+  'invite.expired.message': '面接リンクの有効期限が切れています。採用担当者に新しいリンクを依頼してください。',
+  'invite.used.title': 'このリンクは使用済みです',
+  'invite.used.message': '1 つのリンクで開始できる面接は 1 回だけです。再受験が必要な場合は採用担当者にご連絡ください。',
+
+  'instructions.permissionsDenied': 'アクセスが拒否されました',
+  'instructions.permissionsRequired': '不正防止のため、カメラとマイクへのアクセスが必須です。',
+  'instructions.tooNoisy': '周囲の音が大きすぎます',
+  'instructions.moveToQuietRoom': '面接の品質を保つため、静かな部屋に移動してください。',
+  'instructions.systemReady': '準備完了',
+  'instructions.initializing': '初期化中...',
+  'instructions.net.excellent': '通信: 良好',
+  'instructions.net.fair': '通信: 安定',
+  'instructions.net.poor': '通信: 不安定',
+  'instructions.net.checking': '通信: ...',
+  'instructions.noise.good': '騒音: 静か',
+  'instructions.noise.fair': '騒音: 普通',
+  'instructions.noise.bad': '騒音: 大きい',
+  'instructions.noise.checking': '騒音: ...',
+  'instructions.title': 'セキュリティチェック',
+  'instructions.subtitle': '不正防止機能が有効です。',
+  'instructions.rulesTitle': '監督ルール',
+  'instructions.rule.tabs': 'タブを切り替えると違反として記録されます。',
+  'instructions.rule.fullscreen': '面接は全画面で行います。全画面を終了すると違反になります。',
+  'instructions.rule.camera': 'カメラは常にオンにしてください。',
+  'instructions.rule.copyPaste': 'コピー＆ペーストは無効です。',
+  'instructions.rule.silence': '静かな環境で受けてください。',
+  'instructions.rule.recorded': 'このセッションは確認のため録画されます（カメラ、マイク、面接官の音声）。',
+  'instructions.begin': '同意して開始',
+  'instructions.cannotStartNoisy': '開始できません: 周囲の音が大きすぎます。',
+  'instructions.nameLabel': 'お名前',
+  'instructions.interviewFor': '{role} の面接',
+
+  'session.status.error': '接続に失敗しました',
+  'session.status.connecting': '接続中...',
+  'session.status.reconnecting': '再接続中 ({attempt}/{max})',
+  'session.status.ready': '準備完了。開始を押してください',
+  'session.status.connected': '接続済み',
+  'session.end': '終了',
+  'session.ending': '終了中: {reason}',
+  'session.connectingTo': '{name} に接続中...',
+  'session.reconnectingPaused': '接続が切れました。再接続中です。タイマーは一時停止しています...',
+  'session.listening': '聞いています...',
+  'session.start': '面接を開始',
+  'session.questionProgress': '質問 {current}/{total}',
+  'session.mute': 'ミュート',
+  'session.unmute': 'ミュート解除',
+  'session.transcript': '文字起こし',
+  'session.speaker.ai': 'AI',
+  'session.speaker.user': 'あなた',
+  'session.warningsLeft': '残り警告 {count} 回',
+  'session.lastWarning': '次の違反で面接は終了します',
+
+  'coding.title': 'コーディング課題',
+  'coding.shared': '入力中のコードは面接官に共有されます。',
+  'coding.language': '言語',
+  'coding.run': 'テストを実行',
+  'coding.running': '実行中...',
+  'coding.submit': '解答を提出',
+  'coding.submitted': '提出済み',
+  'coding.testsPassed': '{total} 件中 {passed} 件のテストに合格',
+  'coding.notRun': 'テストを実行して解答を確認してください。',
+  'coding.expected': '期待値',
+  'coding.actual': '結果',
+  'coding.console': 'コンソール',
+
+  'phase.intro': '導入',
+  'phase.behavioral': '行動面',
+  'phase.technical': '技術面',
+  'phase.coding': 'ライブコーディング',
+  'phase.closing': 'まとめ',
+
+  'difficulty.easy': '易',
+  'difficulty.medium': '中',
+  'difficulty.hard': '難',
+
+  'proctoring.tab_hidden': 'タブを切り替えた',
+  'proctoring.window_blur': '面接ウィンドウを離れた',
+  'proctoring.fullscreen_exit': '全画面を終了した',
+  'proctoring.copy': 'コピーの試み',
+  'proctoring.paste': '貼り付けの試み',
+  'proctoring.cut': '切り取りの試み',
+  'proctoring.context_menu': 'コンテキストメニューを開いた',
+  'proctoring.camera_ended': 'カメラが停止した',
+  'proctoring.camera_muted': 'カメラ映像が途切れた',
+  'proctoring.mic_ended': 'マイクが停止した',
+  'proctoring.mic_muted': 'マイク入力が途切れた',
+  'proctoring.no_speech': '長時間発話なし',
+  'proctoring.no_face': '候補者が映っていない',
+  'proctoring.multiple_faces': '複数の人物が映っている',
+  'proctoring.camera_covered': 'カメラが覆われているか真っ暗',
+  'proctoring.looking_away': '画面から目をそらしている',
+};
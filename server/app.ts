@@ -0,0 +1,409 @@
+import { timingSafeEqual } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { LiveResume, LiveSession, LlmProviders } from '../services/llm/types';
+import {
+  CLOSE_LIMIT_REACHED, CLOSE_UNAUTHORIZED, CLOSE_UPSTREAM_FAILED, LiveClientMessage, LiveServerMessage,
+  RECORDING_DURATION_HEADER, RECORDING_STARTED_AT_HEADER, RECRUITER_KEY_HEADER, SessionToken, TaskRequest,
+} from '../services/llm/protocol';
+import { InterviewService } from './interviews';
+import { InvitationService } from './invitations';
+import { SessionManager } from './sessions';
+import { isTaskName, TASKS } from './tasks';
+
+export interface ProxyServerOptions {
+  upstream: LlmProviders;
+  sessions: SessionManager;
+  invitations: InvitationService;
+  interviews: InterviewService;
+  // Shared key for recruiter routes, until there are recruiter accounts
+  recruiterKey: string;
+  // Set when the front end is served from another origin than the API
+  corsOrigin?: string;
+}
+
+// Evaluation prompts carry the whole transcript, so the cap is generous
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+// About an hour of camera video at the browser's default bitrate, with room to spare
+const MAX_RECORDING_BYTES = 2 * 1024 * 1024 * 1024;
+const SETUP_TIMEOUT_MS = 10000;
+// Editor snapshots carry the candidate's whole solution, so text turns may be long, but not unbounded
+const MAX_LIVE_TEXT_CHARS = 50000;
+const MAX_AUDIO_CHUNK_CHARS = 1024 * 1024;
+// What the browser's microphone capture sends (see createMicCapture in utils/audio)
+const LIVE_AUDIO_MIME_TYPE = /^audio\/pcm;rate=\d{4,5}$/;
+// Usage of recruiter tasks is metered together under this id
+const RECRUITER_METER = 'recruiters';
+const INTERVIEW_PATH = /^\/api\/interviews\/([A-Za-z0-9-]+)\/(recording|evaluation)$/;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readJson = (req: IncomingMessage): Promise<Record<string, unknown>> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    let body: unknown;
+    try {
+      body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {};
+    } catch {
+      reject(new HttpError(400, 'Request body is not valid JSON.'));
+      return;
+    }
+    // Every route takes named fields, so anything but an object (null, an array, a number) is refused here
+    if (isObject(body)) resolve(body);
+    else reject(new HttpError(400, 'Request body must be a JSON object.'));
+  });
+  req.on('error', reject);
+});
+
+const bearerToken = (req: IncomingMessage) => req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+
+// The recap of a reconnecting session comes from the browser; a malformed one is dropped, not relayed
+const readResume = (value: unknown): LiveResume | undefined => {
+  const resume = value as LiveResume | undefined;
+  if (!Array.isArray(resume?.transcript?.turns)) return undefined;
+  const turns = resume.transcript.turns.filter(turn => typeof turn?.text === 'string' && typeof turn.speaker === 'string');
+  const coding = typeof resume.coding?.problem?.id === 'string' && typeof resume.coding.code === 'string' ? resume.coding : undefined;
+  return { transcript: { ...resume.transcript, turns }, coding };
+};
+
+// Frames come straight from the candidate's browser; only well-formed messages are relayed upstream
+const readLiveMessage = (value: unknown): LiveClientMessage | null => {
+  if (!isObject(value)) return null;
+  switch (value.type) {
+    case 'setup':
+      return { type: 'setup', resume: readResume(value.resume) };
+    case 'audio': {
+      const chunk = value.chunk;
+      if (!isObject(chunk) || typeof chunk.data !== 'string' || chunk.data.length > MAX_AUDIO_CHUNK_CHARS) return null;
+      if (typeof chunk.mimeType !== 'string' || !LIVE_AUDIO_MIME_TYPE.test(chunk.mimeType)) return null;
+      return { type: 'audio', chunk: { data: chunk.data, mimeType: chunk.mimeType } };
+    }
+    case 'text':
+      return typeof value.text === 'string' && value.text.length <= MAX_LIVE_TEXT_CHARS ? { type: 'text', text: value.text } : null;
+    case 'toolResponse': {
+      const call = value.call;
+      if (!isObject(call) || typeof call.id !== 'string' || typeof call.name !== 'string' || !isObject(value.response)) return null;
+      const args = isObject(call.args) ? call.args : {};
+      return { type: 'toolResponse', call: { id: call.id, name: call.name, args }, response: value.response };
+    }
+    default:
+      return null;
+  }
+};
+
+const matches = (given: string | string[] | undefined, expected: string) => {
+  const a = Buffer.from(typeof given === 'string' ? given : '');
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * HTTP and WebSocket front for the model provider. The browser never sees the API key or sends a
+ * prompt: recruiters keep their invitations here, candidates redeem them for a session token, and
+ * the server builds the live interviewer and every model task from the stored configuration.
+ */
+export function createProxyServer({ upstream, sessions, invitations, interviews, recruiterKey, corsOrigin }: ProxyServerOptions) {
+  const corsHeaders = corsOrigin
+    ? { 'Access-Control-Allow-Origin': corsOrigin, 'Access-Control-Expose-Headers': `${RECORDING_STARTED_AT_HEADER}, ${RECORDING_DURATION_HEADER}` }
+    : {};
+
+  const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders });
+    res.end(JSON.stringify(body));
+  };
+
+  const readInvitationToken = (body: Record<string, unknown>) => {
+    if (typeof body.token !== 'string') throw new HttpError(400, 'Expected an invitation token.');
+    return body.token;
+  };
+
+  const openInvitation = async (req: IncomingMessage) => invitations.open(readInvitationToken(await readJson(req)));
+
+  const redeemInvitation = async (req: IncomingMessage) => {
+    const body = await readJson(req);
+    if (body.candidateName !== undefined && typeof body.candidateName !== 'string') throw new HttpError(400, 'The candidate name must be text.');
+    return invitations.redeem(readInvitationToken(body), body.candidateName);
+  };
+
+  // Sessions start when an invitation is redeemed; this only extends one while its interview is under way
+  const renewSession = (req: IncomingMessage): SessionToken => {
+    const renewed = sessions.renewToken(bearerToken(req), id => !!interviews.candidateFor(id));
+    if (!renewed) throw new HttpError(401, 'This session can no longer be renewed.');
+    return renewed;
+  };
+
+  const isRecruiter = (req: IncomingMessage) => matches(req.headers[RECRUITER_KEY_HEADER.toLowerCase()], recruiterKey);
+
+  const requireRecruiter = (req: IncomingMessage) => {
+    if (!isRecruiter(req)) throw new HttpError(401, 'Missing or wrong recruiter key.');
+  };
+
+  const createInvitation = async (req: IncomingMessage) => {
+    requireRecruiter(req);
+    const { candidate, validForMs } = await readJson(req);
+    const created = invitations.create(candidate, validForMs);
+    if (!created) throw new HttpError(400, 'Expected a candidate configuration and a validity period.');
+    return created;
+  };
+
+  const listInvitations = (req: IncomingMessage) => {
+    requireRecruiter(req);
+    return invitations.list();
+  };
+
+  // Candidates never run tasks: their interview is evaluated here once they submit it
+  const runTask = async (req: IncomingMessage) => {
+    requireRecruiter(req);
+    const body = await readJson(req) as Partial<TaskRequest>;
+    if (!isTaskName(body.task) || !isObject(body.input)) throw new HttpError(400, 'Expected a task and its input.');
+    const refused = sessions.checkTask(RECRUITER_METER);
+    if (refused) throw new HttpError(429, refused);
+
+    const running = TASKS[body.task](body.input, upstream.evaluation);
+    if (!running) throw new HttpError(400, 'The task input is malformed.');
+    try {
+      return { result: await running };
+    } catch (error) {
+      console.error(`Failed to run ${body.task}`, error);
+      throw new HttpError(502, 'The model request failed.');
+    }
+  };
+
+  // The open interview a candidate's session token belongs to
+  const requireOpenInterview = (req: IncomingMessage) => {
+    const session = sessions.verifyToken(bearerToken(req));
+    if (!session) throw new HttpError(401, 'Invalid or expired session token.');
+    if (!interviews.candidateFor(session.interviewId)) throw new HttpError(409, 'This interview was already submitted.');
+    return session.interviewId;
+  };
+
+  const uploadRecording = async (req: IncomingMessage) => {
+    const interviewId = requireOpenInterview(req);
+    if (interviews.getRecordingInfo(interviewId)) throw new HttpError(409, 'This interview already has a recording.');
+    const info = {
+      mimeType: req.headers['content-type'] || 'application/octet-stream',
+      startedAt: Number(req.headers[RECORDING_STARTED_AT_HEADER.toLowerCase()]) || 0,
+      durationMs: Number(req.headers[RECORDING_DURATION_HEADER.toLowerCase()]) || 0,
+    };
+    try {
+      await interviews.saveRecording(interviewId, info, req, MAX_RECORDING_BYTES);
+    } catch (error) {
+      console.error(`Failed to store the recording of ${interviewId}`, error);
+      throw new HttpError(413, 'The recording could not be stored.');
+    }
+    return { ok: true };
+  };
+
+  const submitInterview = async (req: IncomingMessage) => {
+    const interviewId = requireOpenInterview(req);
+    const record = interviews.submit(interviewId, await readJson(req));
+    if (!record) throw new HttpError(400, 'The submission is malformed.');
+    return { id: record.id };
+  };
+
+  const listInterviews = (req: IncomingMessage) => {
+    requireRecruiter(req);
+    return interviews.list();
+  };
+
+  const reevaluateInterview = async (req: IncomingMessage, id: string) => {
+    requireRecruiter(req);
+    const refused = sessions.checkTask(RECRUITER_METER);
+    if (refused) throw new HttpError(429, refused);
+    const result = await interviews.reevaluate(id);
+    if (!result) throw new HttpError(404, 'No such interview.');
+    return { result };
+  };
+
+  const sendRecording = (req: IncomingMessage, res: ServerResponse, id: string) => {
+    requireRecruiter(req);
+    const info = interviews.getRecordingInfo(id);
+    const stream = interviews.openRecording(id);
+    if (!info || !stream) throw new HttpError(404, 'No recording for this interview.');
+    res.writeHead(200, {
+      'Content-Type': info.mimeType,
+      [RECORDING_STARTED_AT_HEADER]: String(info.startedAt),
+      [RECORDING_DURATION_HEADER]: String(info.durationMs),
+      ...corsHeaders,
+    });
+    stream.on('error', error => {
+      console.error(`Failed to read the recording of ${id}`, error);
+      res.destroy();
+    });
+    stream.pipe(res);
+  };
+
+  const server = createServer(async (req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const [, interviewId, interviewPart] = path.match(INTERVIEW_PATH) || [];
+    if (req.method === 'OPTIONS' && corsOrigin) {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': corsOrigin,
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': `Content-Type, Authorization, ${RECRUITER_KEY_HEADER}, ${RECORDING_STARTED_AT_HEADER}, ${RECORDING_DURATION_HEADER}`,
+      });
+      res.end();
+      return;
+    }
+    try {
+      if (req.method === 'GET' && path === '/api/health') sendJson(res, 200, { ok: true, upstream: upstream.name });
+      else if (req.method === 'POST' && path === '/api/invitations') sendJson(res, 200, await createInvitation(req));
+      else if (req.method === 'GET' && path === '/api/invitations') sendJson(res, 200, listInvitations(req));
+      else if (req.method === 'POST' && path === '/api/invitations/open') sendJson(res, 200, await openInvitation(req));
+      else if (req.method === 'POST' && path === '/api/invitations/redeem') sendJson(res, 200, await redeemInvitation(req));
+      else if (req.method === 'POST' && path === '/api/sessions') sendJson(res, 200, renewSession(req));
+      else if (req.method === 'POST' && path === '/api/tasks') sendJson(res, 200, await runTask(req));
+      else if (req.method === 'POST' && path === '/api/interviews/recording') sendJson(res, 200, await uploadRecording(req));
+      else if (req.method === 'POST' && path === '/api/interviews/submission') sendJson(res, 200, await submitInterview(req));
+      else if (req.method === 'GET' && path === '/api/interviews') sendJson(res, 200, listInterviews(req));
+      else if (req.method === 'GET' && interviewPart === 'recording') sendRecording(req, res, interviewId);
+      else if (req.method === 'POST' && interviewPart === 'evaluation') sendJson(res, 200, await reevaluateInterview(req, interviewId));
+      else sendJson(res, 404, { error: 'Not found.' });
+    } catch (error) {
+      if (error instanceof HttpError) sendJson(res, error.status, { error: error.message });
+      else {
+        console.error("Failed to handle request", error);
+        sendJson(res, 500, { error: 'Internal error.' });
+      }
+    }
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/api/live') {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, ws => relayLive(ws, req));
+  });
+
+  // One browser socket maps onto one upstream live session; the first message must be the setup
+  const relayLive = (ws: WebSocket, req: IncomingMessage) => {
+    const send = (message: LiveServerMessage) => { if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message)); };
+    // Protocol errors (a bad frame, a reset connection) are emitted here, and unhandled they would end the
+    // process. Terminating fires 'close', which ends the upstream session.
+    ws.on('error', (error) => {
+      console.error("Live socket failed", error);
+      ws.terminate();
+    });
+    const session = sessions.verifyToken(new URL(req.url || '/', 'http://localhost').searchParams.get('token'));
+    const candidate = session && interviews.candidateFor(session.interviewId);
+    if (!session || !candidate) {
+      ws.close(CLOSE_UNAUTHORIZED, 'Invalid or expired session token.');
+      return;
+    }
+
+    let startedAt: number | null = null;
+    let upstreamSession: LiveSession | null = null;
+    let upstreamClosed = false;
+    let pending: LiveClientMessage[] = [];
+    let limitTimer: ReturnType<typeof setTimeout> | undefined;
+    const setupTimer = setTimeout(() => ws.close(CLOSE_UNAUTHORIZED, 'No setup received.'), SETUP_TIMEOUT_MS);
+
+    const forward = (message: LiveClientMessage) => {
+      if (!upstreamSession) {
+        pending.push(message);
+        return;
+      }
+      switch (message.type) {
+        case 'audio': upstreamSession.sendAudio(message.chunk); break;
+        case 'text': upstreamSession.sendText(message.text); break;
+        case 'toolResponse': upstreamSession.sendToolResponse(message.call, message.response); break;
+      }
+    };
+
+    const setup = ({ resume }: Extract<LiveClientMessage, { type: 'setup' }>) => {
+      clearTimeout(setupTimer);
+      const check = sessions.startLive(session.interviewId);
+      if ('reason' in check) {
+        ws.close(CLOSE_LIMIT_REACHED, check.reason);
+        return;
+      }
+      startedAt = Date.now();
+      limitTimer = setTimeout(() => ws.close(CLOSE_LIMIT_REACHED, 'This interview has reached its time limit.'), check.remainingMs);
+
+      upstream.live.connect({ candidate, resume }, {
+        onOpen: () => send({ type: 'open' }),
+        onEvent: (event) => send({ type: 'event', event }),
+        onError: (error) => {
+          console.error("Upstream live session failed", error);
+          send({ type: 'error', message: 'The live session failed.' });
+        },
+        onClose: () => {
+          upstreamClosed = true;
+          ws.close(1000, 'Upstream closed.');
+        },
+      }).then(
+        connected => {
+          if (ws.readyState !== WebSocket.OPEN) {
+            connected.close();
+            return;
+          }
+          upstreamSession = connected;
+          const queued = pending;
+          pending = [];
+          queued.forEach(forward);
+        },
+        error => {
+          console.error("Failed to connect upstream live session", error);
+          ws.close(CLOSE_UPSTREAM_FAILED, 'Could not reach the model.');
+        }
+      );
+    };
+
+    ws.on('message', (data) => {
+      // A frame that breaks the relay ends this socket only, never the server
+      try {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data.toString());
+        } catch {
+          return;
+        }
+        const message = readLiveMessage(parsed);
+        if (!message) return;
+        if (message.type === 'setup') {
+          if (startedAt === null) setup(message);
+        } else if (startedAt !== null) {
+          forward(message);
+        }
+      } catch (error) {
+        console.error("Failed to relay a live message", error);
+        ws.close(CLOSE_UPSTREAM_FAILED, 'The message could not be relayed.');
+      }
+    });
+
+    const closeUpstream = () => {
+      if (upstreamSession && !upstreamClosed) {
+        upstreamClosed = true;
+        upstreamSession.close();
+      }
+    };
+
+    ws.on('close', () => {
+      clearTimeout(setupTimer);
+      clearTimeout(limitTimer);
+      if (startedAt !== null) sessions.endLive(session.interviewId, startedAt);
+      closeUpstream();
+    });
+  };
+
+  return server;
+}
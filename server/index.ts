@@ -0,0 +1,45 @@
+import { randomBytes } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { createGeminiProviders } from '../services/llm/gemini';
+import { createProxyServer } from './app';
+import { createInterviewService } from './interviews';
+import { createInvitationService } from './invitations';
+import { createSessionManager, DEFAULT_LIMITS } from './sessions';
+import { createInterviewStore, createInvitationStore } from './store';
+import { createStubProviders } from './stubUpstream';
+
+// Same env files Vite reads, so GEMINI_API_KEY can stay in .env.local
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const useStub = process.argv.includes('--stub') || process.env.UPSTREAM === 'stub';
+const apiKey = process.env.GEMINI_API_KEY;
+if (!useStub && !apiKey) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local, or start the server with --stub.");
+  process.exit(1);
+}
+
+const minutes = (name: string, fallbackMs: number) => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value * 60 * 1000 : fallbackMs;
+};
+
+const secret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+if (!process.env.SESSION_SECRET) console.warn("SESSION_SECRET is not set; tokens and invitation links will not survive a restart");
+const sessions = createSessionManager(secret, {
+  ...DEFAULT_LIMITS,
+  liveMsPerInterview: minutes('LIVE_MINUTES_PER_INTERVIEW', DEFAULT_LIMITS.liveMsPerInterview),
+});
+const dataDir = process.env.DATA_DIR || 'server/data';
+const invitations = createInvitationService(createInvitationStore(dataDir), sessions, secret);
+
+const recruiterKey = process.env.RECRUITER_KEY || randomBytes(18).toString('base64url');
+if (!process.env.RECRUITER_KEY) console.log(`RECRUITER_KEY is not set; recruiters can use this key until a restart: ${recruiterKey}`);
+
+const upstream = useStub ? createStubProviders() : createGeminiProviders(apiKey!);
+const interviews = createInterviewService(createInterviewStore(dataDir), invitations, upstream.evaluation);
+const port = Number(process.env.PORT) || 8787;
+
+createProxyServer({ upstream, sessions, invitations, interviews, recruiterKey, corsOrigin: process.env.CORS_ORIGIN })
+  .listen(port, () => console.log(`Interna API (${upstream.name}) listening on http://localhost:${port}`));
@@ -0,0 +1,96 @@
+import type { InterviewRecord, InterviewResult, InterviewSubmission } from '../types';
+import type { EvaluationProvider } from '../services/llm/types';
+import { evaluateSession, pendingResult } from '../services/evaluation';
+import { InvitationService } from './invitations';
+import { InterviewStore } from './store';
+import { isTranscript } from './tasks';
+
+// The submission comes from the candidate's browser; only a well-formed one is stored
+const readSubmission = (body: Record<string, unknown>): InterviewSubmission | null => {
+  const { transcript, terminationReason, proctoringEvents, difficultyTrajectory, connectionOutages, silences, faceDetectionAvailable, coding } = body;
+  const isValid = isTranscript(transcript)
+    && [proctoringEvents, difficultyTrajectory, connectionOutages, silences].every(Array.isArray)
+    && (terminationReason === undefined || typeof terminationReason === 'string')
+    && (coding === undefined || (typeof coding === 'object' && coding !== null));
+  return isValid ? {
+    transcript,
+    terminationReason: terminationReason as string | undefined,
+    proctoringEvents: proctoringEvents as InterviewSubmission['proctoringEvents'],
+    difficultyTrajectory: difficultyTrajectory as InterviewSubmission['difficultyTrajectory'],
+    connectionOutages: connectionOutages as InterviewSubmission['connectionOutages'],
+    silences: silences as InterviewSubmission['silences'],
+    faceDetectionAvailable: faceDetectionAvailable === true,
+    coding: coding as InterviewSubmission['coding'],
+  } : null;
+};
+
+/**
+ * Takes in finished interviews and evaluates them here, so results only ever reach the recruiter.
+ * An interview is open from the moment its invitation is redeemed until it is submitted.
+ */
+export function createInterviewService(store: InterviewStore, invitations: InvitationService, evaluation: EvaluationProvider) {
+  const candidateFor = (interviewId: string) => (store.get(interviewId) ? undefined : invitations.candidateFor(interviewId));
+
+  const evaluate = async (id: string, run: (record: InterviewRecord) => Promise<InterviewResult>) => {
+    const record = store.get(id);
+    if (!record) return undefined;
+    const result = await run(record);
+    // Saved onto the latest record, in case another evaluation finished meanwhile
+    store.save({ ...(store.get(id) || record), result });
+    return result;
+  };
+
+  return {
+    /** The full configuration of an open interview, for building its prompts. */
+    candidateFor,
+
+    list: () => store.list(),
+
+    /**
+     * Stores the finished interview and starts its evaluation. Returns null when the interview is
+     * not open or the submission is malformed; a second submission is refused.
+     */
+    submit(interviewId: string, body: Record<string, unknown>, now: number = Date.now()): InterviewRecord | null {
+      const candidate = candidateFor(interviewId);
+      const submission = readSubmission(body);
+      if (!candidate || !submission) return null;
+      const record: InterviewRecord = {
+        id: interviewId,
+        candidate,
+        transcript: submission.transcript,
+        result: pendingResult(submission),
+        terminationReason: submission.terminationReason,
+        startedAt: submission.transcript.startedAt,
+        endedAt: submission.transcript.endedAt ?? now,
+        hasRecording: !!store.getRecordingInfo(interviewId),
+        invitationId: interviewId,
+      };
+      store.save(record);
+      // Left pending if it fails or the server stops; the recruiter can re-run it
+      evaluate(interviewId, () => evaluateSession(candidate, submission, evaluation))
+        .catch(error => console.error(`Failed to evaluate interview ${interviewId}`, error));
+      return record;
+    },
+
+    /**
+     * Re-runs a pending or failed evaluation from what the stored interview kept. It goes through
+     * evaluateSession like a submission, so a terminated session is still never graded.
+     */
+    reevaluate: (id: string) => evaluate(id, ({ candidate, transcript, terminationReason, result }) => evaluateSession(candidate, {
+      transcript,
+      terminationReason,
+      proctoringEvents: result.proctoringEvents || [],
+      difficultyTrajectory: result.difficultyTrajectory || [],
+      connectionOutages: result.connectionOutages || [],
+      silences: result.silences || [],
+      faceDetectionAvailable: result.faceDetectionAvailable ?? false,
+      coding: result.coding,
+    }, evaluation)),
+
+    saveRecording: store.saveRecording,
+    getRecordingInfo: store.getRecordingInfo,
+    openRecording: store.openRecording,
+  };
+}
+
+export type InterviewService = ReturnType<typeof createInterviewService>;
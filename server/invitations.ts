@@ -0,0 +1,94 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { CandidateInfo, Invitation, OpenedInvitation } from '../types';
+import { InvitationStore } from './store';
+import { SessionManager } from './sessions';
+
+// Longest link a recruiter can create; the client offers shorter presets
+const MAX_VALIDITY_MS = 30 * 24 * 60 * 60 * 1000;
+// Keeps invitation signatures from ever verifying as another kind of token under the same secret
+const TOKEN_DOMAIN = 'invitation:';
+
+// What the candidate's browser needs to run the session. The job description, skill matrix, resume
+// and question bank stay here: the server builds every prompt from them.
+const candidateView = ({ candidate, ...invitation }: Invitation): Invitation => ({
+  ...invitation,
+  candidate: {
+    name: candidate.name,
+    field: candidate.field,
+    language: candidate.language,
+    templateId: candidate.templateId,
+    recordSession: candidate.recordSession,
+    jobDescription: '',
+  },
+});
+
+const MAX_NAME_LENGTH = 100;
+
+const isCandidateInfo = (value: unknown): value is CandidateInfo => {
+  const candidate = value as CandidateInfo | null;
+  return typeof candidate?.name === 'string' && !!candidate.name.trim()
+    && typeof candidate.field === 'string' && typeof candidate.language === 'string'
+    && typeof candidate.jobDescription === 'string';
+};
+
+/**
+ * Creates and redeems invitations. A link carries only `<id>.<hmac>`, so it reveals nothing of the
+ * configuration and cannot be edited; the server decides whether it is valid and accepts it once.
+ */
+export function createInvitationService(store: InvitationStore, sessions: SessionManager, secret: string) {
+  const sign = (id: string) => createHmac('sha256', secret).update(TOKEN_DOMAIN + id).digest('base64url');
+
+  const verify = (token: unknown): Invitation | undefined => {
+    if (typeof token !== 'string') return undefined;
+    const [id, signature] = token.split('.');
+    if (!id || !signature) return undefined;
+    const expected = Buffer.from(sign(id));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+    return store.get(id);
+  };
+
+  const check = (token: unknown, now: number): OpenedInvitation => {
+    const invitation = verify(token);
+    if (!invitation) return { status: 'invalid' };
+    // Expired and used links still return the view, so the candidate's error page is in their language
+    if (now >= invitation.expiresAt) return { status: 'expired', invitation: candidateView(invitation) };
+    if (invitation.redeemedAt) return { status: 'used', invitation: candidateView(invitation) };
+    return { status: 'valid', invitation: candidateView(invitation) };
+  };
+
+  return {
+    /** Returns null when the request does not describe an interview the server can run. */
+    create(candidate: unknown, validForMs: unknown, now: number = Date.now()) {
+      if (!isCandidateInfo(candidate) || typeof validForMs !== 'number' || validForMs <= 0 || validForMs > MAX_VALIDITY_MS) return null;
+      const invitation: Invitation = { id: randomUUID(), candidate, createdAt: now, expiresAt: now + validForMs };
+      store.add(invitation);
+      return { invitation, token: `${invitation.id}.${sign(invitation.id)}` };
+    },
+
+    list: () => store.list(),
+
+    /** Checks a link without using it up. */
+    open: (token: unknown, now: number = Date.now()) => check(token, now),
+
+    /**
+     * Uses the link up and opens the interview's session; only the first caller gets one. The name
+     * the candidate confirmed replaces the one the recruiter typed.
+     */
+    redeem(token: unknown, candidateName: unknown, now: number = Date.now()) {
+      const opened = check(token, now);
+      if (opened.status !== 'valid') return opened;
+      const name = typeof candidateName === 'string' ? candidateName.trim().substring(0, MAX_NAME_LENGTH) : '';
+      if (!store.redeem(opened.invitation.id, now, name || undefined)) return { status: 'used' as const, invitation: opened.invitation };
+      return { status: opened.status, invitation: candidateView(store.get(opened.invitation.id)!), session: sessions.issueSession(opened.invitation.id, now) };
+    },
+
+    /** The full configuration of an interview that is under way, for building its prompts. */
+    candidateFor(interviewId: string): CandidateInfo | undefined {
+      const invitation = store.get(interviewId);
+      return invitation?.redeemedAt ? invitation.candidate : undefined;
+    },
+  };
+}
+
+export type InvitationService = ReturnType<typeof createInvitationService>;
@@ -0,0 +1,140 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Tasks are counted rather than model calls: one evaluation alone makes up to nine calls
+// (every grading pass with its retries), and a caller cannot change that number.
+export interface ProxyLimits {
+  tokenTtlMs: number;
+  // Live audio across every connection of one interview, reconnects included
+  liveMsPerInterview: number;
+  liveConnectsPerInterview: number;
+  // Across the recruiters together; candidates never run tasks themselves
+  tasksPerMinute: number;
+}
+
+export const DEFAULT_LIMITS: ProxyLimits = {
+  tokenTtlMs: 15 * 60 * 1000,
+  liveMsPerInterview: 90 * 60 * 1000,
+  liveConnectsPerInterview: 12,
+  tasksPerMinute: 20,
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+// Usage is kept well past any interview, so renewing a token never resets the limits
+const USAGE_RETENTION_MS = 24 * HOUR_MS;
+// How long after expiry a token can still be renewed, so a long quiet stretch does not end the interview
+const RENEWAL_WINDOW_MS = 3 * HOUR_MS;
+
+export interface TokenPayload {
+  interviewId: string;
+  expiresAt: number;
+}
+
+interface InterviewUsage {
+  liveMs: number;
+  liveConnects: number;
+  activeLive: boolean;
+  tasks: number[];
+  lastSeen: number;
+}
+
+// Either why the live connection is refused, or how long it may stay open
+export type LiveCheck = { reason: string } | { remainingMs: number };
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+/**
+ * Signs session tokens and tracks what each interview has used. Tokens are `<payload>.<hmac>`,
+ * so any instance sharing the secret can verify them; usage lives in memory, so limits hold per process.
+ * Tokens are only issued for interviews the server opened itself, and renewed under the old token.
+ */
+export function createSessionManager(secret: string = randomBytes(32).toString('hex'), limits: ProxyLimits = DEFAULT_LIMITS) {
+  const usage = new Map<string, InterviewUsage>();
+
+  const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+  const mint = (interviewId: string, now: number) => {
+    const payload: TokenPayload = { interviewId, expiresAt: now + limits.tokenTtlMs };
+    const encoded = base64url(JSON.stringify(payload));
+    return { token: `${encoded}.${sign(encoded)}`, ...payload };
+  };
+
+  const usageFor = (interviewId: string, now: number): InterviewUsage => {
+    let entry = usage.get(interviewId);
+    if (!entry) {
+      entry = { liveMs: 0, liveConnects: 0, activeLive: false, tasks: [], lastSeen: now };
+      usage.set(interviewId, entry);
+    }
+    entry.lastSeen = now;
+    return entry;
+  };
+
+  const prune = (now: number) => {
+    usage.forEach((entry, id) => { if (!entry.activeLive && now - entry.lastSeen > USAGE_RETENTION_MS) usage.delete(id); });
+  };
+
+  // The payload of a correctly signed token, expired or not
+  const readToken = (token: string | null | undefined): TokenPayload | null => {
+    const [encoded, signature] = (token || '').split('.');
+    if (!encoded || !signature) return null;
+    const expected = Buffer.from(sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    try {
+      const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as TokenPayload;
+      return typeof payload.interviewId === 'string' && typeof payload.expiresAt === 'number' ? payload : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    limits,
+
+    /** Opens the session of an interview the server itself vouches for, such as a redeemed invitation. */
+    issueSession(interviewId: string, now: number = Date.now()) {
+      prune(now);
+      return mint(interviewId, now);
+    },
+
+    /** A fresh token for the same interview, while `isOpen` says it may still run. */
+    renewToken(token: string | null | undefined, isOpen: (interviewId: string) => boolean, now: number = Date.now()) {
+      const payload = readToken(token);
+      if (!payload || now - payload.expiresAt > RENEWAL_WINDOW_MS || !isOpen(payload.interviewId)) return null;
+      return mint(payload.interviewId, now);
+    },
+
+    verifyToken(token: string | null | undefined, now: number = Date.now()): TokenPayload | null {
+      const payload = readToken(token);
+      return payload && payload.expiresAt > now ? payload : null;
+    },
+
+    /** Counts a task for `meter`, an interview or the recruiters; returns why it is refused, or null. */
+    checkTask(meter: string, now: number = Date.now()): string | null {
+      const entry = usageFor(meter, now);
+      if (entry.tasks.filter(t => now - t < MINUTE_MS).length >= limits.tasksPerMinute) return 'Too many requests, try again in a minute.';
+      entry.tasks = [...entry.tasks.filter(t => now - t < MINUTE_MS), now];
+      return null;
+    },
+
+    /** Reserves the interview's single live connection. */
+    startLive(interviewId: string, now: number = Date.now()): LiveCheck {
+      const entry = usageFor(interviewId, now);
+      if (entry.activeLive) return { reason: 'This interview already has a live connection.' };
+      if (entry.liveConnects >= limits.liveConnectsPerInterview) return { reason: 'This interview has reconnected too many times.' };
+      const remainingMs = limits.liveMsPerInterview - entry.liveMs;
+      if (remainingMs <= 0) return { reason: 'This interview has reached its time limit.' };
+      entry.liveConnects++;
+      entry.activeLive = true;
+      return { remainingMs };
+    },
+
+    endLive(interviewId: string, startedAt: number, now: number = Date.now()) {
+      const entry = usageFor(interviewId, now);
+      entry.liveMs += now - startedAt;
+      entry.activeLive = false;
+    },
+  };
+}
+
+export type SessionManager = ReturnType<typeof createSessionManager>;
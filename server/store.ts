@@ -0,0 +1,120 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { InterviewRecord, Invitation, SessionRecording } from '../types';
+
+// One JSON file per collection, rewritten whole on every change. Enough for one recruiting team;
+// the interface is what a database-backed store would replace.
+function loadCollection<T>(file: string | null): T[] {
+  if (!file || !existsSync(file)) return [];
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as T[];
+  } catch (error) {
+    console.error(`Failed to read ${file}, starting empty`, error);
+    return [];
+  }
+}
+
+function saveCollection<T>(file: string | null, items: T[]) {
+  if (!file) return;
+  // Write then rename, so a crash mid-write cannot leave a half-written file behind
+  writeFileSync(`${file}.tmp`, JSON.stringify(items));
+  renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * Invitations recruiters created, with their full configuration. Candidates only ever hold a signed
+ * id, so the job description and the redemption state live here and nowhere else.
+ * Without a data directory everything stays in memory.
+ */
+export function createInvitationStore(dataDir?: string) {
+  if (dataDir) mkdirSync(dataDir, { recursive: true });
+  const file = dataDir ? join(dataDir, 'invitations.json') : null;
+  const invitations = new Map(loadCollection<Invitation>(file).map(i => [i.id, i]));
+  const persist = () => saveCollection(file, [...invitations.values()]);
+
+  return {
+    get: (id: string) => invitations.get(id),
+    list: () => [...invitations.values()].sort((a, b) => b.createdAt - a.createdAt),
+    add(invitation: Invitation) {
+      invitations.set(invitation.id, invitation);
+      persist();
+    },
+    /** Marks the invitation as started; false when it already was, so a link can only start one interview. */
+    redeem(id: string, now: number, candidateName?: string): boolean {
+      const invitation = invitations.get(id);
+      if (!invitation || invitation.redeemedAt) return false;
+      const candidate = candidateName ? { ...invitation.candidate, name: candidateName } : invitation.candidate;
+      invitations.set(id, { ...invitation, candidate, redeemedAt: now });
+      persist();
+      return true;
+    },
+  };
+}
+
+export type InvitationStore = ReturnType<typeof createInvitationStore>;
+
+// Recording details kept beside the video file
+export type RecordingInfo = Omit<SessionRecording, 'blob'>;
+
+/**
+ * Interviews candidates submitted, evaluated here and read by recruiters. Records share one JSON
+ * file; recordings are streamed to their own files and never loaded whole.
+ */
+export function createInterviewStore(dataDir?: string) {
+  const recordingsDir = dataDir ? join(dataDir, 'recordings') : null;
+  if (recordingsDir) mkdirSync(recordingsDir, { recursive: true });
+  const file = dataDir ? join(dataDir, 'interviews.json') : null;
+  const interviews = new Map(loadCollection<InterviewRecord>(file).map(r => [r.id, r]));
+  const recordingInfo = new Map(loadCollection<[string, RecordingInfo]>(dataDir ? join(dataDir, 'recordings.json') : null));
+  // Without a data directory recordings are buffered in memory
+  const recordingData = new Map<string, Buffer>();
+  const persist = () => saveCollection(file, [...interviews.values()]);
+  const persistRecordings = () => saveCollection(dataDir ? join(dataDir, 'recordings.json') : null, [...recordingInfo.entries()]);
+
+  return {
+    get: (id: string) => interviews.get(id),
+    list: () => [...interviews.values()].sort((a, b) => b.endedAt - a.endedAt),
+    save(record: InterviewRecord) {
+      interviews.set(record.id, record);
+      persist();
+    },
+
+    /** Streams an upload to storage; `maxBytes` aborts it when exceeded, without keeping a partial file. */
+    async saveRecording(id: string, info: RecordingInfo, body: Readable, maxBytes: number) {
+      let size = 0;
+      const limited = body.map(chunk => {
+        size += chunk.length;
+        if (size > maxBytes) throw new Error('Recording too large.');
+        return chunk;
+      });
+      if (!recordingsDir) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of limited) chunks.push(chunk);
+        recordingData.set(id, Buffer.concat(chunks));
+      } else {
+        const target = join(recordingsDir, id);
+        try {
+          await pipeline(limited, createWriteStream(`${target}.tmp`));
+        } catch (error) {
+          rmSync(`${target}.tmp`, { force: true });
+          throw error;
+        }
+        renameSync(`${target}.tmp`, target);
+      }
+      recordingInfo.set(id, info);
+      persistRecordings();
+    },
+
+    getRecordingInfo: (id: string) => recordingInfo.get(id),
+
+    openRecording(id: string): Readable | null {
+      if (!recordingInfo.has(id)) return null;
+      if (!recordingsDir) return Readable.from([recordingData.get(id) || Buffer.alloc(0)]);
+      return createReadStream(join(recordingsDir, id));
+    },
+  };
+}
+
+export type InterviewStore = ReturnType<typeof createInterviewStore>;
@@ -0,0 +1,69 @@
+import type { EvaluationProvider, LiveProvider, LlmProviders, Schema, StructuredRequest } from '../services/llm/types';
+import { buildLiveConnectOptions } from '../utils/liveSetup';
+
+// Stands in for Gemini when the server runs with --stub: no key, no network, predictable replies.
+// It exercises the proxy (tokens, limits, relaying) rather than simulating an interview; the
+// browser-side mock provider does that.
+
+const SAMPLE_RATE = 24000;
+// 100 ms of silence, so clients see an audio event with a realistic payload
+const SILENCE = Buffer.alloc(SAMPLE_RATE / 10 * 2).toString('base64');
+
+function stubValue(schema: Schema, key: string = 'value'): unknown {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, v]) => [k, stubValue(v, k)]));
+    case 'array':
+      return [stubValue(schema.items || { type: 'string' }, key)];
+    case 'string':
+      return schema.enum?.[0] ?? `Stub ${key}.`;
+    case 'integer':
+    case 'number':
+      return 5;
+    case 'boolean':
+      return false;
+  }
+}
+
+const createStubLiveProvider = (): LiveProvider => ({
+  connect: async (setup, callbacks) => {
+    const options = buildLiveConnectOptions(setup);
+    let closed = false;
+    let replies = 0;
+    setTimeout(() => { if (!closed) callbacks.onOpen(); }, 10);
+
+    return {
+      sendAudio: () => {},
+      // Every text turn gets one spoken reply; the interview ends on "end" if the endInterview tool is offered
+      sendText: (text) => {
+        if (closed) return;
+        if (text.trim().toLowerCase() === 'end' && options.tools.some(tool => tool.name === 'endInterview')) {
+          callbacks.onEvent({ type: 'toolCall', calls: [{ id: 'stub-end', name: 'endInterview', args: { reason: 'Completed' } }] });
+          return;
+        }
+        replies++;
+        callbacks.onEvent({ type: 'audio', data: SILENCE, sampleRate: SAMPLE_RATE });
+        callbacks.onEvent({ type: 'outputTranscript', text: `Stub reply ${replies}.`, finished: true });
+        callbacks.onEvent({ type: 'turnComplete' });
+      },
+      sendToolResponse: () => {},
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onClose();
+      },
+    };
+  },
+});
+
+const createStubEvaluationProvider = (): EvaluationProvider => ({
+  generateStructured: async <T>(request: StructuredRequest) => stubValue(request.schema) as T,
+});
+
+export function createStubProviders(): LlmProviders {
+  return {
+    name: 'stub',
+    live: createStubLiveProvider(),
+    evaluation: createStubEvaluationProvider(),
+  };
+}
@@ -0,0 +1,46 @@
+import type { CandidateInfo, InterviewTranscript } from '../types';
+import type { EvaluationProvider } from '../services/llm/types';
+import type { TaskName } from '../services/llm/protocol';
+import { evaluateInterviewWith, EvaluationInput } from '../services/evaluation';
+import { requestSkillMatrix } from '../services/jdAnalysis';
+import { requestTranslations } from '../services/translation';
+
+type Input = Record<string, unknown>;
+
+// Inputs come from the browser, so each task reads only the fields its prompt uses. A task returns
+// null instead of starting when its input would not build a prompt.
+type Task = (input: Input, evaluation: EvaluationProvider) => Promise<unknown> | null;
+
+export const isTranscript = (value: unknown): value is InterviewTranscript => {
+  const turns = (value as InterviewTranscript | null)?.turns;
+  return Array.isArray(turns) && turns.every(turn => typeof turn?.text === 'string' && typeof turn.speaker === 'string');
+};
+
+const isCandidate = (value: unknown): value is CandidateInfo => {
+  const candidate = value as CandidateInfo | null;
+  return typeof candidate?.name === 'string' && typeof candidate.field === 'string' && typeof candidate.language === 'string';
+};
+
+const isText = (value: unknown, max: number): value is string => typeof value === 'string' && value.length <= max;
+
+export const TASKS: Record<TaskName, Task> = {
+  evaluateInterview: ({ candidate, transcript, terminationReason, connectionOutages, silences, coding }, evaluation) =>
+    isCandidate(candidate) && isTranscript(transcript) && Array.isArray(connectionOutages) && Array.isArray(silences)
+      ? evaluateInterviewWith({
+          candidate,
+          transcript,
+          terminationReason: typeof terminationReason === 'string' ? terminationReason : undefined,
+          connectionOutages,
+          silences,
+          coding: coding && typeof coding === 'object' ? coding as EvaluationInput['coding'] : undefined,
+        }, evaluation)
+      : null,
+  analyzeJobDescription: ({ jobDescription, role }, evaluation) =>
+    isText(jobDescription, 50000) && isText(role, 200) ? requestSkillMatrix(jobDescription, role, evaluation) : null,
+  translateTranscript: ({ transcript, fromLanguage, toLanguage }, evaluation) =>
+    isTranscript(transcript) && isText(fromLanguage, 50) && isText(toLanguage, 50)
+      ? requestTranslations(transcript, fromLanguage, toLanguage, evaluation)
+      : null,
+};
+
+export const isTaskName = (value: unknown): value is TaskName => typeof value === 'string' && Object.hasOwn(TASKS, value);
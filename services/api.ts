@@ -0,0 +1,57 @@
+import { RECRUITER_KEY_HEADER } from './llm/protocol';
+
+// There are no recruiter accounts yet: the API server has one shared key, printed at startup or set
+// with RECRUITER_KEY, and recruiters paste it once per browser.
+const RECRUITER_KEY = 'interna.recruiterKey';
+
+export const API_BASE_URL = process.env.API_BASE_URL || '/api';
+
+export function getRecruiterKey(): string {
+  try {
+    return localStorage.getItem(RECRUITER_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function setRecruiterKey(key: string): void {
+  try {
+    localStorage.setItem(RECRUITER_KEY, key.trim());
+  } catch (error) {
+    console.error("Failed to save recruiter key", error);
+  }
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// True when the server refused a recruiter request because the saved key is missing or wrong
+export const isMissingRecruiterKey = (error: unknown) => error instanceof ApiError && error.status === 401;
+
+interface ApiRequest {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  // Sends the recruiter key; the server rejects recruiter routes without it
+  recruiter?: boolean;
+  // A candidate's session token, for the routes of the interview it belongs to
+  token?: string;
+}
+
+/** Calls the API server in /server and throws its error message when the request fails. */
+export async function requestApi<T>(path: string, { method = 'POST', body, recruiter, token }: ApiRequest = {}): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(recruiter ? { [RECRUITER_KEY_HEADER]: getRecruiterKey() } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new ApiError(response.status, data.error || `API request failed with status ${response.status}`);
+  return data as T;
+}
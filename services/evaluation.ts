@@ -0,0 +1,277 @@
+import { BankQuestion, CandidateInfo, CodingSubmission, ConnectionOutage, InterviewResult, InterviewSubmission, InterviewTranscript, Rubric, SilencePeriod } from '../types';
+import { serializeTranscript } from '../utils/transcript';
+import { describeRubric, getRubricForRole, scoreAgainstRubric } from '../utils/rubrics';
+import { describeBankForEvaluation, resolveQuestionBank } from '../utils/questionBanks';
+import { describeResume } from '../utils/resume';
+import { describeSkillMatrix } from '../utils/skillMatrix';
+import { CONNECTION_LOST_REASON, reconnectDelayMs } from '../utils/reconnect';
+import { describeSilences } from '../utils/silence';
+import { describeLanguageForEvaluation, getInterviewLanguage } from '../utils/languages';
+import { describeCodingForEvaluation } from '../utils/coding';
+import { EvaluationExpectations, validateEvaluationPayload, ValidatedEvaluation } from '../utils/evaluationPayload';
+import { calibratePasses } from '../utils/calibration';
+import type { EvaluationProvider, Schema } from './llm/types';
+
+const MAX_ATTEMPTS = 3;
+
+// Everything the evaluation reads; all of it is stored with the interview, so it can be re-run later
+export interface EvaluationInput {
+  candidate: CandidateInfo;
+  transcript: InterviewTranscript;
+  terminationReason?: string;
+  connectionOutages: ConnectionOutage[];
+  silences: SilencePeriod[];
+  coding?: CodingSubmission;
+}
+
+export type EvaluationFields = Pick<InterviewResult,
+  'rating' | 'passed' | 'feedback' | 'questions' | 'competencies' | 'rubricId' | 'passThreshold' | 'missedMustAskQuestions'
+  | 'resumeClaims' | 'skillCoverage' | 'evaluationStatus' | 'evaluationError' | 'evaluationIssues'
+  | 'confidence' | 'needsHumanReview' | 'reviewReasons' | 'passRatings'>;
+
+/** Placeholder saved while the evaluation runs, so an interrupted one can be found and re-run. */
+export const PENDING_EVALUATION: EvaluationFields = { rating: 0, passed: false, feedback: "Evaluation in progress.", questions: [], evaluationStatus: 'pending' };
+
+// Independent holistic passes; their spread is what confidence is measured from
+const HOLISTIC_PASSES = 2;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface PassRequest {
+  label: string;
+  prompt: string;
+  schema: Schema;
+  expectations: EvaluationExpectations;
+}
+
+// Context every pass shares: the notes that change how answers should be read, and the transcript
+function describeInterview({ candidate, transcript, terminationReason, connectionOutages, silences, coding }: EvaluationInput): string {
+  const outageNote = connectionOutages.length
+    ? `\nThe live connection dropped ${connectionOutages.length} time(s)${terminationReason === CONNECTION_LOST_REASON ? ' and the interview ended early because it could not be restored' : ''}. Do not penalise repeated or cut-off turns around the outages, and score only what was asked.\n`
+    : '';
+  const silenceNote = silences.length ? `\n${describeSilences(silences)}\n` : '';
+  const codingNote = coding ? `\n${describeCodingForEvaluation(coding)}\n` : '';
+  const languageNote = describeLanguageForEvaluation(getInterviewLanguage(candidate.language));
+  return `${outageNote}${silenceNote}${codingNote}Transcript:\n${serializeTranscript(transcript)}
+${languageNote ? `${languageNote}\n` : ''}`;
+}
+
+/** Grades the interview as a whole against the rubric, without looking at individual questions. */
+function buildHolisticRequest(input: EvaluationInput, rubric: Rubric, index: number): PassRequest {
+  const { candidate } = input;
+  const matrix = candidate.skillMatrix;
+  const matrixSection = matrix
+    ? `\nApproved role requirements. Judge technical depth against the must-have skills and calibrate every score to the expected seniority:\n${describeSkillMatrix(matrix)}\nAdd one skillCoverage item per must-have skill saying whether the candidate demonstrated it.\n`
+    : '';
+  const resume = candidate.resume;
+  const resumeSection = resume
+    ? `\nThe candidate's resume claims:\n${describeResume(resume)}\nFor each notable claim, add a resumeClaims item saying whether the interview demonstrated it, quoting or paraphrasing what the candidate said. Use 'not_discussed' when the interview never touched it.\n`
+    : '';
+
+  const prompt = `Evaluate candidate ${candidate.name} for ${candidate.field}, judging the interview as a whole.
+Score each competency of the "${rubric.name}" rubric from 1 to 10 using its level descriptors:
+${describeRubric(rubric)}${matrixSection}
+For every competency, quote the candidate's own words from the transcript as evidence. Do not quote the interviewer.
+${resumeSection}${describeInterview(input)}Return JSON with a competencies array and feedback. Every score is an integer from 1 to 10.`;
+
+  const schema: Schema = {
+    type: 'object',
+    properties: {
+      competencies: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            competencyId: { type: 'string', enum: rubric.competencies.map(c => c.id) },
+            score: { type: 'integer' },
+            rationale: { type: 'string' },
+            evidence: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['competencyId', 'score', 'rationale', 'evidence']
+        }
+      },
+      feedback: { type: 'string' },
+      ...(matrix?.mustHave.length ? {
+        skillCoverage: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              skill: { type: 'string', enum: matrix.mustHave },
+              demonstrated: { type: 'boolean' },
+              note: { type: 'string' }
+            },
+            required: ['skill', 'demonstrated', 'note']
+          }
+        }
+      } : {}),
+      ...(resume ? {
+        resumeClaims: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              claim: { type: 'string' },
+              category: { type: 'string', enum: ['skill', 'experience', 'project'] },
+              status: { type: 'string', enum: ['demonstrated', 'partially_demonstrated', 'not_demonstrated', 'not_discussed'] },
+              evidence: { type: 'string' }
+            },
+            required: ['claim', 'category', 'status', 'evidence']
+          }
+        }
+      } : {})
+    },
+    required: ['competencies', 'feedback']
+  };
+
+  return {
+    label: `Holistic pass ${index + 1}`,
+    prompt,
+    schema,
+    expectations: { competencyIds: rubric.competencies.map(c => c.id), bankQuestionIds: [], mustHaveSkills: matrix?.mustHave || [] },
+  };
+}
+
+/** Grades every question on its own answer alone, which the holistic rating is then checked against. */
+function buildQuestionRequest(input: EvaluationInput, bank: BankQuestion[]): PassRequest {
+  const bankSection = bank.length
+    ? `\nQuestion bank for this role. When an asked question matches a bank question, set bankQuestionId to its id and grade the answer against the expected-answer notes, describing in expectedAnswerComparison what was covered and what was missing. Otherwise leave bankQuestionId empty:\n${describeBankForEvaluation(bank)}\n`
+    : '';
+
+  const prompt = `Grade each question the interviewer asked ${input.candidate.name} for ${input.candidate.field}, one at a time.
+Rate every answer from 1 to 10 on its own merits, without letting the other answers raise or lower it.
+${bankSection}${describeInterview(input)}Return JSON with a questions array in the order the questions were asked. Every rating is an integer from 1 to 10.`;
+
+  const schema: Schema = {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string' },
+            rating: { type: 'integer' },
+            feedback: { type: 'string' },
+            candidateAnswerSummary: { type: 'string' },
+            ...(bank.length ? {
+              bankQuestionId: { type: 'string', enum: [...bank.map(q => q.id), ''] },
+              expectedAnswerComparison: { type: 'string' }
+            } : {})
+          },
+          required: ['question', 'rating', 'feedback', 'candidateAnswerSummary']
+        }
+      }
+    },
+    required: ['questions']
+  };
+
+  return { label: 'Per-question pass', prompt, schema, expectations: { competencyIds: [], bankQuestionIds: bank.map(q => q.id), mustHaveSkills: [] } };
+}
+
+type PassOutcome = { validated: ValidatedEvaluation } | { error: string };
+
+// One pass with retries and backoff; a response that leaves rubric competencies unscored counts as a failure
+async function runPass({ label, prompt, schema, expectations }: PassRequest, evaluation: EvaluationProvider): Promise<PassOutcome> {
+  let lastError = '';
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (attempt > 0) await wait(reconnectDelayMs(attempt - 1));
+    let validated: ValidatedEvaluation;
+    try {
+      const raw = await evaluation.generateStructured<unknown>({ prompt, schema });
+      validated = validateEvaluationPayload(raw, expectations);
+    } catch (error) {
+      console.error(`${label}: attempt ${attempt + 1} failed`, error);
+      lastError = error instanceof Error ? error.message : String(error);
+      continue;
+    }
+    if (validated.missingCompetencies.length) {
+      lastError = `No valid score for ${validated.missingCompetencies.join(', ')}.`;
+      console.warn(`${label}: attempt ${attempt + 1} rejected: ${lastError}`, validated.issues);
+      continue;
+    }
+    return { validated };
+  }
+  return { error: `${label}: ${lastError} Gave up after ${MAX_ATTEMPTS} attempts.` };
+}
+
+/** Result for an evaluation that could not run, so the recruiter can re-run it later. */
+export const failedEvaluation = (evaluationError: string): EvaluationFields => ({
+  rating: 0,
+  passed: false,
+  feedback: "Evaluation failed.",
+  questions: [],
+  evaluationStatus: 'failed',
+  evaluationError,
+});
+
+/**
+ * Runs independent grading passes in parallel (several holistic ones and one per question) and
+ * calibrates them into one result with a confidence value. Never throws: when no holistic pass
+ * succeeds the result is marked 'failed' instead of being scored 0, so the recruiter can re-run it
+ * from the stored transcript.
+ */
+export async function evaluateInterviewWith(input: EvaluationInput, evaluation: EvaluationProvider): Promise<EvaluationFields> {
+  const rubric = getRubricForRole(input.candidate.field);
+  const bank = resolveQuestionBank(input.candidate);
+  const [questionPass, ...holisticPasses] = await Promise.all([
+    runPass(buildQuestionRequest(input, bank), evaluation),
+    ...Array.from({ length: HOLISTIC_PASSES }, (_, i) => runPass(buildHolisticRequest(input, rubric, i), evaluation)),
+  ]);
+
+  const holistic = holisticPasses.flatMap(pass => ('validated' in pass ? [pass.validated] : []));
+  if (!holistic.length) {
+    return failedEvaluation(holisticPasses.map(pass => ('error' in pass ? pass.error : '')).join(' '));
+  }
+
+  const questions = 'validated' in questionPass ? questionPass.validated.payload.questions : null;
+  const calibrated = calibratePasses(rubric, holistic.map(pass => pass.payload.competencies), questions);
+  // Categorical findings cannot be averaged; they come from the first holistic pass that succeeded
+  const primary = holistic[0].payload;
+  const issues = [...holistic, ...('validated' in questionPass ? [questionPass.validated] : [])].flatMap(pass => pass.issues);
+  const covered = new Set((questions || []).map(q => q.bankQuestionId));
+
+  return {
+    ...scoreAgainstRubric(rubric, calibrated.competencies),
+    feedback: primary.feedback || "Evaluation complete.",
+    questions: questions || [],
+    missedMustAskQuestions: questions ? bank.filter(q => q.required && !covered.has(q.id)).map(q => q.text) : undefined,
+    rubricId: rubric.id,
+    passThreshold: rubric.passThreshold,
+    resumeClaims: input.candidate.resume ? primary.resumeClaims : undefined,
+    skillCoverage: input.candidate.skillMatrix ? primary.skillCoverage : undefined,
+    evaluationStatus: 'complete',
+    evaluationIssues: issues.length ? issues : undefined,
+    confidence: calibrated.confidence,
+    needsHumanReview: calibrated.needsHumanReview,
+    reviewReasons: calibrated.reviewReasons.length ? calibrated.reviewReasons : undefined,
+    passRatings: calibrated.passRatings,
+  };
+}
+
+// What the session itself recorded; kept on the result whatever the evaluation says
+const sessionFields = ({ proctoringEvents, difficultyTrajectory, connectionOutages, silences, faceDetectionAvailable, coding }: InterviewSubmission) =>
+  ({ proctoringEvents, difficultyTrajectory, connectionOutages, silences, faceDetectionAvailable, coding });
+
+/** Stored while a submitted session waits for its evaluation. */
+export const pendingResult = (submission: InterviewSubmission): InterviewResult => ({ ...PENDING_EVALUATION, ...sessionFields(submission) });
+
+/**
+ * The result for a finished session. Sessions the proctor terminated are not graded; a connection
+ * that could not be restored is not the candidate's fault, so whatever was captured still is.
+ */
+export async function evaluateSession(candidate: CandidateInfo, submission: InterviewSubmission, evaluation: EvaluationProvider): Promise<InterviewResult> {
+  const { transcript, terminationReason, connectionOutages, silences, coding } = submission;
+  if (terminationReason && terminationReason !== "Completed" && terminationReason !== CONNECTION_LOST_REASON) {
+    return {
+      rating: 0,
+      feedback: "Interview terminated early by proctoring system.",
+      passed: false,
+      questions: [],
+      terminationReason,
+      ...sessionFields(submission),
+    };
+  }
+  const evaluated = await evaluateInterviewWith({ candidate, transcript, terminationReason, connectionOutages, silences, coding }, evaluation);
+  return { ...evaluated, ...sessionFields(submission) };
+}
@@ -0,0 +1,81 @@
+import { BankQuestion, InterviewRecord, SessionRecording } from '../types';
+import { DEFAULT_QUESTION_BANKS } from '../utils/questionBanks';
+
+const DB_NAME = 'interna';
+const DB_VERSION = 3;
+const STORE = 'interviews';
+// Recordings are kept apart so listing interviews never loads video blobs
+const RECORDING_STORE = 'recordings';
+// Recruiters' edited question banks, keyed by role; roles never edited use the defaults
+const BANK_STORE = 'questionBanks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('endedAt', 'endedAt');
+      }
+      if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+        db.createObjectStore(RECORDING_STORE);
+      }
+      if (!db.objectStoreNames.contains(BANK_STORE)) {
+        db.createObjectStore(BANK_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, storeName: string = STORE): Promise<T> {
+  const db = await openDb();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+export async function saveInterview(record: InterviewRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(record));
+}
+
+export function getInterview(id: string): Promise<InterviewRecord | undefined> {
+  return withStore('readonly', store => store.get(id));
+}
+
+/** All stored interviews, newest first. */
+export async function listInterviews(): Promise<InterviewRecord[]> {
+  const records = await withStore<InterviewRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.endedAt - a.endedAt);
+}
+
+export async function saveRecording(interviewId: string, recording: SessionRecording): Promise<void> {
+  await withStore('readwrite', store => store.put(recording, interviewId), RECORDING_STORE);
+}
+
+export function getRecording(interviewId: string): Promise<SessionRecording | undefined> {
+  return withStore('readonly', store => store.get(interviewId), RECORDING_STORE);
+}
+
+/** Every role's question bank: the recruiter's edited one where there is one, otherwise the default. */
+export async function listQuestionBanks(): Promise<Record<string, BankQuestion[]>> {
+  const db = await openDb();
+  const store = db.transaction(BANK_STORE, 'readonly').objectStore(BANK_STORE);
+  const [roles, banks] = await Promise.all([promisify(store.getAllKeys()), promisify<BankQuestion[][]>(store.getAll())]);
+  return { ...DEFAULT_QUESTION_BANKS, ...Object.fromEntries(roles.map((role, i) => [String(role), banks[i]])) };
+}
+
+export async function saveQuestionBank(role: string, questions: BankQuestion[]): Promise<void> {
+  await withStore('readwrite', store => store.put(questions, role), BANK_STORE);
+}
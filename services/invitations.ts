@@ -0,0 +1,30 @@
+import { CandidateInfo, Invitation, InvitationStatus, OpenedInvitation } from '../types';
+import { requestApi } from './api';
+import { SessionToken } from './llm/protocol';
+
+export const INVITATION_VALIDITY_OPTIONS = [
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '3 days', ms: 3 * 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+// Invitations live on the API server. The token in a candidate link is an opaque signed id, so the
+// configuration cannot be read or edited from the link, and single use holds across browsers.
+
+/** Records the recruiter's configuration on the server and returns the candidate's token for it. */
+export const createInvitation = (candidate: CandidateInfo, validForMs: number) =>
+  requestApi<{ invitation: Invitation; token: string }>('/invitations', { body: { candidate, validForMs }, recruiter: true });
+
+/** The recruiter's invitations, newest first. */
+export const listInvitations = () => requestApi<Invitation[]>('/invitations', { method: 'GET', recruiter: true });
+
+/** Checks a token from a candidate link without redeeming it. */
+export const openInvitation = (token: string) => requestApi<OpenedInvitation>('/invitations/open', { body: { token } });
+
+export type RedeemedInvitation =
+  | { status: 'valid'; invitation: Invitation; session: SessionToken }
+  | { status: Exclude<InvitationStatus, 'valid'>; invitation?: Invitation };
+
+/** Redeems the link as the interview starts; anything but 'valid' means it must not start. */
+export const redeemInvitation = (token: string, candidateName?: string) =>
+  requestApi<RedeemedInvitation>('/invitations/redeem', { body: { token, candidateName } });
@@ -0,0 +1,26 @@
+import { SkillMatrix } from '../types';
+import { extractSkillMatrix, normalizeSkillMatrix, SENIORITY_LEVELS } from '../utils/skillMatrix';
+import type { EvaluationProvider } from './llm/types';
+
+/** Asks the model for the skill matrix; anything it leaves empty falls back to keyword extraction. */
+export async function requestSkillMatrix(jobDescription: string, role: string, evaluation: EvaluationProvider): Promise<SkillMatrix> {
+  const data = await evaluation.generateStructured<Partial<SkillMatrix>>({
+    prompt: `Analyse this job description for a ${role} role.
+List the concrete skills, technologies and competencies it requires. Put each skill in exactly one list:
+mustHave for stated requirements, niceToHave for anything described as preferred, a plus or a bonus.
+Keep each skill short (1-4 words). Infer the seniority and the business domain; use "General" if no domain is stated.
+Job description:
+${jobDescription}`,
+    schema: {
+      type: 'object',
+      properties: {
+        mustHave: { type: 'array', items: { type: 'string' } },
+        niceToHave: { type: 'array', items: { type: 'string' } },
+        seniority: { type: 'string', enum: SENIORITY_LEVELS },
+        domain: { type: 'string' },
+      },
+      required: ['mustHave', 'niceToHave', 'seniority', 'domain'],
+    },
+  });
+  return normalizeSkillMatrix(data, extractSkillMatrix(jobDescription));
+}
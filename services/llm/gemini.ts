@@ -0,0 +1,117 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Schema as GeminiSchema, Type } from '@google/genai';
+import { repairJson } from '../../utils/jsonRepair';
+import { buildLiveConnectOptions } from '../../utils/liveSetup';
+import { EvaluationProvider, LiveProvider, LlmProviders, Schema, StructuredRequest } from './types';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const EVALUATION_MODEL = 'gemini-2.5-flash';
+const OUTPUT_SAMPLE_RATE = 24000;
+
+const TYPE_MAP: Record<Schema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+export function toGeminiSchema(schema: Schema): GeminiSchema {
+  return {
+    type: TYPE_MAP[schema.type],
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+  };
+}
+
+const createLiveProvider = (ai: GoogleGenAI): LiveProvider => ({
+  connect: async (setup, callbacks) => {
+    const options = buildLiveConnectOptions(setup);
+    const handleMessage = (message: LiveServerMessage) => {
+      const content = message.serverContent;
+
+      if (message.toolCall?.functionCalls?.length) {
+        callbacks.onEvent({
+          type: 'toolCall',
+          calls: message.toolCall.functionCalls.map(call => ({ id: call.id, name: call.name || '', args: call.args || {} })),
+        });
+      }
+      if (content?.inputTranscription) {
+        callbacks.onEvent({ type: 'inputTranscript', text: content.inputTranscription.text || '', finished: !!content.inputTranscription.finished });
+      }
+      if (content?.outputTranscription) {
+        callbacks.onEvent({ type: 'outputTranscript', text: content.outputTranscription.text || '', finished: !!content.outputTranscription.finished });
+      }
+      const audio = content?.modelTurn?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+      if (audio) {
+        callbacks.onEvent({ type: 'audio', data: audio, sampleRate: OUTPUT_SAMPLE_RATE });
+      }
+      if (content?.interrupted) callbacks.onEvent({ type: 'interrupted' });
+      if (content?.turnComplete) callbacks.onEvent({ type: 'turnComplete' });
+    };
+
+    const session = await ai.live.connect({
+      model: LIVE_MODEL,
+      callbacks: {
+        onopen: callbacks.onOpen,
+        onmessage: handleMessage,
+        onerror: callbacks.onError,
+        onclose: callbacks.onClose,
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // No languageCode: the native-audio model rejects one and speaks the language the system
+        // instruction sets, so the interview language reaches it through the prompt only
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } } },
+        tools: [{
+          functionDeclarations: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGeminiSchema(tool.parameters),
+          })),
+        }],
+        systemInstruction: { parts: [{ text: options.systemInstruction }] },
+      },
+    });
+
+    return {
+      sendAudio: (chunk) => session.sendRealtimeInput({ audio: chunk }),
+      sendText: (text) => session.sendRealtimeInput({ text }),
+      sendToolResponse: (call, response) => session.sendToolResponse({
+        functionResponses: { id: call.id, name: call.name, response },
+      }),
+      close: () => session.close(),
+    };
+  },
+});
+
+const createEvaluationProvider = (ai: GoogleGenAI): EvaluationProvider => ({
+  generateStructured: async <T>(request: StructuredRequest) => {
+    const response = await ai.models.generateContent({
+      model: EVALUATION_MODEL,
+      contents: request.prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+      },
+    });
+    // Truncated or fenced output still yields whatever parsed; callers validate the shape
+    return repairJson(response.text || '{}') as T;
+  },
+});
+
+export function createGeminiProviders(apiKey: string): LlmProviders {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    live: createLiveProvider(ai),
+    evaluation: createEvaluationProvider(ai),
+  };
+}
@@ -0,0 +1,31 @@
+import { API_BASE_URL } from '../api';
+import { createMockProviders } from './mock';
+import { createProxyProviders } from './proxy';
+import { TaskName } from './protocol';
+import { EvaluationProvider, LlmProviders } from './types';
+
+export * from './types';
+
+let providers: LlmProviders | null = null;
+
+/**
+ * Picks the provider once per page load. LLM_PROVIDER=mock forces the offline provider; otherwise
+ * calls go through the API server in /server, which holds the Gemini key so the bundle never does.
+ */
+export function getLlmProviders(): LlmProviders {
+  if (providers) return providers;
+
+  providers = process.env.LLM_PROVIDER === 'mock'
+    ? createMockProviders()
+    : createProxyProviders(API_BASE_URL);
+  return providers;
+}
+
+/**
+ * Runs a model job on the API server when the provider goes through one, so the prompt is built
+ * there; otherwise `runLocally` runs it in the browser against the provider's evaluation model.
+ */
+export function runTask<T>(task: TaskName, input: unknown, runLocally: (evaluation: EvaluationProvider) => Promise<T>): Promise<T> {
+  const providers = getLlmProviders();
+  return providers.runTask ? providers.runTask<T>(task, input) : runLocally(providers.evaluation);
+}
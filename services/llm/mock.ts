@@ -0,0 +1,244 @@
+import { decode, encode } from '../../utils/audio';
+import { CODING_PROBLEMS } from '../../utils/codingProblems';
+import { buildLiveConnectOptions } from '../../utils/liveSetup';
+import { EvaluationProvider, LiveEvent, LiveProvider, LlmProviders, Schema, StructuredRequest } from './types';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_SAMPLE_RATE = 16000;
+const CHUNK_MS = 200;
+const MS_PER_WORD = 320;
+const SPEECH_RMS = 0.02;
+const END_OF_ANSWER_SILENCE_MS = 1500;
+const NO_ANSWER_TIMEOUT_MS = 12000;
+const CODING_LINE = "Let's finish with a short coding exercise. The problem is in the editor. Run the tests as often as you like, and press submit when you are done.";
+
+export const MOCK_SCRIPT = [
+  "Hello, I am Interna, your AI interviewer. This is an offline practice session. Let's begin.",
+  "To start, tell me a little about yourself and why this role interests you?",
+  "How would you explain the difference between a process and a thread?",
+  "Walk me through how you would debug a slow page or endpoint?",
+  "How do you decide what to cover with automated tests?",
+  "Describe a design decision you made that you later had to revisit?",
+  "What would you do if you disagreed with a teammate about an implementation?",
+  "Thank you, this concludes our interview.",
+];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A voice-like placeholder: a low carrier with a syllable-rate envelope, so the
+// visualiser, playback scheduling and barge-in paths all see realistic audio.
+function synthesizeSpeech(durationMs: number): Int16Array {
+  const length = Math.floor((durationMs / 1000) * OUTPUT_SAMPLE_RATE);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const envelope = Math.pow(Math.sin(Math.PI * 4 * t), 2);
+    const voice = Math.sin(2 * Math.PI * 160 * t) + 0.4 * Math.sin(2 * Math.PI * 320 * t);
+    samples[i] = Math.round(voice * envelope * 0.25 * 0x7FFF);
+  }
+  return samples;
+}
+
+function pcm16Rms(base64: string): number {
+  const bytes = decode(base64);
+  const view = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  if (view.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < view.length; i++) {
+    const s = view[i] / 0x8000;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / view.length);
+}
+
+const createMockLiveProvider = (): LiveProvider => ({
+  connect: async (setup, callbacks) => {
+    const options = buildLiveConnectOptions(setup);
+    let closed = false;
+    let started = false;
+    let lineIndex = 0;
+    let speaking = false;
+    let heardSpeech = false;
+    let speechMs = 0;
+    let lastSpeechAt = 0;
+    let listeningSince = 0;
+    let watchdog: number | undefined;
+    let difficulty = 'medium';
+    const scoresAnswers = options.tools.some(tool => tool.name === 'scoreAnswer');
+    // The coding round runs once, right before the closing line
+    let codingPending = options.tools.some(tool => tool.name === 'presentCodingProblem');
+    let awaitingSubmission = false;
+
+    const emit = (event: LiveEvent) => { if (!closed) callbacks.onEvent(event); };
+
+    const speak = async (line: string) => {
+      speaking = true;
+      const words = line.split(' ');
+      const pcm = synthesizeSpeech(words.length * MS_PER_WORD);
+      const samplesPerChunk = (OUTPUT_SAMPLE_RATE * CHUNK_MS) / 1000;
+      const wordsPerChunk = CHUNK_MS / MS_PER_WORD;
+      let spoken = 0;
+
+      for (let offset = 0; offset < pcm.length && !closed; offset += samplesPerChunk) {
+        const chunk = pcm.slice(offset, offset + samplesPerChunk);
+        emit({ type: 'audio', data: encode(new Uint8Array(chunk.buffer)), sampleRate: OUTPUT_SAMPLE_RATE });
+
+        const target = Math.min(words.length, Math.ceil(((offset / samplesPerChunk) + 1) * wordsPerChunk));
+        if (target > spoken) {
+          emit({ type: 'outputTranscript', text: (spoken > 0 ? ' ' : '') + words.slice(spoken, target).join(' '), finished: false });
+          spoken = target;
+        }
+        await wait(CHUNK_MS);
+      }
+      emit({ type: 'turnComplete' });
+      speaking = false;
+    };
+
+    const finishAnswer = (answered: boolean) => {
+      const text = answered ? `(spoke for ${Math.round(speechMs / 1000)}s, offline mode does not transcribe)` : '(no answer)';
+      emit({ type: 'inputTranscript', text, finished: true });
+      // Score technical answers (everything after the opening question) by how long the candidate spoke
+      const questionNumber = lineIndex - 1;
+      if (scoresAnswers && questionNumber > 1) {
+        const score = !answered ? 1 : speechMs > 20000 ? 8 : speechMs > 8000 ? 6 : 4;
+        emit({ type: 'toolCall', calls: [{ id: `mock-score-${questionNumber}`, name: 'scoreAnswer', args: {
+          questionNumber, difficulty, score, depth: speechMs > 20000 ? 'strong' : 'adequate', rationale: 'Offline mode scores answers by speaking time.',
+        } }] });
+      }
+      heardSpeech = false;
+      speechMs = 0;
+      advance();
+    };
+
+    const listen = () => {
+      listeningSince = Date.now();
+      watchdog = window.setInterval(() => {
+        const now = Date.now();
+        if (heardSpeech && now - lastSpeechAt > END_OF_ANSWER_SILENCE_MS) {
+          clearInterval(watchdog);
+          finishAnswer(true);
+        } else if (!heardSpeech && now - listeningSince > NO_ANSWER_TIMEOUT_MS) {
+          clearInterval(watchdog);
+          finishAnswer(false);
+        }
+      }, 250);
+    };
+
+    const startCoding = async () => {
+      codingPending = false;
+      emit({ type: 'toolCall', calls: [{ id: 'mock-coding', name: 'presentCodingProblem', args: { problemId: CODING_PROBLEMS[0].id } }] });
+      await speak(CODING_LINE);
+      awaitingSubmission = true;
+    };
+
+    // Offline mode cannot read the code, so the review goes by the share of tests that passed
+    const reviewSubmission = (snapshot: string) => {
+      awaitingSubmission = false;
+      const [, passed = '0', total = '0'] = snapshot.match(/(\d+)\/(\d+) tests passed/) || [];
+      const ratio = Number(total) ? Number(passed) / Number(total) : 0;
+      emit({ type: 'toolCall', calls: [{ id: 'mock-review', name: 'reviewCode', args: {
+        score: Math.max(1, Math.round(ratio * 10)),
+        summary: `Offline mode reviews code by its test results: ${passed}/${total} tests passed.`,
+        strengths: [],
+        concerns: [],
+      } }] });
+      advance();
+    };
+
+    const advance = async () => {
+      if (closed) return;
+      if (codingPending && lineIndex === MOCK_SCRIPT.length - 1) {
+        await startCoding();
+        return;
+      }
+      const line = MOCK_SCRIPT[lineIndex++];
+      await speak(line);
+      if (lineIndex >= MOCK_SCRIPT.length) {
+        emit({ type: 'toolCall', calls: [{ id: 'mock-end', name: 'endInterview', args: { reason: 'Completed' } }] });
+        return;
+      }
+      // The intro flows straight into the first question
+      if (lineIndex === 1) {
+        advance();
+        return;
+      }
+      listen();
+    };
+
+    setTimeout(() => { if (!closed) callbacks.onOpen(); }, 300);
+
+    return {
+      sendAudio: (chunk) => {
+        if (speaking || !started) return;
+        if (pcm16Rms(chunk.data) > SPEECH_RMS) {
+          heardSpeech = true;
+          lastSpeechAt = Date.now();
+          speechMs += (chunk.data.length * 3 / 4 / 2 / INPUT_SAMPLE_RATE) * 1000;
+        }
+      },
+      sendText: (text) => {
+        if (awaitingSubmission && text.includes('submitted their final solution')) {
+          reviewSubmission(text);
+          return;
+        }
+        if (started) return;
+        started = true;
+        advance();
+      },
+      sendToolResponse: (call, response) => {
+        if (call.name === 'scoreAnswer' && typeof response.nextDifficulty === 'string') difficulty = response.nextDifficulty;
+      },
+      close: () => {
+        closed = true;
+        if (watchdog) clearInterval(watchdog);
+        callbacks.onClose();
+      },
+    };
+  },
+});
+
+/**
+ * Builds a deterministic value matching `schema`. Arrays of objects with an enum-keyed
+ * property get one item per enum value, so rubric-style schemas come back complete.
+ */
+export function mockValueForSchema(schema: Schema, key: string = 'value'): unknown {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([k, v]) => [k, mockValueForSchema(v, k)])
+      );
+    case 'array': {
+      const item = schema.items || { type: 'string' };
+      const enumKey = Object.entries(item.properties || {}).find(([, v]) => v.enum?.length)?.[0];
+      if (enumKey) {
+        return item.properties![enumKey].enum!.map(value => ({
+          ...(mockValueForSchema(item, key) as object),
+          [enumKey]: value,
+        }));
+      }
+      return [1, 2].map(i => mockValueForSchema(item, `${key} ${i}`));
+    }
+    case 'string':
+      return schema.enum?.[0] ?? `Mock ${key} (offline evaluation).`;
+    case 'integer':
+    case 'number':
+      return 7;
+    case 'boolean':
+      return true;
+  }
+}
+
+const createMockEvaluationProvider = (): EvaluationProvider => ({
+  generateStructured: async <T>(request: StructuredRequest) => {
+    await wait(800);
+    return mockValueForSchema(request.schema) as T;
+  },
+});
+
+export function createMockProviders(): LlmProviders {
+  return {
+    name: 'mock',
+    live: createMockLiveProvider(),
+    evaluation: createMockEvaluationProvider(),
+  };
+}
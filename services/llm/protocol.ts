@@ -0,0 +1,44 @@
+import type { AudioBlob } from '../../utils/audio';
+import type { LiveEvent, LiveResume, ToolCall } from './types';
+
+// Wire format between the browser and the proxy server in /server. Both sides import these types,
+// so the provider-neutral LiveEvent is what travels over the socket, not any vendor's messages.
+
+export interface SessionToken {
+  token: string;
+  interviewId: string;
+  expiresAt: number;
+}
+
+// The model jobs the server runs. Each builds its own prompt and schema from the input, so a
+// client can pick a job but never send a prompt of its own.
+export type TaskName = 'evaluateInterview' | 'analyzeJobDescription' | 'translateTranscript';
+
+export interface TaskRequest {
+  task: TaskName;
+  input: unknown;
+}
+
+// The server configures the session from the interview it stored; the browser only says where it stopped
+export type LiveClientMessage =
+  | { type: 'setup'; resume?: LiveResume }
+  | { type: 'audio'; chunk: AudioBlob }
+  | { type: 'text'; text: string }
+  | { type: 'toolResponse'; call: ToolCall; response: Record<string, unknown> };
+
+export type LiveServerMessage =
+  | { type: 'open' }
+  | { type: 'event'; event: LiveEvent }
+  | { type: 'error'; message: string };
+
+// Close codes the proxy uses when it ends a live socket itself
+export const CLOSE_UNAUTHORIZED = 4001;
+export const CLOSE_LIMIT_REACHED = 4008;
+export const CLOSE_UPSTREAM_FAILED = 4502;
+
+// Recruiter requests carry the server's recruiter key in this header
+export const RECRUITER_KEY_HEADER = 'X-Recruiter-Key';
+
+// Recordings travel as raw video; their timing rides along in these headers
+export const RECORDING_STARTED_AT_HEADER = 'X-Recording-Started-At';
+export const RECORDING_DURATION_HEADER = 'X-Recording-Duration-Ms';
@@ -0,0 +1,101 @@
+import { getRecruiterKey } from '../api';
+import { CLOSE_LIMIT_REACHED, LiveClientMessage, LiveServerMessage, RECRUITER_KEY_HEADER, SessionToken, TaskRequest } from './protocol';
+import { EvaluationProvider, LiveProvider, LiveSession, LlmProviders } from './types';
+
+// Tokens are renewed this long before they expire, so a request never races the expiry
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Talks to the API server in /server, which holds the model key. Live sessions run under a short-lived
+ * token for the interview the candidate's invitation opened, and the server meters each interview
+ * separately. Model jobs are requested by name; the server builds their prompts.
+ */
+export function createProxyProviders(baseUrl: string): LlmProviders {
+  let session: Promise<SessionToken> | null = null;
+
+  const requestJson = async <T>(path: string, body: unknown, token?: string): Promise<T> => {
+    const recruiterKey = getRecruiterKey();
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(recruiterKey ? { [RECRUITER_KEY_HEADER]: recruiterKey } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `API request failed with status ${response.status}`);
+    return data as T;
+  };
+
+  const getToken = async (): Promise<string> => {
+    const current = session && await session;
+    if (!current) throw new Error('No interview session; the candidate link opens one.');
+    if (current.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) return current.token;
+    // Renewals are made under the current token, so they stay bound to the same interview
+    const renewal = requestJson<SessionToken>('/sessions', {}, current.token);
+    session = renewal.catch(() => current);
+    return (await renewal).token;
+  };
+
+  const live: LiveProvider = {
+    connect: async (setup, callbacks) => {
+      const url = new URL(`${baseUrl}/live`, window.location.href);
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      url.searchParams.set('token', await getToken());
+      const socket = new WebSocket(url);
+      const send = (message: LiveClientMessage) => { if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message)); };
+
+      return new Promise((resolve, reject) => {
+        let opened = false;
+        const liveSession: LiveSession = {
+          sendAudio: (chunk) => send({ type: 'audio', chunk }),
+          sendText: (text) => send({ type: 'text', text }),
+          sendToolResponse: (call, response) => send({ type: 'toolResponse', call, response }),
+          close: () => socket.close(),
+        };
+
+        // The server configures the interviewer from the invitation; only the recap travels from here
+        socket.onopen = () => send({ type: 'setup', resume: setup.resume });
+        socket.onmessage = (e) => {
+          const message = JSON.parse(e.data) as LiveServerMessage;
+          if (message.type === 'open') {
+            opened = true;
+            resolve(liveSession);
+            callbacks.onOpen();
+          } else if (message.type === 'event') {
+            callbacks.onEvent(message.event);
+          } else {
+            callbacks.onError(new Error(message.message));
+          }
+        };
+        socket.onclose = (e) => {
+          if (e.code === CLOSE_LIMIT_REACHED) console.warn("Live session stopped by the API server:", e.reason);
+          if (opened) callbacks.onClose();
+          else reject(new Error(e.reason || 'Could not open the live session'));
+        };
+      });
+    },
+  };
+
+  // The server does not relay free-form prompts; every model job goes through runTask
+  const evaluation: EvaluationProvider = {
+    generateStructured: () => Promise.reject(new Error('The API server only runs named tasks.')),
+  };
+
+  return {
+    name: 'proxy',
+    live,
+    evaluation,
+    beginInterview: (next) => {
+      session = Promise.resolve(next);
+    },
+    // Only recruiters run tasks, recognised by their key; candidates' interviews are evaluated on submission
+    runTask: async <T>(task: TaskRequest['task'], input: unknown) => {
+      const body: TaskRequest = { task, input };
+      const { result } = await requestJson<{ result: T }>('/tasks', body);
+      return result;
+    },
+  };
+}
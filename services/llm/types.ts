@@ -0,0 +1,91 @@
+import type { CandidateInfo, CodingSubmission, InterviewTranscript } from '../../types';
+import { AudioBlob } from '../../utils/audio';
+import type { SessionToken, TaskName } from './protocol';
+
+// Provider-neutral subset of JSON schema, used for tool parameters and structured output
+export interface Schema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Schema;
+}
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Everything a live provider can report back, normalised away from any vendor's wire format
+export type LiveEvent =
+  | { type: 'audio'; data: string; sampleRate: number } // base64 PCM16 mono
+  | { type: 'inputTranscript'; text: string; finished: boolean }
+  | { type: 'outputTranscript'; text: string; finished: boolean }
+  | { type: 'toolCall'; calls: ToolCall[] }
+  | { type: 'interrupted' }
+  | { type: 'turnComplete' };
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onEvent: (event: LiveEvent) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+// What a live session is for. Providers derive the prompt, voice and tools from it, so behind the
+// API server none of them come from the browser: the server uses the candidate it stored instead.
+export interface LiveSetup {
+  candidate: CandidateInfo;
+  resume?: LiveResume;
+}
+
+// Where a dropped session stopped, so the reconnected interviewer can pick up from there
+export interface LiveResume {
+  transcript: InterviewTranscript;
+  coding?: CodingSubmission;
+}
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  voiceName: string;
+  tools: ToolDeclaration[];
+}
+
+export interface LiveSession {
+  sendAudio: (chunk: AudioBlob) => void;
+  sendText: (text: string) => void;
+  sendToolResponse: (call: ToolCall, response: Record<string, unknown>) => void;
+  close: () => void;
+}
+
+export interface LiveProvider {
+  connect: (setup: LiveSetup, callbacks: LiveCallbacks) => Promise<LiveSession>;
+}
+
+export interface StructuredRequest {
+  prompt: string;
+  schema: Schema;
+}
+
+export interface EvaluationProvider {
+  generateStructured: <T>(request: StructuredRequest) => Promise<T>;
+}
+
+export interface LlmProviders {
+  name: string;
+  live: LiveProvider;
+  evaluation: EvaluationProvider;
+  // Scopes later calls to the session the server opened for an interview, for providers that meter usage
+  beginInterview?: (session: SessionToken) => void;
+  // Runs one of the app's model jobs where its prompts are built, on the API server. Providers
+  // without it run the job in the browser against `evaluation`.
+  runTask?: <T>(task: TaskName, input: unknown) => Promise<T>;
+}
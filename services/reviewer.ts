@@ -0,0 +1,19 @@
+// There are no recruiter accounts yet, so reviewers name themselves once per browser.
+// The name is what the review audit trail records as the author of each change.
+const REVIEWER_KEY = 'interna.reviewer';
+
+export function getReviewerName(): string {
+  try {
+    return localStorage.getItem(REVIEWER_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function setReviewerName(name: string): void {
+  try {
+    localStorage.setItem(REVIEWER_KEY, name.trim());
+  } catch (error) {
+    console.error("Failed to save reviewer name", error);
+  }
+}
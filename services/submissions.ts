@@ -0,0 +1,70 @@
+import { InterviewRecord, InterviewResult, InterviewSessionOutcome, SessionRecording } from '../types';
+import { API_BASE_URL, ApiError, getRecruiterKey, requestApi } from './api';
+import { getInterview, saveInterview, saveRecording } from './interviewStore';
+import { RECORDING_DURATION_HEADER, RECORDING_STARTED_AT_HEADER, RECRUITER_KEY_HEADER, SessionToken } from './llm/protocol';
+
+// Interviews taken through a candidate link are sent to the API server and evaluated there; the
+// candidate's browser keeps nothing. Recruiters pull them into their own interview store.
+
+// The token from the redeemed link has usually expired by the end; the server renews it for an open interview
+const currentToken = async (session: SessionToken) => session.expiresAt > Date.now()
+  ? session.token
+  : (await requestApi<SessionToken>('/sessions', { body: {}, token: session.token })).token;
+
+async function uploadRecording(token: string, recording: SessionRecording): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/interviews/recording`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': recording.mimeType,
+      Authorization: `Bearer ${token}`,
+      [RECORDING_STARTED_AT_HEADER]: String(recording.startedAt),
+      [RECORDING_DURATION_HEADER]: String(recording.durationMs),
+    },
+    body: recording.blob,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new ApiError(response.status, data.error || `Recording upload failed with status ${response.status}`);
+}
+
+/**
+ * Sends a finished interview to the server, which stores it and starts its evaluation. The recording
+ * goes first, since the interview closes once the submission arrives. Safe to retry after a failure.
+ */
+export async function submitInterview(session: SessionToken, { recording, ...submission }: InterviewSessionOutcome): Promise<void> {
+  const token = await currentToken(session);
+  // A retry after a step went through is refused as a duplicate; what the server stored stands
+  const ignoreDuplicate = (error: unknown) => {
+    if (!(error instanceof ApiError && error.status === 409)) throw error;
+  };
+  if (recording) await uploadRecording(token, recording).catch(ignoreDuplicate);
+  await requestApi<{ id: string }>('/interviews/submission', { body: submission, token }).catch(ignoreDuplicate);
+}
+
+/** Copies the server's interviews into the interview store, keeping each one's local review. */
+export async function syncInterviews(): Promise<void> {
+  const records = await requestApi<InterviewRecord[]>('/interviews', { method: 'GET', recruiter: true });
+  for (const record of records) {
+    const local = await getInterview(record.id);
+    await saveInterview({ ...record, review: local?.review });
+  }
+}
+
+/** Downloads a submitted interview's recording and keeps it in the interview store. */
+export async function downloadRecording(interviewId: string): Promise<SessionRecording> {
+  const response = await fetch(`${API_BASE_URL}/interviews/${interviewId}/recording`, {
+    headers: { [RECRUITER_KEY_HEADER]: getRecruiterKey() },
+  });
+  if (!response.ok) throw new ApiError(response.status, `Recording download failed with status ${response.status}`);
+  const recording: SessionRecording = {
+    blob: await response.blob(),
+    mimeType: response.headers.get('Content-Type') || 'video/webm',
+    startedAt: Number(response.headers.get(RECORDING_STARTED_AT_HEADER)) || 0,
+    durationMs: Number(response.headers.get(RECORDING_DURATION_HEADER)) || 0,
+  };
+  await saveRecording(interviewId, recording);
+  return recording;
+}
+
+/** Re-runs a submitted interview's evaluation on the server, which also stores the new result. */
+export const reevaluateSubmitted = async (interviewId: string) =>
+  (await requestApi<{ result: InterviewResult }>(`/interviews/${interviewId}/evaluation`, { recruiter: true })).result;
@@ -0,0 +1,39 @@
+import { InterviewTranscript, SkillMatrix } from '../types';
+import { extractSkillMatrix } from '../utils/skillMatrix';
+import { evaluateInterviewWith, EvaluationFields, EvaluationInput, failedEvaluation } from './evaluation';
+import { requestSkillMatrix } from './jdAnalysis';
+import { requestTranslations } from './translation';
+import { getLlmProviders, runTask } from './llm';
+
+// What the screens call for model work. Behind the API server each call names a task and the
+// server builds the prompt; with the offline provider the same code runs in the browser.
+
+/** Evaluates the interview. Never throws: a call that fails comes back as a failed evaluation. */
+export const evaluateInterview = (input: EvaluationInput): Promise<EvaluationFields> =>
+  runTask('evaluateInterview', input, evaluation => evaluateInterviewWith(input, evaluation)).catch(error => {
+    console.error("Failed to run the evaluation", error);
+    return failedEvaluation(error instanceof Error ? error.message : String(error));
+  });
+
+/**
+ * Turns a job description into a skill matrix for the recruiter to review. Uses the evaluation
+ * model when one is configured and falls back to keyword extraction offline or on failure.
+ */
+export async function analyzeJobDescription(jobDescription: string, role: string): Promise<SkillMatrix> {
+  // The offline provider would only return placeholder skills
+  if (getLlmProviders().name === 'mock') return extractSkillMatrix(jobDescription);
+
+  try {
+    return await runTask('analyzeJobDescription', { jobDescription, role }, evaluation => requestSkillMatrix(jobDescription, role, evaluation));
+  } catch (error) {
+    console.error("JD analysis failed, using keyword extraction", error);
+    return extractSkillMatrix(jobDescription);
+  }
+}
+
+/**
+ * Translates every transcript turn for a recruiter who reads a different language than the
+ * interview was held in. Returns one entry per turn.
+ */
+export const translateTranscript = (transcript: InterviewTranscript, fromLanguage: string, toLanguage: string) =>
+  runTask('translateTranscript', { transcript, fromLanguage, toLanguage }, evaluation => requestTranslations(transcript, fromLanguage, toLanguage, evaluation));
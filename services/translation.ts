@@ -0,0 +1,21 @@
+import { InterviewTranscript } from '../types';
+import type { EvaluationProvider } from './llm/types';
+
+/** Asks the model for one translation per transcript turn; turns it skipped come back empty. */
+export async function requestTranslations(transcript: InterviewTranscript, fromLanguage: string, toLanguage: string, evaluation: EvaluationProvider): Promise<string[]> {
+  const turns = transcript.turns.map((turn, idx) => `${idx + 1}. ${turn.text.trim()}`).join('\n');
+  const data = await evaluation.generateStructured<{ translations?: string[] }>({
+    prompt: `Translate each numbered line of this interview transcript from ${fromLanguage} to ${toLanguage}.
+Return exactly one translation per line, in the same order, without the numbers. Keep technical terms and code as they are.
+${turns}`,
+    schema: {
+      type: 'object',
+      properties: {
+        translations: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['translations'],
+    },
+  });
+  const translations = data.translations || [];
+  return transcript.turns.map((_, idx) => translations[idx] || '');
+}
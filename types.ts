@@ -1,9 +1,15 @@
 export enum AppStep {
   FORM = 'FORM',
+  JD_ANALYSIS = 'JD_ANALYSIS',
   INSTRUCTIONS = 'INSTRUCTIONS',
   INTERVIEW = 'INTERVIEW',
   EVALUATING = 'EVALUATING',
   RESULT = 'RESULT',
+  DASHBOARD = 'DASHBOARD',
+  INVITE = 'INVITE', // recruiter: share the candidate link
+  INVITE_INVALID = 'INVITE_INVALID', // candidate: link expired, used or malformed
+  SUBMITTING = 'SUBMITTING', // candidate: sending the interview to the API server
+  SUBMITTED = 'SUBMITTED', // candidate: interview handed in, results go to the recruiter
 }
 
 export interface CandidateInfo {
@@ -11,6 +17,122 @@ export interface CandidateInfo {
   jobDescription: string;
   field: string;
   language: string;
+  recordSession?: boolean; // opt-in audio/video recording of the interview
+  templateId?: string; // InterviewTemplate to run; defaults to the standard template
+  mustAskQuestionIds?: string[]; // must-ask selection of interviews set up before questionBank existed
+  questionBank?: BankQuestion[]; // the role's bank when the interview was set up, must-ask flags applied
+  resume?: ResumeProfile;
+  skillMatrix?: SkillMatrix; // recruiter-approved analysis of the job description
+}
+
+// A recruiter's interview configuration, kept on the API server; the candidate's link only names it
+export interface Invitation {
+  id: string;
+  candidate: CandidateInfo; // full configuration on the server; the candidate's copy has no JD
+  createdAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+  redeemedAt?: number; // epoch ms, when the candidate started the interview
+}
+
+export type InvitationStatus = 'valid' | 'expired' | 'used' | 'invalid';
+
+export type OpenedInvitation =
+  | { status: 'valid'; invitation: Invitation }
+  | { status: Exclude<InvitationStatus, 'valid'>; invitation?: Invitation };
+
+export type SeniorityLevel = 'intern' | 'junior' | 'mid' | 'senior' | 'staff';
+
+// Structured requirements extracted from the job description
+export interface SkillMatrix {
+  mustHave: string[];
+  niceToHave: string[];
+  seniority: SeniorityLevel;
+  domain: string; // business domain, e.g. "Fintech"; "General" when the JD does not say
+}
+
+export interface SkillCoverage {
+  skill: string; // a must-have skill from the approved SkillMatrix
+  demonstrated: boolean;
+  note: string;
+}
+
+export interface ResumeEntry {
+  heading: string; // e.g. "Senior Engineer, Acme Corp" or a project name
+  period?: string; // e.g. "2021 - Present"
+  details: string[]; // bullet points under the heading
+}
+
+// Structured view of an uploaded resume, extracted in the browser
+export interface ResumeProfile {
+  fileName: string;
+  skills: string[];
+  experience: ResumeEntry[];
+  projects: ResumeEntry[];
+  excerpt?: string; // leading text, kept only when no sections could be recognised
+}
+
+export type ResumeClaimCategory = 'skill' | 'experience' | 'project';
+
+export type ResumeClaimStatus = 'demonstrated' | 'partially_demonstrated' | 'not_demonstrated' | 'not_discussed';
+
+export interface ResumeClaimCheck {
+  claim: string;
+  category: ResumeClaimCategory;
+  status: ResumeClaimStatus;
+  evidence: string; // what the candidate said (or failed to say) about it
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface BankQuestion {
+  id: string;
+  text: string;
+  difficulty: QuestionDifficulty;
+  expectedAnswer: string; // notes on what a good answer covers
+  required: boolean; // must-ask by default for this role
+}
+
+export type TranscriptSpeaker = 'user' | 'ai';
+
+export type InterviewPhase = 'intro' | 'behavioral' | 'technical' | 'coding' | 'closing';
+
+export interface InterviewTemplatePhase {
+  phase: InterviewPhase;
+  questionCount: number; // 0 for intro/closing
+  timeBudgetSec: number;
+  guidance: string; // what the interviewer should focus on in this phase
+}
+
+export interface InterviewTemplate {
+  id: string;
+  name: string;
+  description: string;
+  personaName: string;
+  voiceName: string; // Gemini prebuilt voice
+  phases: InterviewTemplatePhase[];
+  closing: {
+    message: string;
+    allowCandidateQuestions: boolean; // invite questions before ending
+  };
+}
+
+export interface TranscriptTurn {
+  id: number;
+  speaker: TranscriptSpeaker;
+  text: string;
+  startedAt: number; // epoch ms when the first chunk of this turn arrived
+  endedAt?: number; // set once the turn is closed
+  isFinal: boolean; // false while transcription chunks are still streaming in
+  questionIndex: number | null; // 0-based question this turn belongs to, null before the first question
+  phase: InterviewPhase;
+  interrupted?: boolean; // AI turn cut off by the candidate
+}
+
+export interface InterviewTranscript {
+  startedAt: number;
+  endedAt?: number;
+  turns: TranscriptTurn[];
+  questionPhases?: InterviewPhase[]; // planned phase of each question, from the template
 }
 
 export interface QuestionReview {
@@ -18,12 +140,284 @@ export interface QuestionReview {
   candidateAnswerSummary: string;
   rating: number; // 1-10
   feedback: string;
+  bankQuestionId?: string; // set when the question came from the role's question bank
+  expectedAnswerComparison?: string; // how the answer measured up to the bank's expected-answer notes
+}
+
+export interface RubricLevel {
+  minScore: number; // lowest 1-10 score that earns this level
+  label: string; // e.g. "Strong"
+  descriptor: string; // what an answer at this level looks like
+}
+
+export interface RubricCompetency {
+  id: string;
+  name: string;
+  description: string;
+  weight: number; // relative; weights in a rubric are normalised when scoring
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  roles: string[]; // PREDEFINED_ROLES this rubric applies to
+  competencies: RubricCompetency[];
+  passThreshold: number; // weighted 1-10 score required to pass
+}
+
+export interface CompetencyScore {
+  competencyId: string;
+  name: string;
+  weight: number;
+  score: number; // 1-10
+  level: string;
+  rationale: string;
+  evidence: string[]; // verbatim quotes from the candidate
+}
+
+export type AnswerDepth = 'shallow' | 'adequate' | 'strong';
+
+export type DifficultyAdjustment = 'escalate' | 'hold' | 'deescalate' | 'probe';
+
+// One live, in-session assessment made by the interviewer through the scoreAnswer tool
+export interface AnswerAssessment {
+  questionIndex: number; // 0-based, as numbered by the interviewer
+  difficulty: QuestionDifficulty; // difficulty of the question that was answered
+  score: number; // 1-10
+  depth: AnswerDepth;
+  rationale: string;
+  adjustment: DifficultyAdjustment;
+  nextDifficulty: QuestionDifficulty;
+  isFollowUp: boolean; // the answer was to a probing follow-up rather than a new question
+  timestamp: number; // epoch ms
+}
+
+export type CodingLanguage = 'javascript' | 'typescript';
+
+export interface CodingTestCase {
+  name: string;
+  args: unknown[]; // passed to the solution function in order
+  expected: unknown; // compared structurally with the return value
+}
+
+// A problem from the coding catalogue the interviewer can issue during the coding phase
+export interface CodingProblem {
+  id: string;
+  title: string;
+  difficulty: QuestionDifficulty;
+  prompt: string; // shown to the candidate above the editor
+  functionName: string; // the function the tests call
+  starterCode: Record<CodingLanguage, string>;
+  tests: CodingTestCase[];
+}
+
+export interface CodingTestResult {
+  name: string;
+  passed: boolean;
+  expected: string; // JSON, for display
+  actual?: string; // JSON of the return value; absent when the call threw
+  error?: string;
+  durationMs: number;
+}
+
+export interface CodingRun {
+  timestamp: number; // epoch ms
+  language: CodingLanguage;
+  code: string; // what was run; the final code may differ
+  results: CodingTestResult[];
+  logs: string[]; // console output from the candidate's code
+  error?: string; // compile error, timeout or missing function; no tests ran
+}
+
+// The interviewer's live review of the final code, made through the reviewCode tool
+export interface CodingReview {
+  score: number; // 1-10
+  summary: string;
+  strengths: string[];
+  concerns: string[];
+}
+
+export interface CodingSubmission {
+  problem: CodingProblem;
+  language: CodingLanguage;
+  code: string; // final editor contents
+  startedAt: number; // epoch ms the problem was issued
+  submittedAt?: number; // set when the candidate pressed submit
+  runCount: number;
+  lastRun?: CodingRun;
+  review?: CodingReview;
+}
+
+export type ProctoringEventType =
+  | 'tab_hidden'
+  | 'window_blur'
+  | 'fullscreen_exit'
+  | 'copy'
+  | 'paste'
+  | 'cut'
+  | 'context_menu'
+  | 'camera_ended'
+  | 'camera_muted'
+  | 'mic_ended'
+  | 'mic_muted'
+  | 'no_speech'
+  | CameraFinding;
+
+// Presence problems found by on-device camera frame analysis
+export type CameraFinding = 'no_face' | 'multiple_faces' | 'camera_covered' | 'looking_away';
+
+export type ProctoringAction = 'log' | 'warn' | 'terminate';
+
+export interface ProctoringEvent {
+  type: ProctoringEventType;
+  timestamp: number; // epoch ms
+  action: ProctoringAction;
+  detail?: string;
+  snapshot?: string; // small JPEG data URL of the camera frame, for camera findings
+}
+
+export interface ProctoringPolicy {
+  // What happens when each event type is observed
+  actions: Record<ProctoringEventType, ProctoringAction>;
+  // Warnings tolerated before the next 'warn' event terminates the session
+  maxWarnings: number;
+  // Repeats of the same event type within this window are ignored (e.g. blur + visibilitychange)
+  dedupeWindowMs: number;
+}
+
+export interface CameraPolicy {
+  sampleIntervalMs: number;
+  // How long each finding must persist before it becomes a proctoring event; severity comes from ProctoringPolicy.actions
+  thresholdsMs: Record<CameraFinding, number>;
+}
+
+// 'pending' while the model call is outstanding (or was cut off), 'failed' once every attempt was rejected
+export type EvaluationStatus = 'complete' | 'pending' | 'failed';
+
+// The overall rating one grading pass would have given on its own
+export interface EvaluationPassRating {
+  kind: 'holistic' | 'per_question';
+  rating: number; // 1-10
+  passed: boolean;
 }
 
 export interface InterviewResult {
   rating: number; // 1-10
   feedback: string;
   passed: boolean;
+  evaluationStatus?: EvaluationStatus; // absent on disqualifications and on results saved before it existed
+  evaluationError?: string; // why the last attempt was rejected, when 'failed'
+  evaluationIssues?: string[]; // parts of the model's response that failed validation and were dropped
+  confidence?: number; // 0-1, agreement between the independent grading passes
+  needsHumanReview?: boolean; // low confidence or a split verdict
+  reviewReasons?: string[]; // why the passes disagreed
+  passRatings?: EvaluationPassRating[];
   questions?: QuestionReview[];
+  competencies?: CompetencyScore[];
+  rubricId?: string;
+  passThreshold?: number;
+  missedMustAskQuestions?: string[]; // must-ask bank questions the interviewer never asked
+  difficultyTrajectory?: AnswerAssessment[];
+  resumeClaims?: ResumeClaimCheck[];
+  skillCoverage?: SkillCoverage[];
+  connectionOutages?: ConnectionOutage[];
+  silences?: SilencePeriod[];
+  faceDetectionAvailable?: boolean; // false: only the covered-camera check ran
+  coding?: CodingSubmission;
   terminationReason?: string; // e.g., "Cheating Detected"
-}
\ No newline at end of file
+  proctoringEvents?: ProctoringEvent[];
+}
+
+// A period where the live connection was down and the session tried to reconnect
+export interface ConnectionOutage {
+  startedAt: number; // epoch ms
+  endedAt?: number;
+  attempts: number; // reconnect attempts made during the outage
+  recovered: boolean;
+}
+
+// A gap where the candidate was expected to answer and stayed silent
+export interface SilencePeriod {
+  startedAt: number; // epoch ms
+  durationMs: number;
+  reprompted: boolean; // the interviewer was nudged to check in
+}
+
+export interface SessionRecording {
+  blob: Blob;
+  mimeType: string;
+  startedAt: number; // epoch ms of the first recorded frame, used to seek to transcript turns
+  durationMs: number;
+}
+
+// Everything InterviewSession hands back when the session ends
+export interface InterviewSessionOutcome {
+  transcript: InterviewTranscript;
+  terminationReason?: string;
+  proctoringEvents: ProctoringEvent[];
+  difficultyTrajectory: AnswerAssessment[];
+  connectionOutages: ConnectionOutage[];
+  silences: SilencePeriod[];
+  faceDetectionAvailable: boolean;
+  coding?: CodingSubmission; // set when a coding problem was issued
+  recording?: SessionRecording;
+}
+
+// What the candidate's browser sends the API server when the session ends; the recording is uploaded on its own
+export type InterviewSubmission = Omit<InterviewSessionOutcome, 'recording'>;
+
+export type HiringDecision = 'advance' | 'hold' | 'reject';
+
+// What a reviewer comment is attached to; turns are identified by TranscriptTurn.id
+export type ReviewAnchor =
+  | { kind: 'turn'; turnId: number }
+  | { kind: 'question'; questionIndex: number };
+
+export interface ReviewComment {
+  id: string;
+  anchor: ReviewAnchor;
+  text: string;
+  author: string;
+  createdAt: number; // epoch ms
+}
+
+export interface ScoreOverride {
+  score: number; // 1-10
+  justification: string;
+  author: string;
+  at: number; // epoch ms
+}
+
+export interface ReviewAuditEntry {
+  at: number; // epoch ms
+  author: string;
+  action: 'override_overall' | 'override_question' | 'revert_override' | 'comment' | 'remove_comment' | 'decision';
+  target: string; // e.g. "Overall", "Question 2"
+  from?: string;
+  to?: string;
+  note?: string; // the justification or comment text
+}
+
+// A reviewer's layer over the AI evaluation. The InterviewResult itself is never changed,
+// so the AI's scores stay available next to every override.
+export interface HumanReview {
+  overall?: ScoreOverride & { passed: boolean };
+  questions: Record<number, ScoreOverride>; // keyed by question index
+  comments: ReviewComment[];
+  decision?: { value: HiringDecision; note: string; author: string; at: number };
+  audit: ReviewAuditEntry[]; // oldest first
+}
+
+export interface InterviewRecord {
+  id: string;
+  candidate: CandidateInfo;
+  transcript: InterviewTranscript;
+  result: InterviewResult;
+  terminationReason?: string;
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+  hasRecording?: boolean; // blob lives in the separate recordings store
+  invitationId?: string; // set when the candidate came in through an invitation link
+  review?: HumanReview;
+}
@@ -0,0 +1,112 @@
+import { AnswerAssessment, AnswerDepth, DifficultyAdjustment, QuestionDifficulty } from '../types';
+import { ToolDeclaration } from '../services/llm';
+
+export const DIFFICULTY_LEVELS: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+export const STARTING_DIFFICULTY: QuestionDifficulty = 'medium';
+
+const ANSWER_DEPTHS: AnswerDepth[] = ['shallow', 'adequate', 'strong'];
+const ESCALATE_AT = 8;
+const DEESCALATE_AT = 4;
+// One probing follow-up per question; after that the interviewer moves on regardless
+const MAX_PROBES_PER_QUESTION = 1;
+
+export const ADJUSTMENT_LABELS: Record<DifficultyAdjustment, string> = {
+  escalate: 'Harder',
+  hold: 'Same level',
+  deescalate: 'Easier',
+  probe: 'Follow-up',
+};
+
+export function buildScoreAnswerTool(): ToolDeclaration {
+  return {
+    name: "scoreAnswer",
+    description: "Records your assessment of the candidate's answer to a technical question and returns the difficulty for what you ask next. Call it silently after every technical answer, before you speak again.",
+    parameters: {
+      type: 'object',
+      properties: {
+        questionNumber: { type: 'integer', description: 'Number of the question that was answered, counting from 1. A follow-up keeps the number of its question.' },
+        difficulty: { type: 'string', enum: DIFFICULTY_LEVELS, description: 'Difficulty of the question that was answered.' },
+        score: { type: 'integer', description: 'Answer quality from 1 (no answer) to 10 (excellent).' },
+        depth: { type: 'string', enum: ANSWER_DEPTHS, description: "'shallow' if the answer stayed generic or skipped the reasoning." },
+        rationale: { type: 'string', description: 'One sentence on why.' },
+      },
+      required: ['questionNumber', 'difficulty', 'score', 'depth', 'rationale'],
+    },
+  };
+}
+
+/** Protocol text for the live session prompt. */
+export function describeAdaptiveProtocol(): string {
+  return `**ADAPTIVE DIFFICULTY:**
+- Start the technical questions at ${STARTING_DIFFICULTY} difficulty.
+- After each technical answer, call the 'scoreAnswer' tool before speaking. Do not mention scores to the candidate.
+- Its response tells you the difficulty of your next question and whether to ask a probing follow-up first. Follow it.
+- Follow-ups do not count towards the total number of questions.`;
+}
+
+const shift = (difficulty: QuestionDifficulty, by: number): QuestionDifficulty => {
+  const index = DIFFICULTY_LEVELS.indexOf(difficulty) + by;
+  return DIFFICULTY_LEVELS[Math.max(0, Math.min(DIFFICULTY_LEVELS.length - 1, index))];
+};
+
+const pick = <T extends string>(value: unknown, options: T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+/**
+ * Turns a scoreAnswer tool call into an assessment and decides where to go next.
+ * Shallow answers get a follow-up first; otherwise strong scores escalate and weak ones de-escalate.
+ * `fallbackQuestionIndex` is used when the model does not give a usable question number.
+ */
+export function assessAnswer(
+  args: Record<string, unknown>,
+  previous: AnswerAssessment[],
+  fallbackQuestionIndex: number,
+  timestamp: number = Date.now(),
+): AnswerAssessment {
+  const last = previous[previous.length - 1];
+  const questionNumber = Number(args.questionNumber);
+  const questionIndex = Number.isInteger(questionNumber) && questionNumber >= 1 ? questionNumber - 1 : Math.max(0, fallbackQuestionIndex);
+  const difficulty = pick(args.difficulty, DIFFICULTY_LEVELS, last?.nextDifficulty || STARTING_DIFFICULTY);
+  const score = Math.max(1, Math.min(10, Math.round(Number(args.score)) || 1));
+  const depth = pick(args.depth, ANSWER_DEPTHS, 'adequate');
+  const probes = previous.filter(a => a.questionIndex === questionIndex && a.adjustment === 'probe').length;
+
+  let adjustment: DifficultyAdjustment;
+  if (depth === 'shallow' && score > DEESCALATE_AT && probes < MAX_PROBES_PER_QUESTION) adjustment = 'probe';
+  else if (score >= ESCALATE_AT) adjustment = 'escalate';
+  else if (score <= DEESCALATE_AT) adjustment = 'deescalate';
+  else adjustment = 'hold';
+
+  const nextDifficulty = adjustment === 'escalate' ? shift(difficulty, 1)
+    : adjustment === 'deescalate' ? shift(difficulty, -1)
+    : difficulty;
+
+  return {
+    questionIndex,
+    difficulty,
+    score,
+    depth,
+    rationale: typeof args.rationale === 'string' ? args.rationale : '',
+    adjustment,
+    nextDifficulty,
+    isFollowUp: last?.adjustment === 'probe' && last.questionIndex === questionIndex,
+    timestamp,
+  };
+}
+
+/** Tool response sent back to the interviewer for an assessment. */
+export function adjustmentInstruction(assessment: AnswerAssessment): Record<string, unknown> {
+  const instructions: Record<DifficultyAdjustment, string> = {
+    probe: 'The answer was shallow. Ask one probing follow-up on the same topic that asks for specifics or reasoning, then continue.',
+    escalate: `Strong answer. Make the next question ${assessment.nextDifficulty}.`,
+    deescalate: `The candidate struggled. Make the next question ${assessment.nextDifficulty}.`,
+    hold: `Keep the next question at ${assessment.nextDifficulty} difficulty.`,
+  };
+  return { nextDifficulty: assessment.nextDifficulty, action: assessment.adjustment, instruction: instructions[assessment.adjustment] };
+}
+
+/** Hardest level at which the candidate gave at least an acceptable answer. */
+export function highestDifficultyReached(trajectory: AnswerAssessment[]): QuestionDifficulty | null {
+  const held = trajectory.filter(a => a.score > DEESCALATE_AT).map(a => DIFFICULTY_LEVELS.indexOf(a.difficulty));
+  return held.length ? DIFFICULTY_LEVELS[Math.max(...held)] : null;
+}
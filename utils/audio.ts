@@ -1,3 +1,6 @@
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import type { CaptureChunk, CaptureOptions } from './captureWorklet';
+
 export interface AudioBlob {
   data: string;
   mimeType: string;
@@ -45,58 +48,42 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function downsampleBuffer(buffer: Float32Array, inputSampleRate: number, outputSampleRate: number = 16000): Float32Array {
-  if (!buffer || buffer.length === 0) return new Float32Array(0);
-  if (inputSampleRate === outputSampleRate) {
-    return buffer;
-  }
-  
-  const sampleRateRatio = inputSampleRate / outputSampleRate;
-  const newLength = Math.ceil(buffer.length / sampleRateRatio);
-  const result = new Float32Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  
-  while (offsetResult < newLength) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-    
-    let accum = 0, count = 0;
-    // Determine end of current averaging window, clamped to buffer end
-    const currentEnd = Math.min(nextOffsetBuffer, buffer.length);
-    
-    for (let i = offsetBuffer; i < currentEnd; i++) {
-      accum += buffer[i];
-      count++;
-    }
-    
-    // If count is 0 (upsampling edge case), just repeat previous or use current index
-    if (count === 0 && offsetBuffer < buffer.length) {
-        result[offsetResult] = buffer[offsetBuffer];
-    } else {
-        result[offsetResult] = count > 0 ? accum / count : 0;
-    }
-    
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
-  }
-  return result;
+export const CAPTURE_CHUNK_MS = 100;
+
+export interface MicCapture {
+  node: AudioWorkletNode;
+  stop: () => void;
 }
 
-export function createBlob(data: Float32Array, sampleRate: number = 16000): AudioBlob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  
-  for (let i = 0; i < l; i++) {
-    // Fallback to 0 if NaN/Infinity to prevent invalid audio frames
-    const val = data[i] || 0;
-    // Clamp the value between -1.0 and 1.0 to prevent integer overflow distortion
-    const s = Math.max(-1, Math.min(1, val));
-    // Convert to 16-bit PCM
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  
+/**
+ * Resampling, PCM16 encoding and chunking run in an AudioWorklet (see captureWorklet.ts), so the
+ * main thread only receives ready-to-send CAPTURE_CHUNK_MS chunks instead of processing every raw buffer.
+ */
+export async function createMicCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  onChunk: (chunk: AudioBlob, rms: number) => void,
+  sampleRate: number = 16000,
+): Promise<MicCapture> {
+  await ctx.audioWorklet.addModule(captureWorkletUrl);
+  const options: CaptureOptions = { targetSampleRate: sampleRate, chunkMs: CAPTURE_CHUNK_MS };
+  const node = new AudioWorkletNode(ctx, 'mic-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: options,
+  });
+  const mimeType = `audio/pcm;rate=${sampleRate}`;
+  node.port.onmessage = (e: MessageEvent<CaptureChunk>) => onChunk({ data: e.data.data, mimeType }, e.data.rms);
+  source.connect(node);
+
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: `audio/pcm;rate=${sampleRate}`,
+    node,
+    stop: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(node); } catch (e) {}
+      node.disconnect();
+    },
   };
 }
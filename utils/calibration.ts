@@ -0,0 +1,81 @@
+import { EvaluationPassRating, QuestionReview, Rubric } from '../types';
+import { RawCompetency } from './evaluationPayload';
+import { formatScore, scoreAgainstRubric } from './rubrics';
+
+// Points of disagreement (on the 1-10 scale) at which confidence reaches zero
+const MAX_DISAGREEMENT = 4;
+// Below this a recruiter should read the transcript before acting on the verdict
+export const LOW_CONFIDENCE = 0.6;
+// Confidence when a pass is missing and agreement could only be partly checked
+const UNCHECKED_CONFIDENCE_CAP = 0.5;
+
+export interface CalibratedEvaluation {
+  competencies: RawCompetency[];
+  confidence: number; // 0-1
+  needsHumanReview: boolean;
+  reviewReasons: string[];
+  passRatings: EvaluationPassRating[];
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Combines independent holistic passes and a per-question pass into one set of competency scores.
+ * Each competency gets the mean of the holistic scores, with the rationale of the pass closest to it.
+ * Confidence falls with the worst disagreement: between holistic passes on a competency, or between
+ * the holistic rating and the average per-question grade.
+ */
+export function calibratePasses(rubric: Rubric, holistic: RawCompetency[][], questions: QuestionReview[] | null): CalibratedEvaluation {
+  const reviewReasons: string[] = [];
+
+  const competencies = rubric.competencies.flatMap(c => {
+    const scores = holistic.flatMap(pass => pass.filter(s => s.competencyId === c.id));
+    if (!scores.length) return [];
+    const average = mean(scores.map(s => s.score));
+    const closest = scores.reduce((best, s) => (Math.abs(s.score - average) < Math.abs(best.score - average) ? s : best));
+    return [{ ...closest, score: average }];
+  });
+
+  const passRatings: EvaluationPassRating[] = holistic.map(pass => {
+    const { rating, passed } = scoreAgainstRubric(rubric, pass);
+    return { kind: 'holistic', rating, passed };
+  });
+
+  const spreads = rubric.competencies.map(c => {
+    const scores = holistic.flatMap(pass => pass.filter(s => s.competencyId === c.id).map(s => s.score));
+    return scores.length > 1 ? Math.max(...scores) - Math.min(...scores) : 0;
+  });
+  const holisticSpread = Math.max(0, ...spreads);
+  if (holisticSpread >= 2) reviewReasons.push(`Holistic passes disagreed by up to ${holisticSpread} points on a competency.`);
+
+  const verdictSplit = passRatings.some(p => p.passed) && passRatings.some(p => !p.passed);
+  if (verdictSplit) reviewReasons.push('Holistic passes disagreed on whether the candidate meets the bar.');
+
+  const overall = scoreAgainstRubric(rubric, competencies).rating;
+  let calibrationGap = 0;
+  if (questions?.length) {
+    const questionMean = mean(questions.map(q => q.rating));
+    passRatings.push({ kind: 'per_question', rating: questionMean, passed: questionMean >= rubric.passThreshold });
+    calibrationGap = Math.abs(overall - questionMean);
+    if (calibrationGap >= 2) reviewReasons.push(`Per-question grades average ${formatScore(questionMean)}, against an overall rating of ${formatScore(overall)}.`);
+  }
+
+  let confidence = Math.max(0, 1 - Math.max(holisticSpread, calibrationGap) / MAX_DISAGREEMENT);
+  if (holistic.length < 2) {
+    confidence = Math.min(confidence, UNCHECKED_CONFIDENCE_CAP);
+    reviewReasons.push('Only one holistic pass succeeded, so agreement could not be checked.');
+  }
+  if (!questions) {
+    confidence = Math.min(confidence, UNCHECKED_CONFIDENCE_CAP);
+    reviewReasons.push('Per-question grading failed, so the overall rating could not be cross-checked.');
+  }
+  confidence = Math.round(confidence * 100) / 100;
+
+  return {
+    competencies,
+    confidence,
+    needsHumanReview: confidence < LOW_CONFIDENCE || verdictSplit,
+    reviewReasons,
+    passRatings,
+  };
+}
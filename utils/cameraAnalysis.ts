@@ -0,0 +1,202 @@
+import { CameraFinding, CameraPolicy } from '../types';
+
+export const DEFAULT_CAMERA_POLICY: CameraPolicy = {
+  sampleIntervalMs: 1000,
+  // How long a finding must persist before it is reported
+  thresholdsMs: {
+    no_face: 5000,
+    multiple_faces: 2000,
+    camera_covered: 3000,
+    looking_away: 8000,
+  },
+};
+
+const FRAME_WIDTH = 160;
+const FRAME_HEIGHT = 120;
+const DARK_MEAN = 20; // 0-255 luminance; a covered lens or black feed sits well below this
+const FLAT_STDDEV = 6; // a uniform frame (tape, finger, blank feed) has almost no contrast
+const YAW_LIMIT = 0.35; // nose offset from the eye midpoint, relative to eye distance
+const OFF_CENTRE_LIMIT = 0.3; // face centre distance from frame centre, relative to frame width
+const MAX_SNAPSHOTS = 12;
+
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: { type: string; locations: { x: number; y: number }[] }[];
+}
+
+interface FaceDetector {
+  detect: (image: HTMLCanvasElement) => Promise<DetectedFace[]>;
+}
+// Shape Detection API; not in the DOM lib and only present in some Chromium builds
+type NativeFaceDetectorClass = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => FaceDetector;
+
+export interface CameraMonitorCallbacks {
+  onFinding: (finding: CameraFinding, detail: string, snapshot?: string) => void;
+}
+
+export interface CameraMonitor {
+  start: () => void;
+  stop: () => void;
+  // False until a face detector is ready, and for good if none loads; only the covered/black check runs then
+  readonly hasFaceDetection: boolean;
+}
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Yaw proxy from landmarks when available, otherwise how far the face sits from the frame centre
+function isLookingAway(face: DetectedFace, frameWidth: number): boolean {
+  const point = (type: string) => face.landmarks?.filter(l => l.type === type).flatMap(l => l.locations) || [];
+  const eyes = point('eye');
+  const nose = point('nose');
+  if (eyes.length >= 2 && nose.length > 0) {
+    const eyeMid = average(eyes.map(p => p.x));
+    const eyeDistance = Math.max(...eyes.map(p => p.x)) - Math.min(...eyes.map(p => p.x));
+    if (eyeDistance > 0) return Math.abs(average(nose.map(p => p.x)) - eyeMid) / eyeDistance > YAW_LIMIT;
+  }
+  const box = face.boundingBox;
+  return Math.abs(box.x + box.width / 2 - frameWidth / 2) / frameWidth > OFF_CENTRE_LIMIT;
+}
+
+// Where the browser has no FaceDetector: face-api's tiny detector and landmark models, which ship
+// with the app's assets and run on-device like the native one
+async function loadBundledFaceDetector(): Promise<FaceDetector> {
+  const [faceapi, detectorManifest, detectorWeights, landmarkManifest, landmarkWeights] = await Promise.all([
+    import('@vladmandic/face-api'),
+    import('@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json?url'),
+    import('@vladmandic/face-api/model/tiny_face_detector_model.bin?url'),
+    import('@vladmandic/face-api/model/face_landmark_68_tiny_model-weights_manifest.json?url'),
+    import('@vladmandic/face-api/model/face_landmark_68_tiny_model.bin?url'),
+  ]);
+  type WeightSpecs = Parameters<typeof faceapi.tf.io.decodeWeights>[1];
+  const readWeights = async (manifestUrl: string, weightsUrl: string) => {
+    const [groups, data] = await Promise.all([
+      fetch(manifestUrl).then(r => r.json() as Promise<{ weights: WeightSpecs }[]>),
+      fetch(weightsUrl).then(r => r.arrayBuffer()),
+    ]);
+    return faceapi.tf.io.decodeWeights(data, groups.flatMap(group => group.weights));
+  };
+
+  faceapi.nets.tinyFaceDetector.loadFromWeightMap(await readWeights(detectorManifest.default, detectorWeights.default));
+  faceapi.nets.faceLandmark68TinyNet.loadFromWeightMap(await readWeights(landmarkManifest.default, landmarkWeights.default));
+  const options = new faceapi.TinyFaceDetectorOptions({ inputSize: FRAME_WIDTH, scoreThreshold: 0.5 });
+
+  return {
+    detect: async (image) => {
+      const faces = await faceapi.detectAllFaces(image, options).withFaceLandmarks(true);
+      return faces.map(({ detection: { box }, landmarks }) => ({
+        boundingBox: new DOMRectReadOnly(box.x, box.y, box.width, box.height),
+        landmarks: [
+          { type: 'eye', locations: [...landmarks.getLeftEye(), ...landmarks.getRightEye()] },
+          { type: 'nose', locations: landmarks.getNose() },
+        ],
+      }));
+    },
+  };
+}
+
+/**
+ * Samples frames from the interview's video element and reports presence problems as they
+ * persist past the policy's thresholds. Everything runs on-device; frames never leave the page.
+ */
+export function createCameraMonitor(video: HTMLVideoElement, callbacks: CameraMonitorCallbacks, policy: CameraPolicy = DEFAULT_CAMERA_POLICY): CameraMonitor {
+  const FaceDetectorClass = (window as unknown as { FaceDetector?: NativeFaceDetectorClass }).FaceDetector;
+  let detector: FaceDetector | null = null;
+  try {
+    detector = FaceDetectorClass ? new FaceDetectorClass({ maxDetectedFaces: 3, fastMode: true }) : null;
+  } catch (e) {
+    detector = null;
+  }
+  // Face checks start once the model is loaded; frames sampled before that get the covered check only
+  if (!detector) {
+    loadBundledFaceDetector()
+      .then(loaded => { detector = loaded; })
+      .catch(error => console.error("Failed to load face detection model", error));
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAME_WIDTH;
+  canvas.height = FRAME_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  // When each finding was first seen in the current streak, and whether that streak was reported
+  const since: Partial<Record<CameraFinding, number>> = {};
+  const reported = new Set<CameraFinding>();
+  let snapshots = 0;
+  let interval = 0;
+  let busy = false;
+
+  const snapshot = () => {
+    if (snapshots >= MAX_SNAPSHOTS) return undefined;
+    snapshots++;
+    return canvas.toDataURL('image/jpeg', 0.6);
+  };
+
+  const observe = (findings: CameraFinding[], details: Partial<Record<CameraFinding, string>>, now: number) => {
+    (Object.keys(policy.thresholdsMs) as CameraFinding[]).forEach(finding => {
+      if (!findings.includes(finding)) {
+        delete since[finding];
+        reported.delete(finding);
+        return;
+      }
+      since[finding] ??= now;
+      if (reported.has(finding) || now - since[finding]! < policy.thresholdsMs[finding]) return;
+      reported.add(finding);
+      callbacks.onFinding(finding, `${details[finding] || 'Observed'} for ${Math.round((now - since[finding]!) / 1000)}s`, snapshot());
+    });
+  };
+
+  const sample = async () => {
+    if (busy || !ctx || video.readyState < 2) return;
+    busy = true;
+    try {
+      ctx.drawImage(video, 0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+      const { data } = ctx.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+      let sum = 0;
+      let sumSq = 0;
+      for (let i = 0; i < data.length; i += 4) {
+        const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        sum += luma;
+        sumSq += luma * luma;
+      }
+      const pixels = data.length / 4;
+      const mean = sum / pixels;
+      const stddev = Math.sqrt(Math.max(0, sumSq / pixels - mean * mean));
+      const now = Date.now();
+
+      // A covered camera also has no face; report only the cause
+      if (mean < DARK_MEAN || stddev < FLAT_STDDEV) {
+        observe(['camera_covered'], { camera_covered: mean < DARK_MEAN ? 'Feed is black or very dark' : 'Feed shows a flat, featureless image' }, now);
+        return;
+      }
+      if (!detector) {
+        observe([], {}, now);
+        return;
+      }
+
+      const faces = await detector.detect(canvas);
+      const findings: CameraFinding[] = [];
+      if (faces.length === 0) findings.push('no_face');
+      else if (faces.length > 1) findings.push('multiple_faces');
+      else if (isLookingAway(faces[0], FRAME_WIDTH)) findings.push('looking_away');
+      observe(findings, { no_face: 'No face in frame', multiple_faces: `${faces.length} faces in frame`, looking_away: 'Face turned away from the screen' }, now);
+    } catch (error) {
+      console.error("Camera frame analysis failed", error);
+    } finally {
+      busy = false;
+    }
+  };
+
+  return {
+    get hasFaceDetection() {
+      return !!detector;
+    },
+    start: () => {
+      if (interval) return;
+      interval = window.setInterval(sample, policy.sampleIntervalMs);
+    },
+    stop: () => {
+      clearInterval(interval);
+      interval = 0;
+    },
+  };
+}
@@ -0,0 +1,137 @@
+// AudioWorklet that turns microphone input into ready-to-send PCM16 chunks off the main thread.
+// Loaded through `?worker&url` (see createMicCapture in ./audio), so it must not import anything.
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+export interface CaptureOptions {
+  targetSampleRate: number;
+  chunkMs: number;
+}
+
+export interface CaptureChunk {
+  data: string; // base64 PCM16 mono at targetSampleRate
+  rms: number; // loudness of the chunk's input, for voice activity detection
+}
+
+const ZERO_CROSSINGS = 8; // kernel half-width, in zero crossings of the sinc
+const TABLE_RESOLUTION = 64; // kernel samples per input sample
+const CUTOFF = 0.45; // low-pass corner as a fraction of the lower sample rate
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// btoa is not available in the worklet scope
+const toBase64 = (bytes: Uint8Array): string => {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64[n >> 18] + BASE64[(n >> 12) & 63] + BASE64[(n >> 6) & 63] + BASE64[n & 63];
+  }
+  if (i < bytes.length) {
+    const n = (bytes[i] << 16) | ((i + 1 < bytes.length ? bytes[i + 1] : 0) << 8);
+    out += BASE64[n >> 18] + BASE64[(n >> 12) & 63] + (i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : '=') + '=';
+  }
+  return out;
+};
+
+/**
+ * Windowed-sinc resampler. The kernel is a low-pass at CUTOFF of the lower rate, so
+ * downsampling 48 kHz to 16 kHz does not fold everything above 8 kHz back into the speech band.
+ */
+class CaptureProcessor extends AudioWorkletProcessor {
+  private readonly ratio: number; // input samples per output sample
+  private readonly halfWidth: number; // kernel half-width in input samples
+  private readonly kernel: Float32Array;
+  private history = new Float32Array(4096);
+  private historyLength = 0;
+  private position = 0; // input index (within history) of the next output sample
+  private readonly chunk: Int16Array;
+  private chunkLength = 0;
+  private energy = 0;
+  private energyCount = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, chunkMs } = options.processorOptions as CaptureOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunk = new Int16Array(Math.round((targetSampleRate * chunkMs) / 1000));
+
+    const fc = (CUTOFF * Math.min(sampleRate, targetSampleRate)) / sampleRate; // cycles per input sample
+    this.halfWidth = ZERO_CROSSINGS / (2 * fc);
+    const size = Math.ceil(this.halfWidth * TABLE_RESOLUTION) + 2;
+    this.kernel = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const x = i / TABLE_RESOLUTION;
+      const sinc = x === 0 ? 1 : Math.sin(2 * Math.PI * fc * x) / (2 * Math.PI * fc * x);
+      const window = x >= this.halfWidth ? 0 : 0.5 + 0.5 * Math.cos((Math.PI * x) / this.halfWidth); // Hann
+      this.kernel[i] = 2 * fc * sinc * window;
+    }
+    this.position = this.halfWidth;
+  }
+
+  private append(input: Float32Array) {
+    if (this.historyLength + input.length > this.history.length) {
+      const grown = new Float32Array((this.historyLength + input.length) * 2);
+      grown.set(this.history.subarray(0, this.historyLength));
+      this.history = grown;
+    }
+    this.history.set(input, this.historyLength);
+    this.historyLength += input.length;
+  }
+
+  private sampleAt(t: number): number {
+    const first = Math.ceil(t - this.halfWidth);
+    const last = Math.floor(t + this.halfWidth);
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      sum += this.history[i] * this.kernel[Math.round(Math.abs(t - i) * TABLE_RESOLUTION)];
+    }
+    return sum;
+  }
+
+  private emit(sample: number) {
+    const s = Math.max(-1, Math.min(1, sample || 0));
+    this.chunk[this.chunkLength++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.chunkLength < this.chunk.length) return;
+
+    const message: CaptureChunk = {
+      data: toBase64(new Uint8Array(this.chunk.buffer)),
+      rms: Math.sqrt(this.energy / Math.max(1, this.energyCount)),
+    };
+    this.port.postMessage(message);
+    this.chunkLength = 0;
+    this.energy = 0;
+    this.energyCount = 0;
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input) return true;
+
+    for (let i = 0; i < input.length; i++) this.energy += input[i] * input[i];
+    this.energyCount += input.length;
+    this.append(input);
+
+    while (this.position + this.halfWidth < this.historyLength) {
+      this.emit(this.sampleAt(this.position));
+      this.position += this.ratio;
+    }
+
+    // Drop input that no future output sample can reach
+    const consumed = Math.floor(this.position - this.halfWidth);
+    if (consumed > 0) {
+      this.history.copyWithin(0, consumed, this.historyLength);
+      this.historyLength -= consumed;
+      this.position -= consumed;
+    }
+    return true;
+  }
+}
+
+registerProcessor('mic-capture', CaptureProcessor);
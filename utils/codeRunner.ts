@@ -0,0 +1,33 @@
+import CodeRunnerWorker from './codeRunner.worker.ts?worker';
+import type { RunRequest, RunResponse } from './codeRunner.worker';
+import { CodingLanguage, CodingProblem, CodingRun } from '../types';
+
+export const RUN_TIMEOUT_MS = 5000;
+
+/**
+ * Runs the candidate's code against the problem's tests in a throwaway Web Worker.
+ * The worker is terminated when it answers or after RUN_TIMEOUT_MS, whichever comes first.
+ */
+export function runCode(code: string, language: CodingLanguage, problem: CodingProblem): Promise<CodingRun> {
+  const timestamp = Date.now();
+  const worker = new CodeRunnerWorker();
+
+  return new Promise(resolve => {
+    const finish = (response: RunResponse) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ timestamp, language, code, ...response });
+    };
+    const timer = setTimeout(() => finish({ results: [], logs: [], error: `Timed out after ${RUN_TIMEOUT_MS / 1000}s. Check for an infinite loop.` }), RUN_TIMEOUT_MS);
+
+    worker.onmessage = (e: MessageEvent<RunResponse>) => finish(e.data);
+    worker.onerror = (e) => {
+      e.preventDefault();
+      finish({ results: [], logs: [], error: e.message || 'The code runner crashed.' });
+    };
+    const request: RunRequest = { code, language, functionName: problem.functionName, tests: problem.tests };
+    worker.postMessage(request);
+  });
+}
+
+export const passedCount = (run?: CodingRun): number => run?.results.filter(r => r.passed).length ?? 0;
@@ -0,0 +1,95 @@
+// Runs candidate code against a problem's test cases, off the main thread and away from the page.
+// A fresh worker is started for every run (see runCode in ./codeRunner) and terminated afterwards,
+// so globals the candidate defines never leak between runs and an endless loop only costs a timeout.
+import { transform } from 'sucrase';
+import type { CodingLanguage, CodingTestCase, CodingTestResult } from '../types';
+
+export interface RunRequest {
+  code: string;
+  language: CodingLanguage;
+  functionName: string;
+  tests: CodingTestCase[];
+}
+
+export interface RunResponse {
+  results: CodingTestResult[];
+  logs: string[];
+  error?: string;
+}
+
+const MAX_LOG_LINES = 50;
+
+// The worker has no DOM, but it can still reach the network; candidate code gets none of it
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker'];
+
+// Deleted from the global scope and the prototypes it inherits them from, since candidate code can
+// reach the global object through self, globalThis or Function('return this'). Returns what is left.
+const removeBlockedGlobals = (): string[] => {
+  for (let scope: object | null = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    BLOCKED_GLOBALS.forEach(name => Reflect.deleteProperty(scope!, name));
+  }
+  return BLOCKED_GLOBALS.filter(name => (self as unknown as Record<string, unknown>)[name] !== undefined);
+};
+
+const remainingGlobals = removeBlockedGlobals();
+
+const format = (value: unknown): string => {
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+const compile = (code: string, language: CodingLanguage): string =>
+  language === 'typescript' ? transform(code, { transforms: ['typescript'] }).code : code;
+
+const run = ({ code, language, functionName, tests }: RunRequest): RunResponse => {
+  if (remainingGlobals.length) return { results: [], logs: [], error: `The sandbox could not remove ${remainingGlobals.join(', ')}; the code was not run.` };
+  const logs: string[] = [];
+  const log = (...args: unknown[]) => {
+    if (logs.length < MAX_LOG_LINES) logs.push(args.map(a => (typeof a === 'string' ? a : format(a))).join(' '));
+  };
+  const sandboxConsole = { log, info: log, warn: log, error: log, debug: log };
+
+  let solution: unknown;
+  try {
+    const source = compile(code, language);
+    // Parse the candidate's code on its own first, so a syntax error points at their code, not the wrapper
+    new Function(source);
+    const factory = new Function('console', `"use strict";\n${source}\nreturn typeof ${functionName} === 'function' ? ${functionName} : undefined;`);
+    solution = factory(sandboxConsole);
+  } catch (err) {
+    return { results: [], logs, error: err instanceof Error ? `${err.name}: ${err.message}` : String(err) };
+  }
+  if (typeof solution !== 'function') {
+    return { results: [], logs, error: `Define a function named ${functionName}.` };
+  }
+
+  const results = tests.map((test): CodingTestResult => {
+    const started = performance.now();
+    try {
+      // Each test gets its own copy so an in-place mutation cannot affect the next one
+      const actual = solution(...structuredClone(test.args));
+      return { name: test.name, passed: isEqual(actual, test.expected), expected: format(test.expected), actual: format(actual), durationMs: performance.now() - started };
+    } catch (err) {
+      return { name: test.name, passed: false, expected: format(test.expected), error: err instanceof Error ? `${err.name}: ${err.message}` : String(err), durationMs: performance.now() - started };
+    }
+  });
+  return { results, logs };
+};
+
+self.onmessage = (e: MessageEvent<RunRequest>) => {
+  self.postMessage(run(e.data));
+};
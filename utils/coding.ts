@@ -0,0 +1,116 @@
+import { CodingProblem, CodingReview, CodingRun, CodingSubmission } from '../types';
+import { ToolDeclaration } from '../services/llm';
+import { CODING_PROBLEMS, describeCodingCatalogue } from './codingProblems';
+
+// Typing pauses this long before the interviewer gets a fresh editor snapshot
+export const SNAPSHOT_DEBOUNCE_MS = 4000;
+const MAX_REPORTED_FAILURES = 3;
+
+export function buildPresentCodingProblemTool(problems: CodingProblem[] = CODING_PROBLEMS): ToolDeclaration {
+  return {
+    name: "presentCodingProblem",
+    description: "Opens the shared code editor on the candidate's screen with a problem from the coding catalogue. Call it once, at the start of the coding phase, then explain the problem in your own words.",
+    parameters: {
+      type: 'object',
+      properties: {
+        problemId: { type: 'string', enum: problems.map(p => p.id), description: 'Catalogue id of the problem to issue.' },
+      },
+      required: ['problemId'],
+    },
+  };
+}
+
+export function buildReviewCodeTool(): ToolDeclaration {
+  return {
+    name: "reviewCode",
+    description: "Records your review of the candidate's final code. Call it silently once, after the candidate submitted and you discussed the solution, before moving on.",
+    parameters: {
+      type: 'object',
+      properties: {
+        score: { type: 'integer', description: 'Overall quality of the solution from 1 (nothing working) to 10 (correct, clean and well reasoned).' },
+        summary: { type: 'string', description: 'Two or three sentences on the approach, correctness and complexity.' },
+        strengths: { type: 'array', items: { type: 'string' } },
+        concerns: { type: 'array', items: { type: 'string' }, description: 'Bugs, missed edge cases, complexity or readability issues.' },
+      },
+      required: ['score', 'summary', 'strengths', 'concerns'],
+    },
+  };
+}
+
+/** Protocol text for the coding phase of the live session prompt. */
+export function describeCodingProtocol(): string {
+  return `   - Pick one problem from the catalogue below that suits the role and the difficulty you reached, and call 'presentCodingProblem' with its id. The editor opens on the candidate's screen with the problem statement and starter code.
+   - The candidate writes JavaScript or TypeScript and can run it against the test cases. Invite them to think aloud.
+   - Messages starting with [EDITOR] are snapshots of the candidate's code and latest test results. Do not read them aloud and do not comment on every snapshot. Use them when the candidate talks about their code, asks for help or seems stuck for a while. Give hints, never the solution.
+   - When an [EDITOR] message says the candidate submitted, discuss the solution: approach, time complexity, failing tests and edge cases. Then call 'reviewCode' silently and move on.
+   Catalogue:
+${describeCodingCatalogue().split('\n').map(line => `   ${line}`).join('\n')}`;
+}
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+export function parseCodingReview(args: Record<string, unknown>): CodingReview {
+  return {
+    score: Math.max(1, Math.min(10, Math.round(Number(args.score)) || 1)),
+    summary: typeof args.summary === 'string' ? args.summary : '',
+    strengths: strings(args.strengths),
+    concerns: strings(args.concerns),
+  };
+}
+
+/** One line per run, e.g. "4/6 tests passed. Failing: unclosed (expected false, got true)". */
+export function describeRun(run?: CodingRun): string {
+  if (!run) return 'Tests not run yet.';
+  if (run.error) return `Tests did not run: ${run.error}`;
+  const failing = run.results.filter(r => !r.passed);
+  const passed = `${run.results.length - failing.length}/${run.results.length} tests passed.`;
+  if (!failing.length) return passed;
+  const details = failing.slice(0, MAX_REPORTED_FAILURES)
+    .map(r => `${r.name} (expected ${r.expected}, ${r.error ? `threw ${r.error}` : `got ${r.actual}`})`)
+    .join('; ');
+  return `${passed} Failing: ${details}${failing.length > MAX_REPORTED_FAILURES ? '; ...' : ''}`;
+}
+
+const codeBlock = (submission: CodingSubmission) => `\`\`\`${submission.language}\n${submission.code}\n\`\`\``;
+
+export type SnapshotReason = 'edit' | 'run' | 'submit';
+
+/** Text input for the live session so the interviewer can see the editor. */
+export function describeEditorSnapshot(submission: CodingSubmission, reason: SnapshotReason): string {
+  const heading = reason === 'submit'
+    ? 'The candidate submitted their final solution. Discuss it now, then call reviewCode.'
+    : reason === 'run'
+      ? 'The candidate ran the tests.'
+      : "Snapshot of the candidate's editor.";
+  return `[EDITOR] ${heading}
+Problem: ${submission.problem.title} (${submission.language})
+${codeBlock(submission)}
+${describeRun(submission.lastRun)}`;
+}
+
+/** Appended to the resume instruction when the connection drops mid-exercise. */
+export function describeCodingForResume(submission: CodingSubmission): string {
+  const state = submission.review
+    ? 'The coding exercise is finished and reviewed; do not return to it.'
+    : submission.submittedAt
+      ? 'The candidate has submitted; discuss the solution, then call reviewCode.'
+      : 'The candidate is still working on it.';
+  return `\n\n**CODING EXERCISE IN PROGRESS:**
+The problem "${submission.problem.id}" is already open in the editor. Do NOT call presentCodingProblem again. ${state}
+${codeBlock(submission)}
+${describeRun(submission.lastRun)}`;
+}
+
+/** Coding section of the evaluation prompt. */
+export function describeCodingForEvaluation(submission: CodingSubmission): string {
+  const review = submission.review
+    ? `Interviewer's live review: ${submission.review.score}/10. ${submission.review.summary}`
+    : 'The interviewer did not review the code.';
+  return `Live coding exercise: ${submission.problem.title} (${submission.problem.difficulty}). ${submission.problem.prompt}
+Final code (${submission.language}${submission.submittedAt ? '' : ', not submitted'}, ${submission.runCount} test run${submission.runCount === 1 ? '' : 's'}):
+${codeBlock(submission)}
+${describeRun(submission.lastRun)}${submission.lastRun && submission.lastRun.code !== submission.code ? ' (from an earlier version of the code)' : ''}
+${review}
+Weigh the working code and the test results as evidence of problem solving and coding ability.`;
+}
@@ -0,0 +1,130 @@
+import { CodingLanguage, CodingProblem } from '../types';
+
+// Roles that get a live coding phase; other roles keep a voice-only interview
+export const CODING_ROLES = ['Frontend Engineer', 'Backend Engineer', 'Full Stack Developer', 'DevOps Engineer', 'QA Engineer'];
+
+export const CODING_LANGUAGES: { id: CodingLanguage; label: string }[] = [
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'typescript', label: 'TypeScript' },
+];
+
+export const CODING_PROBLEMS: CodingProblem[] = [
+  {
+    id: 'balanced-brackets',
+    title: 'Balanced Brackets',
+    difficulty: 'easy',
+    prompt: 'Write `isBalanced(s)` that returns true when every (, [ and { in the string is closed by the matching bracket in the right order. Other characters are ignored.',
+    functionName: 'isBalanced',
+    starterCode: {
+      javascript: 'function isBalanced(s) {\n  // your code here\n}\n',
+      typescript: 'function isBalanced(s: string): boolean {\n  // your code here\n}\n',
+    },
+    tests: [
+      { name: 'simple pair', args: ['()'], expected: true },
+      { name: 'nested mixed', args: ['{[()()]}'], expected: true },
+      { name: 'wrong order', args: ['([)]'], expected: false },
+      { name: 'unclosed', args: ['(('], expected: false },
+      { name: 'ignores text', args: ['fn(a[0], {b: 1})'], expected: true },
+      { name: 'empty string', args: [''], expected: true },
+    ],
+  },
+  {
+    id: 'flatten-deep',
+    title: 'Deep Flatten',
+    difficulty: 'easy',
+    prompt: 'Write `flattenDeep(items)` that flattens arbitrarily nested arrays into a single array, keeping the original order. Do not use Array.prototype.flat.',
+    functionName: 'flattenDeep',
+    starterCode: {
+      javascript: 'function flattenDeep(items) {\n  // your code here\n}\n',
+      typescript: 'function flattenDeep(items: unknown[]): unknown[] {\n  // your code here\n}\n',
+    },
+    tests: [
+      { name: 'already flat', args: [[1, 2, 3]], expected: [1, 2, 3] },
+      { name: 'one level', args: [[1, [2, 3], 4]], expected: [1, 2, 3, 4] },
+      { name: 'deep nesting', args: [[1, [2, [3, [4, [5]]]]]], expected: [1, 2, 3, 4, 5] },
+      { name: 'empty arrays', args: [[[], [[]], 1]], expected: [1] },
+      { name: 'keeps non-numbers', args: [['a', ['b', null]]], expected: ['a', 'b', null] },
+    ],
+  },
+  {
+    id: 'parse-query-string',
+    title: 'Parse a Query String',
+    difficulty: 'medium',
+    prompt: 'Write `parseQuery(query)` that turns a URL query string (with or without a leading "?") into an object. Decode percent-encoding and "+" as a space. A key that appears more than once maps to an array of its values in order; a key without "=" maps to an empty string.',
+    functionName: 'parseQuery',
+    starterCode: {
+      javascript: 'function parseQuery(query) {\n  // your code here\n}\n',
+      typescript: 'function parseQuery(query: string): Record<string, string | string[]> {\n  // your code here\n}\n',
+    },
+    tests: [
+      { name: 'single pair', args: ['?a=1'], expected: { a: '1' } },
+      { name: 'no leading ?', args: ['a=1&b=2'], expected: { a: '1', b: '2' } },
+      { name: 'repeated key', args: ['tag=x&tag=y&tag=z'], expected: { tag: ['x', 'y', 'z'] } },
+      { name: 'decoding', args: ['q=hello+world&city=S%C3%A3o%20Paulo'], expected: { q: 'hello world', city: 'São Paulo' } },
+      { name: 'flag without value', args: ['debug&v=2'], expected: { debug: '', v: '2' } },
+      { name: 'empty query', args: [''], expected: {} },
+    ],
+  },
+  {
+    id: 'merge-intervals',
+    title: 'Merge Intervals',
+    difficulty: 'medium',
+    prompt: 'Write `mergeIntervals(intervals)` that takes [start, end] pairs in any order and returns the merged, non-overlapping intervals sorted by start. Intervals that touch (end === next start) merge.',
+    functionName: 'mergeIntervals',
+    starterCode: {
+      javascript: 'function mergeIntervals(intervals) {\n  // your code here\n}\n',
+      typescript: 'function mergeIntervals(intervals: [number, number][]): [number, number][] {\n  // your code here\n}\n',
+    },
+    tests: [
+      { name: 'overlapping', args: [[[1, 3], [2, 6], [8, 10]]], expected: [[1, 6], [8, 10]] },
+      { name: 'unsorted input', args: [[[8, 10], [1, 4], [3, 5]]], expected: [[1, 5], [8, 10]] },
+      { name: 'touching', args: [[[1, 2], [2, 3]]], expected: [[1, 3]] },
+      { name: 'contained', args: [[[1, 10], [2, 3], [4, 5]]], expected: [[1, 10]] },
+      { name: 'empty', args: [[]], expected: [] },
+    ],
+  },
+  {
+    id: 'top-k-words',
+    title: 'Top K Frequent Words',
+    difficulty: 'medium',
+    prompt: 'Write `topKWords(words, k)` that returns the k most frequent words, most frequent first. Break ties alphabetically.',
+    functionName: 'topKWords',
+    starterCode: {
+      javascript: 'function topKWords(words, k) {\n  // your code here\n}\n',
+      typescript: 'function topKWords(words: string[], k: number): string[] {\n  // your code here\n}\n',
+    },
+    tests: [
+      { name: 'basic', args: [['a', 'b', 'a', 'c', 'b', 'a'], 2], expected: ['a', 'b'] },
+      { name: 'alphabetical ties', args: [['pear', 'apple', 'fig', 'apple', 'fig', 'pear'], 2], expected: ['apple', 'fig'] },
+      { name: 'k larger than distinct', args: [['x', 'y'], 5], expected: ['x', 'y'] },
+      { name: 'k of zero', args: [['x'], 0], expected: [] },
+    ],
+  },
+  {
+    id: 'rate-limiter',
+    title: 'Sliding Window Rate Limiter',
+    difficulty: 'hard',
+    prompt: 'Write `rateLimit(requests, limit, windowMs)`. `requests` is a list of { client, time } sorted by time (ms). Return an array of booleans: true when the request is allowed, i.e. the client has had fewer than `limit` allowed requests in the last `windowMs` ms (times in (time - windowMs, time]). Rejected requests do not count against the limit.',
+    functionName: 'rateLimit',
+    starterCode: {
+      javascript: 'function rateLimit(requests, limit, windowMs) {\n  // your code here\n}\n',
+      typescript: 'interface Request {\n  client: string;\n  time: number;\n}\n\nfunction rateLimit(requests: Request[], limit: number, windowMs: number): boolean[] {\n  // your code here\n}\n',
+    },
+    tests: [
+      { name: 'under limit', args: [[{ client: 'a', time: 0 }, { client: 'a', time: 10 }], 2, 1000], expected: [true, true] },
+      { name: 'over limit', args: [[{ client: 'a', time: 0 }, { client: 'a', time: 10 }, { client: 'a', time: 20 }], 2, 1000], expected: [true, true, false] },
+      { name: 'window slides', args: [[{ client: 'a', time: 0 }, { client: 'a', time: 500 }, { client: 'a', time: 1000 }], 2, 1000], expected: [true, true, true] },
+      { name: 'per client', args: [[{ client: 'a', time: 0 }, { client: 'b', time: 1 }, { client: 'a', time: 2 }, { client: 'b', time: 3 }], 1, 1000], expected: [true, true, false, false] },
+      { name: 'rejections do not count', args: [[{ client: 'a', time: 0 }, { client: 'a', time: 900 }, { client: 'a', time: 1001 }], 1, 1000], expected: [true, false, true] },
+    ],
+  },
+];
+
+export const isCodingRole = (role: string): boolean => CODING_ROLES.includes(role);
+
+export const getCodingProblem = (id: string): CodingProblem | undefined => CODING_PROBLEMS.find(p => p.id === id);
+
+/** The catalogue as the interviewer sees it when choosing a problem. */
+export function describeCodingCatalogue(problems: CodingProblem[] = CODING_PROBLEMS): string {
+  return problems.map(p => `- ${p.id} (${p.difficulty}): ${p.title}. ${p.prompt}`).join('\n');
+}
@@ -0,0 +1,116 @@
+import { QuestionReview, ResumeClaimCategory, ResumeClaimCheck, ResumeClaimStatus, SkillCoverage } from '../types';
+
+export interface RawCompetency {
+  competencyId: string;
+  score: number;
+  rationale: string;
+  evidence: string[];
+}
+
+export interface EvaluationPayload {
+  competencies: RawCompetency[];
+  feedback: string;
+  questions: QuestionReview[];
+  resumeClaims: ResumeClaimCheck[];
+  skillCoverage: SkillCoverage[];
+}
+
+// What the evaluation prompt asked for, so the response can be held to it
+export interface EvaluationExpectations {
+  competencyIds: string[];
+  bankQuestionIds: string[];
+  mustHaveSkills: string[];
+}
+
+export interface ValidatedEvaluation {
+  payload: EvaluationPayload;
+  issues: string[]; // items dropped or fields ignored, in words a recruiter can read
+  missingCompetencies: string[]; // rubric competencies without a valid score
+}
+
+const CLAIM_CATEGORIES: ResumeClaimCategory[] = ['skill', 'experience', 'project'];
+const CLAIM_STATUSES: ResumeClaimStatus[] = ['demonstrated', 'partially_demonstrated', 'not_demonstrated', 'not_discussed'];
+
+type Item = Record<string, unknown>;
+
+const isItem = (value: unknown): value is Item => typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const itemsOf = (value: unknown, field: string, issues: string[]): Item[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${field} was not a list and was ignored.`);
+    return [];
+  }
+  return value.filter((item, i): item is Item => {
+    if (!isItem(item)) issues.push(`${field} item ${i + 1} was not an object.`);
+    return isItem(item);
+  });
+};
+
+// Scores must already be on the 1-10 scale; anything else means the model misread the task
+const score = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1 && value <= 10 ? Math.round(value) : null;
+
+/**
+ * Checks a model response against the evaluation schema item by item. Invalid items are dropped
+ * and reported, so one bad question review does not cost the whole evaluation.
+ */
+export function validateEvaluationPayload(raw: unknown, expected: EvaluationExpectations): ValidatedEvaluation {
+  const issues: string[] = [];
+  const data: Item = isItem(raw) ? raw : {};
+  if (!isItem(raw)) issues.push('The response was not a JSON object.');
+
+  const competencies: RawCompetency[] = [];
+  itemsOf(data.competencies, 'competencies', issues).forEach(item => {
+    const id = text(item.competencyId);
+    const value = score(item.score);
+    if (!expected.competencyIds.includes(id)) issues.push(`Unknown competency "${id}" was ignored.`);
+    else if (competencies.some(c => c.competencyId === id)) issues.push(`Duplicate score for ${id} was ignored.`);
+    else if (value === null) issues.push(`Score ${String(item.score)} for ${id} is outside 1-10.`);
+    else if (!text(item.rationale)) issues.push(`Score for ${id} had no rationale.`);
+    else {
+      const evidence = Array.isArray(item.evidence) ? item.evidence.filter((e): e is string => typeof e === 'string' && !!e.trim()) : [];
+      competencies.push({ competencyId: id, score: value, rationale: text(item.rationale), evidence });
+    }
+  });
+
+  const questions: QuestionReview[] = [];
+  itemsOf(data.questions, 'questions', issues).forEach((item, i) => {
+    const rating = score(item.rating);
+    if (!text(item.question)) issues.push(`Question review ${i + 1} had no question.`);
+    else if (rating === null) issues.push(`Rating ${String(item.rating)} for question ${i + 1} is outside 1-10.`);
+    else {
+      const bankQuestionId = text(item.bankQuestionId);
+      if (bankQuestionId && !expected.bankQuestionIds.includes(bankQuestionId)) issues.push(`Unknown bank question "${bankQuestionId}" on question ${i + 1} was ignored.`);
+      questions.push({
+        question: text(item.question),
+        rating,
+        feedback: text(item.feedback),
+        candidateAnswerSummary: text(item.candidateAnswerSummary),
+        bankQuestionId: expected.bankQuestionIds.includes(bankQuestionId) ? bankQuestionId : undefined,
+        expectedAnswerComparison: text(item.expectedAnswerComparison) || undefined,
+      });
+    }
+  });
+
+  const skillCoverage: SkillCoverage[] = [];
+  itemsOf(data.skillCoverage, 'skillCoverage', issues).forEach(item => {
+    const skill = text(item.skill);
+    if (!expected.mustHaveSkills.includes(skill) || typeof item.demonstrated !== 'boolean') issues.push(`Skill coverage for "${skill}" was invalid.`);
+    else skillCoverage.push({ skill, demonstrated: item.demonstrated, note: text(item.note) });
+  });
+
+  const resumeClaims: ResumeClaimCheck[] = [];
+  itemsOf(data.resumeClaims, 'resumeClaims', issues).forEach(item => {
+    const category = CLAIM_CATEGORIES.find(c => c === item.category);
+    const status = CLAIM_STATUSES.find(s => s === item.status);
+    if (!text(item.claim) || !category || !status) issues.push(`Resume claim "${text(item.claim)}" was invalid.`);
+    else resumeClaims.push({ claim: text(item.claim), category, status, evidence: text(item.evidence) });
+  });
+
+  return {
+    payload: { competencies, feedback: text(data.feedback), questions, resumeClaims, skillCoverage },
+    issues,
+    missingCompetencies: expected.competencyIds.filter(id => !competencies.some(c => c.competencyId === id)),
+  };
+}
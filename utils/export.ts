@@ -0,0 +1,46 @@
+import { CandidateInfo, HumanReview, InterviewResult, InterviewTranscript, QuestionReview } from '../types';
+
+export interface SessionExport {
+  candidate: CandidateInfo;
+  result: InterviewResult;
+  transcript?: InterviewTranscript | null;
+  review?: HumanReview | null; // exported beside the untouched AI result, audit trail included
+}
+
+const slugify = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'candidate';
+
+export function exportFileName(candidate: CandidateInfo, extension: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `interna-${slugify(candidate.name)}-${date}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has picked up the URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function buildSessionJson(session: SessionExport): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), ...session }, null, 2);
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function buildQuestionsCsv(candidate: CandidateInfo, questions: QuestionReview[]): string {
+  const header = ['Candidate', 'Role', 'Question #', 'Question', 'Rating', 'Answer Summary', 'Feedback', 'Bank Question', 'Expected Answer Comparison'];
+  const rows = questions.map((q, i) => [
+    candidate.name, candidate.field, i + 1, q.question, q.rating, q.candidateAnswerSummary, q.feedback,
+    q.bankQuestionId || '', q.expectedAnswerComparison || '',
+  ]);
+  // Excel needs the BOM to read UTF-8 names correctly
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
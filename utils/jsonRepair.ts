@@ -0,0 +1,67 @@
+/**
+ * Parses model output that should be JSON but may arrive wrapped in a code fence, with trailing
+ * commas, or cut off mid-way. A truncated tail is trimmed back to the last complete element and the
+ * open brackets are closed, so whatever arrived intact is kept. Throws a SyntaxError when nothing can be saved.
+ */
+export function repairJson(text: string): unknown {
+  const start = text.search(/[[{]/);
+  if (start < 0) throw new SyntaxError('No JSON object in the response');
+  const body = text.slice(start);
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    // Fall through to the repairing scan
+  }
+
+  let out = '';
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Points the output can be cut back to, with the brackets still open there
+  const safePoints: { length: number; open: string[] }[] = [];
+
+  for (const ch of body) {
+    if (inString) {
+      out += ch;
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+      out += ch;
+      safePoints.push({ length: out.length, open: [...stack] });
+    } else if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, '') + (stack.pop() ?? '');
+      // Anything after the outermost closing bracket (a fence, a remark) is ignored
+      if (!stack.length) break;
+    } else if (ch === ',') {
+      safePoints.push({ length: out.length, open: [...stack] });
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+
+  if (inString) out += '"';
+  const close = (open: string[]) => [...open].reverse().join('');
+  try {
+    return JSON.parse(out.replace(/,\s*$/, '') + close(stack));
+  } catch {
+    // The last element is incomplete; drop elements from the end until the rest parses
+  }
+  for (let i = safePoints.length - 1; i >= 0; i--) {
+    const point = safePoints[i];
+    try {
+      return JSON.parse(out.slice(0, point.length) + close(point.open));
+    } catch {
+      continue;
+    }
+  }
+  throw new SyntaxError('Response is not repairable JSON');
+}
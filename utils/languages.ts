@@ -0,0 +1,37 @@
+import type { Locale } from '../i18n';
+
+export interface InterviewLanguage {
+  name: string; // stored on CandidateInfo.language
+  nativeName: string;
+  code: string; // BCP-47, for speech config
+  locale: Locale; // UI strings shown to the candidate
+}
+
+export const INTERVIEW_LANGUAGES: InterviewLanguage[] = [
+  { name: 'English', nativeName: 'English', code: 'en-US', locale: 'en' },
+  { name: 'Spanish', nativeName: 'Español', code: 'es-ES', locale: 'es' },
+  { name: 'French', nativeName: 'Français', code: 'fr-FR', locale: 'fr' },
+  { name: 'German', nativeName: 'Deutsch', code: 'de-DE', locale: 'de' },
+  { name: 'Hindi', nativeName: 'हिन्दी', code: 'hi-IN', locale: 'hi' },
+  { name: 'Japanese', nativeName: '日本語', code: 'ja-JP', locale: 'ja' },
+];
+
+export const DEFAULT_LANGUAGE = INTERVIEW_LANGUAGES[0];
+
+// Older records and unknown values fall back to English
+export const getInterviewLanguage = (name?: string): InterviewLanguage =>
+  INTERVIEW_LANGUAGES.find(l => l.name === name) || DEFAULT_LANGUAGE;
+
+/** Language rules for the live interviewer prompt. */
+export function describeLanguageForInterview(language: InterviewLanguage): string {
+  if (language.code === DEFAULT_LANGUAGE.code) {
+    return 'Conduct the interview in English.';
+  }
+  return `Conduct the entire interview in ${language.name} (${language.nativeName}), including the scripted intro and closing lines above: translate them naturally rather than reading them in English. Keep technical terms that are normally used untranslated (API, React, SQL) as they are. If the candidate switches language, reply in ${language.name} and politely mention that the interview is held in ${language.name}. Tool arguments and [SYSTEM] messages stay in English.`;
+}
+
+/** Language rules for the evaluation prompt. */
+export function describeLanguageForEvaluation(language: InterviewLanguage): string {
+  if (language.code === DEFAULT_LANGUAGE.code) return '';
+  return `The interview was conducted in ${language.name}. Quote evidence in the original ${language.name} exactly as spoken, and write the feedback, rationales and every other free-text field in ${language.name}. Judge the substance of the answers; do not mark the candidate down for accent or transcription errors.`;
+}
@@ -0,0 +1,26 @@
+import type { LiveConnectOptions, LiveSetup } from '../services/llm';
+import { buildScoreAnswerTool } from './adaptiveDifficulty';
+import { buildPresentCodingProblemTool, buildReviewCodeTool, describeCodingForResume } from './coding';
+import { resolveQuestionBank } from './questionBanks';
+import { buildEndInterviewTool, buildResumeInstruction, buildSystemInstruction, getTemplate, withCodingPhase } from './templates';
+import { summarizeTranscript } from './transcript';
+
+/** The interviewer's prompt, voice and tools for a live session, as every live provider configures it. */
+export function buildLiveConnectOptions({ candidate, resume }: LiveSetup): LiveConnectOptions {
+  const template = withCodingPhase(getTemplate(candidate.templateId), candidate.field);
+  const hasCodingPhase = template.phases.some(p => p.phase === 'coding');
+  // Reconnects get a recap of the conversation so the interviewer picks up where it stopped
+  const resumeInstruction = resume
+    ? buildResumeInstruction(summarizeTranscript(resume.transcript)) + (resume.coding ? describeCodingForResume(resume.coding) : '')
+    : '';
+
+  return {
+    voiceName: template.voiceName,
+    tools: [
+      buildEndInterviewTool(template),
+      buildScoreAnswerTool(),
+      ...(hasCodingPhase ? [buildPresentCodingProblemTool(), buildReviewCodeTool()] : []),
+    ],
+    systemInstruction: buildSystemInstruction(template, candidate, resolveQuestionBank(candidate)) + resumeInstruction,
+  };
+}
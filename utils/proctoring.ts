@@ -0,0 +1,146 @@
+import { ProctoringAction, ProctoringEvent, ProctoringEventType, ProctoringPolicy } from '../types';
+
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+  actions: {
+    tab_hidden: 'warn',
+    window_blur: 'warn',
+    fullscreen_exit: 'warn',
+    copy: 'warn',
+    paste: 'warn',
+    cut: 'warn',
+    context_menu: 'log',
+    camera_ended: 'terminate',
+    camera_muted: 'warn',
+    mic_ended: 'terminate',
+    mic_muted: 'warn',
+    no_speech: 'log',
+    no_face: 'warn',
+    multiple_faces: 'warn',
+    camera_covered: 'warn',
+    looking_away: 'log',
+  },
+  maxWarnings: 2,
+  dedupeWindowMs: 1500,
+};
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+  tab_hidden: 'Switched tab',
+  window_blur: 'Left interview window',
+  fullscreen_exit: 'Exited fullscreen',
+  copy: 'Copy attempt',
+  paste: 'Paste attempt',
+  cut: 'Cut attempt',
+  context_menu: 'Context menu opened',
+  camera_ended: 'Camera stopped',
+  camera_muted: 'Camera feed interrupted',
+  mic_ended: 'Microphone stopped',
+  mic_muted: 'Microphone feed interrupted',
+  no_speech: 'No speech for a long stretch',
+  no_face: 'Candidate not in frame',
+  multiple_faces: 'Multiple people in frame',
+  camera_covered: 'Camera covered or black',
+  looking_away: 'Looking away from the screen',
+};
+
+interface ProctorCallbacks {
+  // Fired for every recorded event, with the number of warnings issued so far
+  onEvent?: (event: ProctoringEvent, warningCount: number) => void;
+  // Fired once, when the policy decides the session must end
+  onTerminate: (reason: string, events: ProctoringEvent[]) => void;
+}
+
+export interface Proctor {
+  start: () => void;
+  stop: () => void;
+  watchStream: (stream: MediaStream) => void;
+  // For signals detected outside the proctor, e.g. prolonged silence from the VAD or camera findings
+  report: (type: ProctoringEventType, detail?: string, snapshot?: string) => void;
+  getEvents: () => ProctoringEvent[];
+}
+
+/**
+ * Watches the page and the candidate's media tracks for rule violations and applies
+ * the warning-then-terminate policy. Nothing is recorded until `start()` is called.
+ */
+export function createProctor(callbacks: ProctorCallbacks, policy: ProctoringPolicy = DEFAULT_PROCTORING_POLICY): Proctor {
+  const events: ProctoringEvent[] = [];
+  const lastSeen: Partial<Record<ProctoringEventType, number>> = {};
+  // Page listeners come and go with start/stop. Track listeners stay for the life of the tracks, since a
+  // stream is watched once and record() already ignores events while stopped.
+  const pageCleanups: (() => void)[] = [];
+  let warningCount = 0;
+  let active = false;
+  let terminated = false;
+
+  const record = (type: ProctoringEventType, detail?: string, snapshot?: string) => {
+    if (!active || terminated) return;
+
+    const now = Date.now();
+    // A single tab switch fires both blur and visibilitychange; count it once
+    const isFocusLoss = type === 'tab_hidden' || type === 'window_blur';
+    const dedupeKeys: ProctoringEventType[] = isFocusLoss ? ['tab_hidden', 'window_blur'] : [type];
+    const isDuplicate = dedupeKeys.some(key => now - (lastSeen[key] ?? -Infinity) < policy.dedupeWindowMs);
+    lastSeen[type] = now;
+    if (isDuplicate) return;
+
+    let action: ProctoringAction = policy.actions[type];
+    if (action === 'warn') {
+      warningCount++;
+      if (warningCount > policy.maxWarnings) action = 'terminate';
+    }
+
+    const event: ProctoringEvent = { type, timestamp: now, action, detail, snapshot };
+    events.push(event);
+    callbacks.onEvent?.(event, warningCount);
+
+    if (action === 'terminate') {
+      terminated = true;
+      callbacks.onTerminate(`Proctoring Violation: ${PROCTORING_EVENT_LABELS[type]}`, [...events]);
+    }
+  };
+
+  const listen = (target: EventTarget, name: string, handler: (e: Event) => void) => {
+    target.addEventListener(name, handler);
+    pageCleanups.push(() => target.removeEventListener(name, handler));
+  };
+
+  const blockAndRecord = (type: ProctoringEventType) => (e: Event) => {
+    e.preventDefault();
+    record(type);
+  };
+
+  const start = () => {
+    if (active) return;
+    active = true;
+
+    listen(document, 'visibilitychange', () => {
+      if (document.visibilityState === 'hidden') record('tab_hidden');
+    });
+    listen(window, 'blur', () => record('window_blur'));
+    listen(document, 'fullscreenchange', () => {
+      if (!document.fullscreenElement) record('fullscreen_exit');
+    });
+    listen(document, 'copy', blockAndRecord('copy'));
+    listen(document, 'paste', blockAndRecord('paste'));
+    listen(document, 'cut', blockAndRecord('cut'));
+    listen(document, 'contextmenu', blockAndRecord('context_menu'));
+  };
+
+  const watchStream = (stream: MediaStream) => {
+    stream.getTracks().forEach(track => {
+      const isVideo = track.kind === 'video';
+      const onEnded = () => record(isVideo ? 'camera_ended' : 'mic_ended', track.label);
+      const onMute = () => record(isVideo ? 'camera_muted' : 'mic_muted', track.label);
+      track.addEventListener('ended', onEnded);
+      track.addEventListener('mute', onMute);
+    });
+  };
+
+  const stop = () => {
+    active = false;
+    pageCleanups.forEach(fn => fn());
+    pageCleanups.length = 0;
+  };
+
+  return { start, stop, watchStream, report: record, getEvents: () => [...events] };
+}
@@ -0,0 +1,119 @@
+import { BankQuestion, CandidateInfo } from '../types';
+
+// Keyed by PREDEFINED_ROLES. These seed each role's bank until a recruiter edits it (see listQuestionBanks in
+// services/interviewStore). `required` marks the default must-ask set; recruiters can change it per interview.
+export const DEFAULT_QUESTION_BANKS: Record<string, BankQuestion[]> = {
+  "Frontend Engineer": [
+    { id: 'fe-render', text: 'What happens between a state change in a component and pixels updating on screen?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Re-render/reconciliation, virtual DOM diff or fine-grained updates, commit to DOM, style/layout/paint/composite; mentions batching.' },
+    { id: 'fe-perf', text: 'How would you find and fix a page that feels slow when scrolling?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Profile with DevTools performance panel; layout thrashing, long tasks, expensive paint; virtualization, debouncing, will-change/transform, avoiding forced sync layout.' },
+    { id: 'fe-a11y', text: 'How do you make a custom dropdown accessible?', difficulty: 'medium', required: false,
+      expectedAnswer: 'Prefer native select; otherwise ARIA roles (listbox/option), keyboard navigation, focus management, aria-expanded, labels, screen reader testing.' },
+    { id: 'fe-closure', text: 'Explain closures in JavaScript and a bug they commonly cause.', difficulty: 'easy', required: false,
+      expectedAnswer: 'Function retains its lexical scope; stale closures in hooks or loop variable capture with var; fixes via deps, refs, let.' },
+    { id: 'fe-state', text: 'When would you reach for a global state library instead of component state?', difficulty: 'hard', required: false,
+      expectedAnswer: 'Shared cross-tree state, caching server state (prefer query libs), trade-offs of re-render scope, colocation first, avoiding premature globalisation.' },
+  ],
+  "Backend Engineer": [
+    { id: 'be-idempotency', text: 'How would you make a payment endpoint safe to retry?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Idempotency keys stored with result, unique constraints, transactional outbox or at-least-once handling, returning the original response on retry.' },
+    { id: 'be-index', text: 'A query got slow as the table grew. How do you investigate?', difficulty: 'medium', required: true,
+      expectedAnswer: 'EXPLAIN/ANALYZE, missing or unused indexes, selectivity, N+1 queries, pagination strategy, caching; verifies with metrics.' },
+    { id: 'be-consistency', text: 'Explain the trade-offs between strong and eventual consistency.', difficulty: 'hard', required: false,
+      expectedAnswer: 'CAP/PACELC, latency vs correctness, read-your-writes, conflict resolution, where each is acceptable.' },
+    { id: 'be-auth', text: 'How do sessions compare to JWTs for authentication?', difficulty: 'easy', required: false,
+      expectedAnswer: 'Server-side state vs self-contained tokens, revocation difficulty, token size, storage and CSRF/XSS considerations, refresh tokens.' },
+    { id: 'be-queue', text: 'When would you put a message queue between two services?', difficulty: 'medium', required: false,
+      expectedAnswer: 'Decoupling, load levelling, retries and dead-letter queues, ordering and duplicate handling, added operational complexity.' },
+  ],
+  "Full Stack Developer": [
+    { id: 'fs-flow', text: 'Walk me through what happens when a user submits a form until the data is saved.', difficulty: 'medium', required: true,
+      expectedAnswer: 'Client validation, request serialisation, HTTP/TLS, routing, server validation, auth, persistence in a transaction, response and UI update, error handling.' },
+    { id: 'fs-cache', text: 'Where can caching happen in a web application and what can go wrong?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Browser/HTTP cache, CDN, app cache, DB cache; invalidation, stale data, cache stampede, per-user data leaks.' },
+    { id: 'fs-api', text: 'How would you design an API for a paginated, filterable list?', difficulty: 'easy', required: false,
+      expectedAnswer: 'Cursor vs offset pagination, filter params, stable sorting, limits, consistent response shape, indexes backing the filters.' },
+    { id: 'fs-deploy', text: 'How do you ship a database schema change without downtime?', difficulty: 'hard', required: false,
+      expectedAnswer: 'Expand/contract migrations, backwards-compatible code first, backfills, feature flags, avoiding long locks.' },
+  ],
+  "DevOps Engineer": [
+    { id: 'do-incident', text: 'Production latency doubled after a deploy. What do you do?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Mitigate first (rollback), check dashboards/traces, compare versions, communicate, then root cause and postmortem.' },
+    { id: 'do-ci', text: 'What makes a CI/CD pipeline trustworthy?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Reproducible builds, fast reliable tests, artifact promotion, environment parity, automated rollback, secrets management.' },
+    { id: 'do-k8s', text: 'How do Kubernetes readiness and liveness probes differ?', difficulty: 'easy', required: false,
+      expectedAnswer: 'Readiness gates traffic, liveness restarts the container; misconfigured liveness causes restart loops; startup probes.' },
+    { id: 'do-iac', text: 'How do you manage infrastructure drift?', difficulty: 'hard', required: false,
+      expectedAnswer: 'Infrastructure as code, plan/diff in CI, restricting console access, drift detection, state management and locking.' },
+  ],
+  "Data Scientist": [
+    { id: 'ds-leak', text: 'What is data leakage and how do you prevent it?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Training on information unavailable at prediction time; proper splits (time-based), fitting preprocessing on train only, target leakage checks.' },
+    { id: 'ds-ab', text: 'How would you design an A/B test for a new recommendation model?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Hypothesis and primary metric, randomisation unit, power/sample size, guardrail metrics, duration, novelty effects, significance testing.' },
+    { id: 'ds-imbalance', text: 'How do you handle a heavily imbalanced classification problem?', difficulty: 'easy', required: false,
+      expectedAnswer: 'Appropriate metrics (PR-AUC, recall), resampling or class weights, threshold tuning, cost-sensitive evaluation.' },
+    { id: 'ds-bias-variance', text: 'Explain the bias-variance trade-off with an example.', difficulty: 'easy', required: false,
+      expectedAnswer: 'Underfitting vs overfitting, model complexity, regularisation, cross-validation to choose.' },
+  ],
+  "Product Manager": [
+    { id: 'pm-prioritise', text: 'How do you decide what goes into the next quarter?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Ties to strategy/goals, impact vs effort frameworks, evidence from users and data, stakeholder alignment, saying no explicitly.' },
+    { id: 'pm-metric', text: 'A key metric dropped 10% week over week. How do you respond?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Validate data, segment (platform, region, cohort), check releases and external factors, form hypotheses, communicate.' },
+    { id: 'pm-discovery', text: 'How do you validate a problem before building a solution?', difficulty: 'easy', required: false,
+      expectedAnswer: 'User interviews, data analysis, prototypes, smallest test that could invalidate the assumption.' },
+    { id: 'pm-tradeoff', text: 'Tell me about a time you cut scope to hit a date.', difficulty: 'hard', required: false,
+      expectedAnswer: 'Concrete example, how must-haves were identified, stakeholder communication, outcome and follow-up.' },
+  ],
+  "QA Engineer": [
+    { id: 'qa-strategy', text: 'How would you build a test strategy for a new checkout flow?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Risk-based prioritisation, test pyramid, payment edge cases, cross-browser/device, data setup, exploratory testing.' },
+    { id: 'qa-flaky', text: 'How do you deal with flaky automated tests?', difficulty: 'medium', required: true,
+      expectedAnswer: 'Quarantine and track, find root cause (timing, shared state, environment), explicit waits, isolation, not just retrying.' },
+    { id: 'qa-bug', text: 'What makes a good bug report?', difficulty: 'easy', required: false,
+      expectedAnswer: 'Clear title, reproduction steps, expected vs actual, environment, evidence (logs/screenshots), severity.' },
+    { id: 'qa-api', text: 'How would you test a REST API with no UI?', difficulty: 'medium', required: false,
+      expectedAnswer: 'Contract/schema validation, status codes, auth, boundary values, idempotency, automation with an HTTP client.' },
+  ],
+};
+
+/** The role's bank as it stood when the interview was set up, with the recruiter's must-ask selection. */
+export function resolveQuestionBank(candidate: CandidateInfo): BankQuestion[] {
+  if (candidate.questionBank) return candidate.questionBank;
+  // Set up before banks were editable: the default bank, with must-ask flags from the selected ids
+  const bank = DEFAULT_QUESTION_BANKS[candidate.field] || [];
+  if (!candidate.mustAskQuestionIds) return bank;
+  return bank.map(q => ({ ...q, required: candidate.mustAskQuestionIds!.includes(q.id) }));
+}
+
+/** A blank question for the bank editor. */
+export const createBankQuestion = (): BankQuestion => ({
+  id: crypto.randomUUID(),
+  text: '',
+  difficulty: 'medium',
+  expectedAnswer: '',
+  required: false,
+});
+
+/** Bank rendered for the live session prompt. Expected answers stay out so the interviewer cannot leak them. */
+export function describeBankForInterview(bank: BankQuestion[]): string {
+  const mustAsk = bank.filter(q => q.required);
+  const optional = bank.filter(q => !q.required);
+  const lines: string[] = [];
+  if (mustAsk.length) {
+    lines.push('MUST-ASK questions (ask each of these, in your own words, during the technical phase):');
+    mustAsk.forEach(q => lines.push(`- [${q.difficulty}] ${q.text}`));
+  }
+  if (optional.length) {
+    lines.push('OPTIONAL questions (prefer these over inventing new ones for the remaining technical questions):');
+    optional.forEach(q => lines.push(`- [${q.difficulty}] ${q.text}`));
+  }
+  return lines.join('\n');
+}
+
+/** Bank rendered for the evaluation prompt, including the expected-answer notes to grade against. */
+export function describeBankForEvaluation(bank: BankQuestion[]): string {
+  return bank.map(q => `- id=${q.id} [${q.difficulty}${q.required ? ', must-ask' : ''}] ${q.text}\n    Expected: ${q.expectedAnswer}`).join('\n');
+}
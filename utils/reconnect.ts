@@ -0,0 +1,11 @@
+export const MAX_RECONNECT_ATTEMPTS = 6;
+export const CONNECTION_LOST_REASON = 'Connection Lost';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+
+/** Exponential backoff with jitter: ~1s, 2s, 4s, 8s, then capped at 15s. */
+export function reconnectDelayMs(attempt: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
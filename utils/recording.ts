@@ -0,0 +1,60 @@
+import { SessionRecording } from '../types';
+
+const PREFERRED_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+export function pickRecordingMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+export interface SessionRecorder {
+  start: () => void;
+  stop: () => Promise<SessionRecording | undefined>;
+}
+
+/**
+ * Records the candidate's camera together with an audio mix of their mic and the AI voice.
+ * `audioMix` is a MediaStreamAudioDestinationNode the caller feeds both sources into.
+ */
+export function createSessionRecorder(video: MediaStream, audioMix: MediaStream): SessionRecorder | null {
+  const mimeType = pickRecordingMimeType();
+  if (!mimeType) return null;
+
+  const mixed = new MediaStream([...video.getVideoTracks(), ...audioMix.getAudioTracks()]);
+  const recorder = new MediaRecorder(mixed, { mimeType });
+  const chunks: Blob[] = [];
+  let startedAt = 0;
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  return {
+    start: () => {
+      if (recorder.state !== 'inactive') return;
+      startedAt = Date.now();
+      // Timeslice keeps memory bounded and means a crash loses at most a second
+      recorder.start(1000);
+    },
+    stop: () => new Promise(resolve => {
+      if (recorder.state === 'inactive') {
+        resolve(undefined);
+        return;
+      }
+      recorder.onstop = () => {
+        resolve(chunks.length ? {
+          blob: new Blob(chunks, { type: mimeType }),
+          mimeType,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        } : undefined);
+      };
+      recorder.stop();
+    }),
+  };
+}
@@ -0,0 +1,169 @@
+import { ResumeEntry, ResumeProfile } from '../types';
+
+export const RESUME_ACCEPT = '.pdf,.docx,.txt,.md';
+
+const MAX_SKILLS = 40;
+const MAX_ENTRIES = 8;
+const MAX_DETAILS = 6;
+const EXCERPT_LENGTH = 1500;
+
+type Section = 'skills' | 'experience' | 'projects' | 'other';
+
+const SECTION_HEADINGS: [Section, RegExp][] = [
+  ['skills', /^(technical |core |key )?(skills|competencies|technologies|tech stack|tools)( & tools| and tools)?$/i],
+  ['experience', /^(work |professional |relevant )?(experience|employment( history)?|work history|career history)$/i],
+  ['projects', /^(personal |academic |key |selected )?projects$/i],
+  ['other', /^(education|certifications?|awards|achievements|publications|interests|hobbies|languages|summary|profile|objective|about( me)?|references|volunteering)$/i],
+];
+
+const BULLET = /^[-•*▪◦●‣–]\s*/;
+const PERIOD = /((jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+)?(19|20)\d{2}\s*(-|–|—|to)\s*((jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+)?((19|20)\d{2}|present|current|now)/i;
+
+const sectionFor = (line: string): Section | null => {
+  const heading = line.replace(/[:\s]+$/, '').trim();
+  if (heading.length > 40) return null;
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0] ?? null;
+};
+
+const parseSkills = (lines: string[]): string[] => {
+  const skills = lines
+    // "Languages: TypeScript, Go" -> "TypeScript, Go"
+    .map(line => line.replace(BULLET, '').replace(/^[^:,]{1,30}:\s*/, ''))
+    .flatMap(line => line.split(/[,;|•·]|\s\/\s/))
+    .map(skill => skill.trim().replace(/\.$/, ''))
+    .filter(skill => skill.length > 1 && skill.length <= 40);
+  return Array.from(new Set(skills)).slice(0, MAX_SKILLS);
+};
+
+// Non-bullet lines start a new entry; bullets (and wrapped lines) become its details
+const parseEntries = (lines: string[]): ResumeEntry[] => {
+  const entries: ResumeEntry[] = [];
+  lines.forEach(line => {
+    const current = entries[entries.length - 1];
+    if (BULLET.test(line) && current) {
+      current.details.push(line.replace(BULLET, ''));
+      return;
+    }
+    const period = line.match(PERIOD)?.[0];
+    // A date line right under a heading belongs to that heading
+    if (period && current && !current.period && current.details.length === 0 && line.replace(PERIOD, '').trim().length < 3) {
+      current.period = period;
+      return;
+    }
+    if (current && current.details.length > 0 && /^[a-z]/.test(line)) {
+      current.details[current.details.length - 1] += ` ${line}`;
+      return;
+    }
+    const heading = line.replace(PERIOD, '').replace(/[\s,|–—-]+$/, '').trim();
+    entries.push({ heading: heading || line, period, details: [] });
+  });
+  return entries.slice(0, MAX_ENTRIES).map(entry => ({ ...entry, details: entry.details.slice(0, MAX_DETAILS) }));
+};
+
+/** Splits resume text into skills, experience and projects using its section headings. */
+export function parseResume(text: string, fileName: string): ResumeProfile {
+  const sections: Record<Section, string[]> = { skills: [], experience: [], projects: [], other: [] };
+  let section: Section = 'other';
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    const heading = sectionFor(line);
+    if (heading) section = heading;
+    else sections[section].push(line);
+  });
+
+  const profile: ResumeProfile = {
+    fileName,
+    skills: parseSkills(sections.skills),
+    experience: parseEntries(sections.experience),
+    projects: parseEntries(sections.projects),
+  };
+  if (!profile.skills.length && !profile.experience.length && !profile.projects.length) {
+    profile.excerpt = text.replace(/\s+/g, ' ').trim().substring(0, EXCERPT_LENGTH);
+  }
+  return profile;
+}
+
+// --- File extraction ---
+
+const readPdfText = async (data: ArrayBuffer): Promise<string> => {
+  // Loaded on demand; pdf.js is large and only needed when a PDF is attached
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const content = await (await pdf.getPage(i)).getTextContent();
+    pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join(''));
+  }
+  await pdf.destroy();
+  return pages.join('\n');
+};
+
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// A .docx is a zip archive; the body text lives in word/document.xml
+const readZipEntry = async (data: ArrayBuffer, name: string): Promise<Uint8Array | null> => {
+  const view = new DataView(data);
+  let end = data.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) return null;
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+    if (entryName === name) {
+      const start = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const bytes = new Uint8Array(data, start, compressedSize);
+      return method === 0 ? bytes : inflateRaw(bytes);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const readDocxText = async (data: ArrayBuffer): Promise<string> => {
+  const xml = await readZipEntry(data, 'word/document.xml');
+  if (!xml) throw new Error('Not a valid .docx file');
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+  return Array.from(doc.getElementsByTagNameNS(W, 'p'))
+    .map(p => Array.from(p.getElementsByTagNameNS(W, 't')).map(t => t.textContent).join(''))
+    .join('\n');
+};
+
+/** Reads an uploaded resume (PDF, DOCX or plain text) and parses it, entirely in the browser. */
+export async function extractResume(file: File): Promise<ResumeProfile> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let text: string;
+  if (extension === 'pdf' || file.type === 'application/pdf') text = await readPdfText(await file.arrayBuffer());
+  else if (extension === 'docx') text = await readDocxText(await file.arrayBuffer());
+  else text = await file.text();
+
+  if (!text.trim()) throw new Error('No text found in the resume. Scanned PDFs are not supported.');
+  return parseResume(text, file.name);
+}
+
+const describeEntries = (label: string, entries: ResumeEntry[]) => entries.length
+  ? [`${label}:`, ...entries.map(e => `- ${e.heading}${e.period ? ` (${e.period})` : ''}${e.details.length ? `: ${e.details.join('; ')}` : ''}`)]
+  : [];
+
+/** Resume rendered for prompts. */
+export function describeResume(resume: ResumeProfile): string {
+  const lines = [
+    ...(resume.skills.length ? [`Skills: ${resume.skills.join(', ')}`] : []),
+    ...describeEntries('Experience', resume.experience),
+    ...describeEntries('Projects', resume.projects),
+  ];
+  if (resume.excerpt) lines.push(`Resume text: ${resume.excerpt}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+import { HiringDecision, HumanReview, InterviewResult, ReviewAnchor, ReviewAuditEntry } from '../types';
+import { formatScore } from './rubrics';
+
+export const EMPTY_REVIEW: HumanReview = { questions: {}, comments: [], audit: [] };
+
+export const DECISION_LABELS: Record<HiringDecision, string> = {
+  advance: 'Advance',
+  hold: 'On Hold',
+  reject: 'Reject',
+};
+
+const verdictLabel = (rating: number, passed: boolean) => `${formatScore(rating)} (${passed ? 'qualified' : 'not qualified'})`;
+
+const withAudit = (review: HumanReview, entry: ReviewAuditEntry): HumanReview => ({ ...review, audit: [...review.audit, entry] });
+
+export function describeAnchor(anchor: ReviewAnchor): string {
+  return anchor.kind === 'question' ? `Question ${anchor.questionIndex + 1}` : `Transcript turn ${anchor.turnId}`;
+}
+
+/** Why an override cannot be saved yet, or null when it can. */
+export function validateOverride(score: number, justification: string): string | null {
+  if (!Number.isFinite(score) || score < 1 || score > 10) return 'Enter a score from 1 to 10.';
+  if (!justification.trim()) return 'Explain why you are overriding the score.';
+  return null;
+}
+
+/** The verdict to act on: the reviewer's override when there is one, the AI's otherwise. */
+export function effectiveVerdict(result: InterviewResult, review?: HumanReview | null) {
+  const overall = review?.overall;
+  return overall
+    ? { rating: overall.score, passed: overall.passed, overridden: true }
+    : { rating: result.rating, passed: result.passed, overridden: false };
+}
+
+export function effectiveQuestionRating(result: InterviewResult, review: HumanReview | null | undefined, index: number): number {
+  return review?.questions[index]?.score ?? result.questions?.[index]?.rating ?? 0;
+}
+
+export function overrideOverall(
+  review: HumanReview, result: InterviewResult, override: { score: number; passed: boolean; justification: string }, author: string, now: number = Date.now(),
+): HumanReview {
+  const before = effectiveVerdict(result, review);
+  const justification = override.justification.trim();
+  return withAudit(
+    { ...review, overall: { score: override.score, passed: override.passed, justification, author, at: now } },
+    { at: now, author, action: 'override_overall', target: 'Overall', from: verdictLabel(before.rating, before.passed), to: verdictLabel(override.score, override.passed), note: justification },
+  );
+}
+
+export function overrideQuestion(
+  review: HumanReview, result: InterviewResult, index: number, score: number, justification: string, author: string, now: number = Date.now(),
+): HumanReview {
+  const trimmed = justification.trim();
+  return withAudit(
+    { ...review, questions: { ...review.questions, [index]: { score, justification: trimmed, author, at: now } } },
+    { at: now, author, action: 'override_question', target: `Question ${index + 1}`, from: String(effectiveQuestionRating(result, review, index)), to: String(score), note: trimmed },
+  );
+}
+
+/** Drops an override so the AI's score applies again; the override stays in the audit trail. */
+export function revertOverride(
+  review: HumanReview, result: InterviewResult, target: 'overall' | number, justification: string, author: string, now: number = Date.now(),
+): HumanReview {
+  const note = justification.trim();
+  if (target === 'overall') {
+    if (!review.overall) return review;
+    const { overall, ...rest } = review;
+    return withAudit(rest, {
+      at: now, author, action: 'revert_override', target: 'Overall',
+      from: verdictLabel(overall.score, overall.passed), to: verdictLabel(result.rating, result.passed), note,
+    });
+  }
+  const current = review.questions[target];
+  if (!current) return review;
+  const { [target]: _, ...questions } = review.questions;
+  return withAudit({ ...review, questions }, {
+    at: now, author, action: 'revert_override', target: `Question ${target + 1}`,
+    from: String(current.score), to: String(result.questions?.[target]?.rating ?? ''), note,
+  });
+}
+
+export function addComment(review: HumanReview, anchor: ReviewAnchor, text: string, author: string, now: number = Date.now()): HumanReview {
+  const comment = { id: crypto.randomUUID(), anchor, text: text.trim(), author, createdAt: now };
+  return withAudit(
+    { ...review, comments: [...review.comments, comment] },
+    { at: now, author, action: 'comment', target: describeAnchor(anchor), note: comment.text },
+  );
+}
+
+export function removeComment(review: HumanReview, id: string, author: string, now: number = Date.now()): HumanReview {
+  const comment = review.comments.find(c => c.id === id);
+  if (!comment) return review;
+  return withAudit(
+    { ...review, comments: review.comments.filter(c => c.id !== id) },
+    { at: now, author, action: 'remove_comment', target: describeAnchor(comment.anchor), note: comment.text },
+  );
+}
+
+export function recordDecision(review: HumanReview, value: HiringDecision, note: string, author: string, now: number = Date.now()): HumanReview {
+  return withAudit(
+    { ...review, decision: { value, note: note.trim(), author, at: now } },
+    { at: now, author, action: 'decision', target: 'Final decision', from: review.decision && DECISION_LABELS[review.decision.value], to: DECISION_LABELS[value], note: note.trim() || undefined },
+  );
+}
+
+const anchorKey = (anchor: ReviewAnchor) => (anchor.kind === 'turn' ? `turn:${anchor.turnId}` : `question:${anchor.questionIndex}`);
+
+export const commentsFor = (review: HumanReview | null | undefined, anchor: ReviewAnchor) =>
+  (review?.comments || []).filter(c => anchorKey(c.anchor) === anchorKey(anchor));
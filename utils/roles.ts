@@ -0,0 +1,9 @@
+export const PREDEFINED_ROLES = [
+  "Frontend Engineer", 
+  "Backend Engineer", 
+  "Full Stack Developer", 
+  "DevOps Engineer", 
+  "Data Scientist",
+  "Product Manager",
+  "QA Engineer"
+];
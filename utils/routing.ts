@@ -0,0 +1,20 @@
+// Hash routes, so a static build serves every screen from index.html
+export type Route =
+  | { mode: 'recruiter' }
+  | { mode: 'candidate'; token: string };
+
+const CANDIDATE_PREFIX = '#/interview/';
+
+export function parseRoute(hash: string = window.location.hash): Route {
+  if (hash.startsWith(CANDIDATE_PREFIX)) {
+    const token = hash.slice(CANDIDATE_PREFIX.length).trim();
+    if (token) return { mode: 'candidate', token };
+  }
+  return { mode: 'recruiter' };
+}
+
+/** Shareable link that opens the candidate flow for `token`. */
+export function candidateLink(token: string): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${CANDIDATE_PREFIX}${token}`;
+}
@@ -0,0 +1,166 @@
+import { CompetencyScore, Rubric, RubricCompetency, RubricLevel } from '../types';
+
+const levels = (strong: string, solid: string, developing: string, weak: string): RubricLevel[] => [
+  { minScore: 8, label: 'Strong', descriptor: strong },
+  { minScore: 6, label: 'Solid', descriptor: solid },
+  { minScore: 4, label: 'Developing', descriptor: developing },
+  { minScore: 1, label: 'Weak', descriptor: weak },
+];
+
+const communication: RubricCompetency = {
+  id: 'communication',
+  name: 'Communication',
+  description: 'Explains ideas clearly, structures answers and adapts to follow-up questions.',
+  weight: 0.2,
+  levels: levels(
+    'Concise, well-structured answers; checks understanding and handles follow-ups smoothly.',
+    'Generally clear with minor rambling or gaps in structure.',
+    'Understandable but disorganised; needs prompting to get to the point.',
+    'Hard to follow, evasive or mostly off-topic.',
+  ),
+};
+
+const problemSolving: RubricCompetency = {
+  id: 'problem_solving',
+  name: 'Problem Solving',
+  description: 'Breaks problems down, reasons about trade-offs and justifies decisions.',
+  weight: 0.25,
+  levels: levels(
+    'Decomposes problems unprompted, weighs alternatives and names trade-offs.',
+    'Reaches sound solutions with a reasonable explanation of why.',
+    'Gets partway with hints; reasoning is shallow or inconsistent.',
+    'Cannot make progress or guesses without reasoning.',
+  ),
+};
+
+const roleFit: RubricCompetency = {
+  id: 'role_fit',
+  name: 'Role Fit',
+  description: 'Experience and motivation match the responsibilities in the job description.',
+  weight: 0.15,
+  levels: levels(
+    'Directly relevant experience; motivation clearly aligned with the role.',
+    'Mostly relevant experience with some transferable gaps.',
+    'Limited relevant experience or vague motivation.',
+    'Little connection between background and the role.',
+  ),
+};
+
+const technical = (description: string): RubricCompetency => ({
+  id: 'technical_depth',
+  name: 'Technical Depth',
+  description,
+  weight: 0.4,
+  levels: levels(
+    'Accurate, detailed answers that go beyond the basics, including edge cases and internals.',
+    'Correct on core concepts with some gaps on advanced topics.',
+    'Partial or imprecise understanding of core concepts.',
+    'Frequent factual errors or no meaningful technical content.',
+  ),
+});
+
+export const RUBRICS: Rubric[] = [
+  {
+    id: 'software-engineering',
+    name: 'Software Engineering',
+    roles: ['Frontend Engineer', 'Backend Engineer', 'Full Stack Developer', 'DevOps Engineer'],
+    competencies: [
+      technical('Command of the languages, frameworks, systems and tooling named in the job description.'),
+      problemSolving,
+      communication,
+      roleFit,
+    ],
+    passThreshold: 6.5,
+  },
+  {
+    id: 'data-science',
+    name: 'Data Science',
+    roles: ['Data Scientist'],
+    competencies: [
+      technical('Statistics, modelling, experimentation and data tooling appropriate to the role.'),
+      problemSolving,
+      communication,
+      roleFit,
+    ],
+    passThreshold: 6.5,
+  },
+  {
+    id: 'quality-engineering',
+    name: 'Quality Engineering',
+    roles: ['QA Engineer'],
+    competencies: [
+      technical('Test strategy, automation frameworks and defect analysis.'),
+      { ...problemSolving, name: 'Risk Analysis', description: 'Identifies what can break, prioritises coverage and reasons about failure modes.' },
+      communication,
+      roleFit,
+    ],
+    passThreshold: 6,
+  },
+  {
+    id: 'product-management',
+    name: 'Product Management',
+    roles: ['Product Manager'],
+    competencies: [
+      { ...technical('Product sense: user needs, prioritisation, metrics and roadmap trade-offs.'), id: 'product_sense', name: 'Product Sense', weight: 0.35 },
+      { ...problemSolving, weight: 0.2 },
+      { ...communication, name: 'Stakeholder Communication', weight: 0.3 },
+      roleFit,
+    ],
+    passThreshold: 6.5,
+  },
+];
+
+export const DEFAULT_RUBRIC = RUBRICS[0];
+
+export function getRubricForRole(role: string): Rubric {
+  return RUBRICS.find(rubric => rubric.roles.includes(role)) || DEFAULT_RUBRIC;
+}
+
+export function levelForScore(competency: RubricCompetency, score: number): RubricLevel {
+  return competency.levels.find(level => score >= level.minScore) || competency.levels[competency.levels.length - 1];
+}
+
+/** Rubric rendered as text for the evaluation prompt. */
+export function describeRubric(rubric: Rubric): string {
+  return rubric.competencies.map(c => [
+    `- ${c.id} (${c.name}, weight ${c.weight}): ${c.description}`,
+    ...c.levels.map(level => `    ${level.minScore}+ ${level.label}: ${level.descriptor}`),
+  ].join('\n')).join('\n');
+}
+
+interface RawCompetencyScore {
+  competencyId?: string;
+  score?: number;
+  rationale?: string;
+  evidence?: string[];
+}
+
+/** Scores and ratings are kept unrounded so averages stay exact; this is how they are shown. */
+export const formatScore = (score: number) => String(Math.round(score * 10) / 10);
+
+/**
+ * Matches the evaluator's per-competency scores to the rubric and computes the weighted
+ * overall score. Competencies the evaluator skipped are scored 1 rather than dropped,
+ * so a missing dimension cannot inflate the result. Averaged scores are not rounded,
+ * so the verdict is taken on the exact rating.
+ */
+export function scoreAgainstRubric(rubric: Rubric, raw: RawCompetencyScore[]) {
+  const totalWeight = rubric.competencies.reduce((sum, c) => sum + c.weight, 0) || 1;
+
+  const competencies: CompetencyScore[] = rubric.competencies.map(c => {
+    const match = raw.find(r => r.competencyId === c.id);
+    const score = Math.min(10, Math.max(1, match?.score ?? 1));
+    return {
+      competencyId: c.id,
+      name: c.name,
+      weight: c.weight / totalWeight,
+      score,
+      level: levelForScore(c, score).label,
+      rationale: match?.rationale || 'Not assessed.',
+      evidence: match?.evidence || [],
+    };
+  });
+
+  const rating = competencies.reduce((sum, c) => sum + c.score * c.weight, 0);
+  return { competencies, rating, passed: rating >= rubric.passThreshold };
+}
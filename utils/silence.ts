@@ -0,0 +1,64 @@
+import { SilencePeriod } from '../types';
+
+export const LONG_SILENCE_MS = 8000; // counted in the engagement metric
+export const REPROMPT_SILENCE_MS = 15000; // the interviewer checks in
+export const NO_SPEECH_PROCTOR_MS = 90000; // raised as a proctoring event
+
+export type SilenceAction = 'reprompt' | 'no_speech';
+
+export interface SilenceTracker {
+  // `isAwaitingAnswer`: the interviewer has finished and nobody is talking
+  update: (isAwaitingAnswer: boolean, lastSpeechAt: number, now?: number) => SilenceAction | null;
+  getSilences: (now?: number) => SilencePeriod[];
+}
+
+/**
+ * Times the gaps where the candidate is expected to answer and does not. Each gap asks for
+ * at most one re-prompt; the no-speech flag is raised once per stretch without any speech.
+ */
+export function createSilenceTracker(): SilenceTracker {
+  const silences: SilencePeriod[] = [];
+  let open: SilencePeriod | null = null;
+  let flaggedSpeechAt = -1;
+
+  const close = (now: number) => {
+    if (!open) return;
+    open.durationMs = now - open.startedAt;
+    if (open.durationMs >= LONG_SILENCE_MS) silences.push(open);
+    open = null;
+  };
+
+  const update = (isAwaitingAnswer: boolean, lastSpeechAt: number, now: number = Date.now()): SilenceAction | null => {
+    if (!isAwaitingAnswer) {
+      close(now);
+    } else {
+      if (!open) open = { startedAt: now, durationMs: 0, reprompted: false };
+      if (!open.reprompted && now - open.startedAt >= REPROMPT_SILENCE_MS) {
+        open.reprompted = true;
+        return 'reprompt';
+      }
+    }
+
+    if (now - lastSpeechAt >= NO_SPEECH_PROCTOR_MS && flaggedSpeechAt !== lastSpeechAt) {
+      flaggedSpeechAt = lastSpeechAt;
+      return 'no_speech';
+    }
+    return null;
+  };
+
+  const getSilences = (now: number = Date.now()) => {
+    const all = [...silences];
+    if (open && now - open.startedAt >= LONG_SILENCE_MS) all.push({ ...open, durationMs: now - open.startedAt });
+    return all;
+  };
+
+  return { update, getSilences };
+}
+
+/** Engagement line for the evaluation prompt. */
+export function describeSilences(silences: SilencePeriod[]): string {
+  if (silences.length === 0) return '';
+  const longest = Math.max(...silences.map(s => s.durationMs));
+  const reprompts = silences.filter(s => s.reprompted).length;
+  return `The candidate went silent for ${LONG_SILENCE_MS / 1000}s or more ${silences.length} time(s) when an answer was expected (longest ${Math.round(longest / 1000)}s, ${reprompts} needed a re-prompt). Consider this for communication and engagement, not for technical knowledge.`;
+}
@@ -0,0 +1,104 @@
+import { SeniorityLevel, SkillMatrix } from '../types';
+
+export const SENIORITY_LEVELS: SeniorityLevel[] = ['intern', 'junior', 'mid', 'senior', 'staff'];
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  intern: 'Intern',
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  staff: 'Staff / Principal',
+};
+
+// Vocabulary for the offline extractor; the LLM analysis is not limited to it
+const KNOWN_SKILLS = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'Go', 'Golang', 'Rust', 'C++', 'C#', 'Ruby', 'PHP', 'Kotlin', 'Swift', 'Scala', 'SQL',
+  'React', 'Next.js', 'Vue', 'Angular', 'Svelte', 'Redux', 'HTML', 'CSS', 'Tailwind', 'Accessibility', 'Web Performance',
+  'Node.js', 'Express', 'Django', 'Flask', 'FastAPI', 'Spring', '.NET', 'Rails', 'GraphQL', 'REST', 'gRPC', 'Microservices',
+  'PostgreSQL', 'MySQL', 'MongoDB', 'Redis', 'Kafka', 'RabbitMQ', 'Elasticsearch', 'DynamoDB',
+  'AWS', 'GCP', 'Azure', 'Docker', 'Kubernetes', 'Terraform', 'Ansible', 'CI/CD', 'Jenkins', 'GitHub Actions', 'Linux', 'Prometheus', 'Grafana', 'Observability',
+  'Machine Learning', 'Deep Learning', 'Statistics', 'A/B Testing', 'Pandas', 'NumPy', 'scikit-learn', 'TensorFlow', 'PyTorch', 'Spark', 'Airflow', 'Data Visualization', 'NLP',
+  'Selenium', 'Cypress', 'Playwright', 'Jest', 'Test Automation', 'Performance Testing', 'API Testing',
+  'System Design', 'Distributed Systems', 'Security', 'Agile', 'Scrum', 'Roadmapping', 'Stakeholder Management', 'User Research', 'Analytics', 'Product Strategy', 'Jira',
+];
+
+const DOMAINS: [string, RegExp][] = [
+  ['Fintech', /\b(fintech|payments?|banking|lending|trading|insurance)\b/i],
+  ['Healthcare', /\b(health ?care|clinical|medical|patients?|pharma)\b/i],
+  ['E-commerce', /\b(e-?commerce|retail|marketplace|checkout)\b/i],
+  ['Education', /\b(edtech|education|learning platform|students)\b/i],
+  ['Gaming', /\b(gaming|games?)\b/i],
+  ['Logistics', /\b(logistics|supply chain|fleet|delivery)\b/i],
+  ['Security', /\b(cyber ?security|threat|infosec)\b/i],
+  ['Media', /\b(media|streaming|video platform|publishing)\b/i],
+  ['B2B SaaS', /\b(saas|b2b|enterprise software)\b/i],
+];
+
+const NICE_TO_HAVE = /\b(nice[ -]to[ -]have|preferred|bonus|a plus|desirable|good to have|optional)\b/i;
+const MUST_HAVE = /\b(requirements?|required|must|qualifications|what you('|’)ll need|you have|responsibilities)\b/i;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+// Short names ("Go", "REST", "Vue") only match as written, so ordinary words like "rest" do not count
+const mentions = (text: string, skill: string) =>
+  new RegExp(`(^|[^\\w+#.])${escapeRegExp(skill)}(?![\\w+#])`, skill.length > 6 || skill.includes(' ') ? 'i' : '').test(text);
+
+const inferSeniority = (jd: string): SeniorityLevel => {
+  if (/\b(principal|staff|architect)\b/i.test(jd)) return 'staff';
+  if (/\b(senior|sr\.?|lead)\b/i.test(jd)) return 'senior';
+  if (/\b(intern|internship|trainee)\b/i.test(jd)) return 'intern';
+  if (/\b(junior|jr\.?|entry[ -]level|graduate|fresher)\b/i.test(jd)) return 'junior';
+  const years = jd.match(/(\d+)\s*\+?\s*(years|yrs)/i);
+  if (years) {
+    const n = Number(years[1]);
+    return n >= 8 ? 'staff' : n >= 5 ? 'senior' : n >= 2 ? 'mid' : 'junior';
+  }
+  return 'mid';
+};
+
+/**
+ * Keyword-based extraction used offline and when the LLM analysis fails. Skills on lines under
+ * (or mentioning) "nice to have", "preferred" etc. are nice-to-have; everything else is a must-have.
+ */
+export function extractSkillMatrix(jobDescription: string): SkillMatrix {
+  const mustHave = new Set<string>();
+  const niceToHave = new Set<string>();
+  let inNiceSection = false;
+
+  jobDescription.split(/\r?\n/).forEach(line => {
+    const isHeading = line.trim().length < 60 && !/[.,;]\s/.test(line);
+    if (isHeading && NICE_TO_HAVE.test(line)) inNiceSection = true;
+    else if (isHeading && MUST_HAVE.test(line)) inNiceSection = false;
+    const nice = inNiceSection || NICE_TO_HAVE.test(line);
+    KNOWN_SKILLS.filter(skill => mentions(line, skill)).forEach(skill => (nice ? niceToHave : mustHave).add(skill));
+  });
+
+  return {
+    mustHave: Array.from(mustHave),
+    niceToHave: Array.from(niceToHave).filter(skill => !mustHave.has(skill)),
+    seniority: inferSeniority(jobDescription),
+    domain: DOMAINS.find(([, pattern]) => pattern.test(jobDescription))?.[0] || 'General',
+  };
+}
+
+/** Cleans up an analysed or edited matrix: trimmed, de-duplicated, no skill in both lists. */
+export function normalizeSkillMatrix(matrix: Partial<SkillMatrix>, fallback: SkillMatrix): SkillMatrix {
+  const clean = (skills?: string[]) => Array.from(new Set((skills || []).map(s => s.trim()).filter(Boolean)));
+  const mustHave = clean(matrix.mustHave);
+  const mustHaveKeys = new Set(mustHave.map(s => s.toLowerCase()));
+  return {
+    mustHave: mustHave.length ? mustHave : fallback.mustHave,
+    niceToHave: clean(matrix.niceToHave).filter(s => !mustHaveKeys.has(s.toLowerCase())),
+    seniority: SENIORITY_LEVELS.includes(matrix.seniority as SeniorityLevel) ? matrix.seniority! : fallback.seniority,
+    domain: matrix.domain?.trim() || fallback.domain,
+  };
+}
+
+/** Matrix rendered for the interview and evaluation prompts. */
+export function describeSkillMatrix(matrix: SkillMatrix): string {
+  return [
+    `Seniority: ${SENIORITY_LABELS[matrix.seniority]}`,
+    `Domain: ${matrix.domain}`,
+    `Must-have skills: ${matrix.mustHave.join(', ') || 'none listed'}`,
+    `Nice-to-have skills: ${matrix.niceToHave.join(', ') || 'none listed'}`,
+  ].join('\n');
+}
@@ -0,0 +1,191 @@
+import { BankQuestion, CandidateInfo, InterviewPhase, InterviewTemplate, InterviewTemplatePhase } from '../types';
+import { describeBankForInterview } from './questionBanks';
+import { describeAdaptiveProtocol } from './adaptiveDifficulty';
+import { describeResume } from './resume';
+import { describeSkillMatrix } from './skillMatrix';
+import { describeLanguageForInterview, getInterviewLanguage } from './languages';
+import { isCodingRole } from './codingProblems';
+import { describeCodingProtocol } from './coding';
+import { ToolDeclaration } from '../services/llm';
+
+export const VOICE_OPTIONS = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede'];
+
+export const INTERVIEW_TEMPLATES: InterviewTemplate[] = [
+  {
+    id: 'standard',
+    name: 'Standard Screen',
+    description: 'One behavioral warm-up followed by five technical questions.',
+    personaName: 'Interna',
+    voiceName: 'Puck',
+    phases: [
+      { phase: 'intro', questionCount: 0, timeBudgetSec: 30, guidance: 'Greet the candidate and introduce yourself.' },
+      { phase: 'behavioral', questionCount: 1, timeBudgetSec: 90, guidance: 'Ask a quick behavioral question, e.g. "Tell me about yourself" or "Why this role?".' },
+      { phase: 'technical', questionCount: 5, timeBudgetSec: 450, guidance: 'Ask technical questions relevant to the role and context.' },
+      { phase: 'closing', questionCount: 0, timeBudgetSec: 30, guidance: 'Wrap up politely.' },
+    ],
+    closing: { message: 'Thank you, this concludes our interview.', allowCandidateQuestions: false },
+  },
+  {
+    id: 'quick',
+    name: 'Quick Screen',
+    description: 'A five-minute phone-screen style check with three technical questions.',
+    personaName: 'Interna',
+    voiceName: 'Kore',
+    phases: [
+      { phase: 'intro', questionCount: 0, timeBudgetSec: 20, guidance: 'Greet the candidate briefly.' },
+      { phase: 'behavioral', questionCount: 1, timeBudgetSec: 60, guidance: 'Ask why they are interested in the role.' },
+      { phase: 'technical', questionCount: 3, timeBudgetSec: 200, guidance: 'Ask fundamental technical questions; keep them short.' },
+      { phase: 'closing', questionCount: 0, timeBudgetSec: 20, guidance: 'Wrap up politely.' },
+    ],
+    closing: { message: 'Thanks for your time, that is all for this screen.', allowCandidateQuestions: false },
+  },
+  {
+    id: 'deep-technical',
+    name: 'Deep Technical',
+    description: 'Eight technical questions with room for follow-ups, then time for candidate questions.',
+    personaName: 'Interna',
+    voiceName: 'Charon',
+    phases: [
+      { phase: 'intro', questionCount: 0, timeBudgetSec: 30, guidance: 'Greet the candidate and explain the format.' },
+      { phase: 'behavioral', questionCount: 1, timeBudgetSec: 90, guidance: 'Ask about a recent technically challenging project.' },
+      { phase: 'technical', questionCount: 8, timeBudgetSec: 960, guidance: 'Ask technical questions of increasing depth; probe design trade-offs.' },
+      { phase: 'closing', questionCount: 0, timeBudgetSec: 120, guidance: 'Answer the candidate\'s questions about the role briefly.' },
+    ],
+    closing: { message: 'Thank you, this concludes our interview.', allowCandidateQuestions: true },
+  },
+  {
+    id: 'behavioral',
+    name: 'Behavioral Focus',
+    description: 'Four behavioral questions on collaboration and ownership, two technical checks.',
+    personaName: 'Interna',
+    voiceName: 'Aoede',
+    phases: [
+      { phase: 'intro', questionCount: 0, timeBudgetSec: 30, guidance: 'Greet the candidate warmly.' },
+      { phase: 'behavioral', questionCount: 4, timeBudgetSec: 420, guidance: 'Ask for specific past situations (STAR format): conflict, ownership, failure, feedback.' },
+      { phase: 'technical', questionCount: 2, timeBudgetSec: 180, guidance: 'Ask practical technical questions relevant to the role.' },
+      { phase: 'closing', questionCount: 0, timeBudgetSec: 90, guidance: 'Answer the candidate\'s questions about the team briefly.' },
+    ],
+    closing: { message: 'Thank you, this concludes our interview.', allowCandidateQuestions: true },
+  },
+];
+
+export const DEFAULT_TEMPLATE = INTERVIEW_TEMPLATES[0];
+
+export function getTemplate(id?: string): InterviewTemplate {
+  return INTERVIEW_TEMPLATES.find(t => t.id === id) || DEFAULT_TEMPLATE;
+}
+
+const CODING_PHASE: InterviewTemplatePhase = {
+  phase: 'coding',
+  questionCount: 1,
+  timeBudgetSec: 900,
+  guidance: 'Run a live coding exercise in the shared editor.',
+};
+
+/** Engineering roles get a live coding phase just before the closing; other roles run the template as is. */
+export function withCodingPhase(template: InterviewTemplate, role: string): InterviewTemplate {
+  if (!isCodingRole(role) || template.phases.some(p => p.phase === 'coding')) return template;
+  const closing = template.phases.findIndex(p => p.phase === 'closing');
+  const at = closing === -1 ? template.phases.length : closing;
+  return { ...template, phases: [...template.phases.slice(0, at), CODING_PHASE, ...template.phases.slice(at)] };
+}
+
+export function templateDurationSec(template: InterviewTemplate): number {
+  return template.phases.reduce((sum, p) => sum + p.timeBudgetSec, 0);
+}
+
+export function totalQuestions(template: InterviewTemplate): number {
+  return template.phases.reduce((sum, p) => sum + p.questionCount, 0);
+}
+
+/** Phase of each planned question, in order; used to label transcript turns. */
+export function questionPhases(template: InterviewTemplate): InterviewPhase[] {
+  return template.phases.flatMap(p => Array<InterviewPhase>(p.questionCount).fill(p.phase));
+}
+
+export function buildEndInterviewTool(template: InterviewTemplate): ToolDeclaration {
+  return {
+    name: "endInterview",
+    description: `Ends the interview session. Call this right after the closing message once all ${totalQuestions(template)} questions are completed, or when the candidate asks to end.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: {
+          type: 'string',
+          description: "The reason for ending the interview. Use exactly 'Completed' when the interview finished normally."
+        }
+      },
+      required: ["reason"]
+    }
+  };
+}
+
+/** Appended to the system instruction when a dropped session reconnects mid-interview. */
+export function buildResumeInstruction(transcriptSummary: string): string {
+  return `\n\n**RESUMING AFTER A DROPPED CONNECTION:**
+The connection dropped and has been restored. Do NOT greet the candidate or restart the interview.
+${transcriptSummary}
+Briefly say the connection was lost, then continue. If the last question was not fully answered, ask it again; otherwise ask the next question. Keep the same question numbering.`;
+}
+
+export function buildSystemInstruction(template: InterviewTemplate, candidate: CandidateInfo, bank: BankQuestion[] = []): string {
+  const persona = template.personaName;
+  const steps: string[] = [];
+  let questionNumber = 0;
+
+  template.phases.forEach(p => {
+    const budget = `about ${Math.round(p.timeBudgetSec / 60 * 10) / 10} min`;
+    switch (p.phase) {
+      case 'intro':
+        steps.push(`**IMMEDIATE INTRO (${budget}):** As soon as you connect, say: "Hello ${candidate.name}, I am ${persona}, your AI interviewer from Internadda. Welcome to your assessment for the ${candidate.field} role. Let's begin." ${p.guidance}`);
+        break;
+      case 'closing': {
+        const questions = template.closing.allowCandidateQuestions
+          ? `First ask if the candidate has any questions and answer them briefly (${budget}). Then say`
+          : 'Say';
+        steps.push(`**CONCLUSION:** After question ${questionNumber}, ${questions}: "${template.closing.message}" and IMMEDIATELY call the 'endInterview' tool with reason 'Completed'.`);
+        break;
+      }
+      case 'coding':
+        questionNumber += 1;
+        steps.push(`**CODING (question ${questionNumber}, ${budget}):** ${p.guidance}
+${describeCodingProtocol()}`);
+        break;
+      default: {
+        if (p.questionCount === 0) break;
+        const first = questionNumber + 1;
+        questionNumber += p.questionCount;
+        const range = p.questionCount === 1 ? `question ${first}` : `questions ${first}-${questionNumber}`;
+        steps.push(`**${p.phase.toUpperCase()} (${p.questionCount} question${p.questionCount === 1 ? '' : 's'}, ${range}, ${budget}):** ${p.guidance}
+   - Ask one by one. Wait for the answer.
+   - Acknowledge the answer briefly (e.g., "Good point", "Understood") before moving to the next.`);
+      }
+    }
+  });
+
+  const bankSection = bank.length
+    ? `\n\n**QUESTION BANK:**\n${describeBankForInterview(bank)}\nMust-ask questions take priority over the question counts above.`
+    : '';
+
+  const resumeSection = candidate.resume
+    ? `\n\n**CANDIDATE RESUME:**\n${describeResume(candidate.resume)}\nTailor at least two technical questions to claims on this resume. Ask what the candidate personally did, which trade-offs they made and what they would change, so the claim is tested rather than restated.`
+    : '';
+
+  return `You are ${persona}, an AI Interviewer developed by Internadda.
+Candidate Name: ${candidate.name}
+Role: ${candidate.field}
+${candidate.skillMatrix
+  ? `Role requirements (approved by the recruiter):\n${describeSkillMatrix(candidate.skillMatrix)}\nFocus technical questions on the must-have skills and pitch them at this seniority.`
+  : `Context: ${candidate.jobDescription.substring(0, 1000)}`}
+
+**INTERVIEW PROTOCOL:**
+${steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}
+
+Ask exactly ${questionNumber} questions in total.${bankSection}${resumeSection}
+
+${describeAdaptiveProtocol()}
+
+**LANGUAGE:** ${describeLanguageForInterview(getInterviewLanguage(candidate.language))}
+
+If you receive a message starting with [SYSTEM], follow it without reading it aloud.`;
+}
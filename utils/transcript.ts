@@ -0,0 +1,167 @@
+import { InterviewPhase, InterviewTranscript, TranscriptSpeaker, TranscriptTurn } from '../types';
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  ai: 'AI',
+  user: 'Candidate',
+};
+
+export const PHASE_LABELS: Record<InterviewPhase, string> = {
+  intro: 'Introduction',
+  behavioral: 'Behavioral',
+  technical: 'Technical',
+  coding: 'Live Coding',
+  closing: 'Closing',
+};
+
+// Without a template plan, assume the standard protocol: one behavioral question, then technical.
+// Questions beyond the plan (follow-ups the model added) stay in the last planned phase.
+const phaseForQuestion = (questionIndex: number | null, plan?: InterviewPhase[]): InterviewPhase => {
+  if (questionIndex === null) return 'intro';
+  if (plan?.length) return plan[Math.min(questionIndex, plan.length - 1)];
+  return questionIndex === 0 ? 'behavioral' : 'technical';
+};
+
+// Japanese and Chinese questions end in a full-width question mark
+const isQuestion = (text: string) => /[?？]/.test(text);
+
+const lastQuestionIndex = (turns: TranscriptTurn[]): number | null => {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].questionIndex !== null) return turns[i].questionIndex;
+  }
+  return null;
+};
+
+const replaceLast = (transcript: InterviewTranscript, turn: TranscriptTurn): InterviewTranscript => ({
+  ...transcript,
+  turns: [...transcript.turns.slice(0, -1), turn],
+});
+
+// Closing an AI turn is where we learn whether it asked a new question
+const closeTurn = (transcript: InterviewTranscript, turns: TranscriptTurn[], turn: TranscriptTurn, endedAt: number): TranscriptTurn => {
+  if (turn.speaker === 'ai' && isQuestion(turn.text)) {
+    const previous = lastQuestionIndex(turns.slice(0, -1));
+    const questionIndex = previous === null ? 0 : previous + 1;
+    return { ...turn, isFinal: true, endedAt, questionIndex, phase: phaseForQuestion(questionIndex, transcript.questionPhases) };
+  }
+  return { ...turn, isFinal: true, endedAt };
+};
+
+export function createTranscript(startedAt: number = Date.now(), questionPhases?: InterviewPhase[]): InterviewTranscript {
+  return { startedAt, turns: [], questionPhases };
+}
+
+/**
+ * Folds a streamed transcription chunk into the transcript. Chunks extend the open turn
+ * of the same speaker; a new speaker (or a closed turn) starts a new turn.
+ */
+export function appendTranscriptChunk(
+  transcript: InterviewTranscript,
+  speaker: TranscriptSpeaker,
+  text: string,
+  timestamp: number = Date.now(),
+): InterviewTranscript {
+  if (!text) return transcript;
+  let turns = transcript.turns;
+  const last = turns[turns.length - 1];
+
+  if (last && last.speaker === speaker && !last.isFinal) {
+    return replaceLast(transcript, { ...last, text: last.text + text });
+  }
+
+  // The other speaker's open turn is implicitly over once someone else talks
+  if (last && !last.isFinal) {
+    turns = [...turns.slice(0, -1), closeTurn(transcript, turns, last, timestamp)];
+  }
+
+  const questionIndex = lastQuestionIndex(turns);
+  const turn: TranscriptTurn = {
+    id: turns.length,
+    speaker,
+    text,
+    startedAt: timestamp,
+    isFinal: false,
+    questionIndex,
+    phase: phaseForQuestion(questionIndex, transcript.questionPhases),
+  };
+  return { ...transcript, turns: [...turns, turn] };
+}
+
+/** Marks the open turn of `speaker` as final, if there is one. */
+export function closeTranscriptTurn(
+  transcript: InterviewTranscript,
+  speaker: TranscriptSpeaker,
+  timestamp: number = Date.now(),
+): InterviewTranscript {
+  const last = transcript.turns[transcript.turns.length - 1];
+  if (!last || last.speaker !== speaker || last.isFinal) return transcript;
+  return replaceLast(transcript, closeTurn(transcript, transcript.turns, last, timestamp));
+}
+
+/** Flags the latest AI turn as cut off by the candidate and closes it. */
+export function markTurnInterrupted(transcript: InterviewTranscript, timestamp: number = Date.now()): InterviewTranscript {
+  const last = transcript.turns[transcript.turns.length - 1];
+  if (!last || last.speaker !== 'ai') return transcript;
+  const closed = last.isFinal ? last : closeTurn(transcript, transcript.turns, last, timestamp);
+  return replaceLast(transcript, { ...closed, interrupted: true });
+}
+
+/**
+ * Closes any open turn and stamps the end time. AI turns after the candidate's last
+ * answer that do not ask anything are the sign-off, so they move to the closing phase.
+ */
+export function finalizeTranscript(transcript: InterviewTranscript, endedAt: number = Date.now()): InterviewTranscript {
+  const closed = closeTranscriptTurn(closeTranscriptTurn(transcript, 'ai', endedAt), 'user', endedAt);
+  let lastUserTurn = -1;
+  closed.turns.forEach((turn, i) => { if (turn.speaker === 'user') lastUserTurn = i; });
+
+  const turns = closed.turns.map((turn, i) =>
+    i > lastUserTurn && turn.speaker === 'ai' && !isQuestion(turn.text) && lastUserTurn >= 0
+      ? { ...turn, phase: 'closing' as InterviewPhase }
+      : turn
+  );
+  return { ...closed, turns, endedAt };
+}
+
+/** Phase the conversation is currently in, judged from the latest turn. */
+export function currentPhase(transcript: InterviewTranscript): InterviewPhase {
+  const last = transcript.turns[transcript.turns.length - 1];
+  return last ? last.phase : 'intro';
+}
+
+/** Number of questions the interviewer has asked so far. */
+export function questionsAsked(transcript: InterviewTranscript): number {
+  const index = lastQuestionIndex(transcript.turns);
+  return index === null ? 0 : index + 1;
+}
+
+/** The AI turn that asked question `questionIndex`, if the transcript captured it. */
+export function findQuestionTurn(transcript: InterviewTranscript, questionIndex: number): TranscriptTurn | undefined {
+  return transcript.turns.find(turn => turn.speaker === 'ai' && turn.questionIndex === questionIndex);
+}
+
+const clip = (text: string, max: number) => text.length > max ? `${text.substring(0, max)}...` : text;
+
+/**
+ * Compact recap for a reconnected live session: every question asked so far plus where the
+ * conversation stopped, so the interviewer can pick up without replaying the whole transcript.
+ */
+export function summarizeTranscript(transcript: InterviewTranscript): string {
+  const turns = transcript.turns.filter(turn => turn.text.trim());
+  const questions = turns.filter(turn => turn.speaker === 'ai' && turn.questionIndex !== null && isQuestion(turn.text));
+  const asked = questions.map(turn => `Q${turn.questionIndex! + 1}: ${clip(turn.text.trim(), 160)}`);
+  const last = turns[turns.length - 1];
+  const where = !last
+    ? 'The interview had not started yet.'
+    : last.speaker === 'ai'
+      ? `It stopped while you were speaking: "${clip(last.text.trim(), 200)}"`
+      : `It stopped while the candidate was answering: "${clip(last.text.trim(), 200)}"`;
+  return [`Questions asked so far: ${asked.length}`, ...asked, where].join('\n');
+}
+
+/** Plain-text form used in evaluation prompts. */
+export function serializeTranscript(transcript: InterviewTranscript): string {
+  return transcript.turns
+    .filter(turn => turn.text.trim())
+    .map(turn => `${SPEAKER_LABELS[turn.speaker]}: ${turn.text.trim()}${turn.interrupted ? ' [interrupted]' : ''}`)
+    .join('\n');
+}
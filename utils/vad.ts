@@ -0,0 +1,86 @@
+// Voice activity detection over the ~100ms loudness readings from the capture worklet
+
+const DEFAULT_NOISE_FLOOR = 0.005;
+const MIN_THRESHOLD = 0.012; // below this even a silent room's hiss would count as speech
+const ONSET_RATIO = 3; // ~10dB above the floor starts speech
+const RELEASE_RATIO = 2; // ~6dB above the floor keeps it going (hysteresis)
+const CALIBRATION_MS = 1500;
+const FLOOR_ADAPT = 0.02; // per reading, only while nobody is speaking
+
+export interface VadOptions {
+  // Ambient RMS measured before the interview (see Instructions); calibrates on the fly otherwise
+  noiseFloor?: number;
+  // Speech must stay above the onset threshold this long before it counts (filters clicks and coughs)
+  attackMs?: number;
+  // Speech stays "on" this long after the level drops (bridges pauses between words)
+  hangoverMs?: number;
+}
+
+export interface VadUpdate {
+  isSpeaking: boolean;
+  onset: boolean; // speech started on this reading
+  offset: boolean; // speech ended on this reading
+}
+
+export interface VoiceActivityDetector {
+  process: (rms: number, durationMs: number) => VadUpdate;
+  getNoiseFloor: () => number;
+}
+
+/** Room level from a run of RMS readings. The lower quartile ignores the candidate talking over the check. */
+export function estimateNoiseFloor(readings: number[]): number {
+  const sorted = [...readings].sort((a, b) => a - b);
+  return Math.max(sorted[Math.floor(sorted.length / 4)] || 0, DEFAULT_NOISE_FLOOR / 2);
+}
+
+/**
+ * Adaptive-threshold VAD. The noise floor follows the room while the candidate is quiet,
+ * so a fan or AC does not read as speech and a quiet voice in a silent room still does.
+ */
+export function createVoiceActivityDetector({ noiseFloor, attackMs = 150, hangoverMs = 700 }: VadOptions = {}): VoiceActivityDetector {
+  let floor = noiseFloor && noiseFloor > 0 ? noiseFloor : DEFAULT_NOISE_FLOOR;
+  let calibrationLeftMs = noiseFloor && noiseFloor > 0 ? 0 : CALIBRATION_MS;
+  let calibrationSamples: number[] = [];
+  let speaking = false;
+  let aboveMs = 0;
+  let belowMs = 0;
+
+  const process = (rms: number, durationMs: number): VadUpdate => {
+    if (calibrationLeftMs > 0) {
+      // Start-up calibration from the first readings
+      calibrationSamples.push(rms);
+      calibrationLeftMs -= durationMs;
+      if (calibrationLeftMs <= 0) {
+        floor = estimateNoiseFloor(calibrationSamples);
+        calibrationSamples = [];
+      }
+    }
+
+    const onsetLevel = Math.max(MIN_THRESHOLD, floor * ONSET_RATIO);
+    const releaseLevel = Math.max(MIN_THRESHOLD * 0.75, floor * RELEASE_RATIO);
+    let onset = false;
+    let offset = false;
+
+    if (!speaking) {
+      aboveMs = rms > onsetLevel ? aboveMs + durationMs : 0;
+      if (aboveMs >= attackMs) {
+        speaking = true;
+        onset = true;
+        belowMs = 0;
+      } else if (rms < onsetLevel) {
+        floor += (rms - floor) * FLOOR_ADAPT;
+      }
+    } else {
+      belowMs = rms < releaseLevel ? belowMs + durationMs : 0;
+      if (belowMs >= hangoverMs) {
+        speaking = false;
+        offset = true;
+        aboveMs = 0;
+      }
+    }
+
+    return { isSpeaking: speaking, onset, offset };
+  };
+
+  return { process, getNoiseFloor: () => floor };
+}
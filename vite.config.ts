@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
     server: {
       port: 3000,
       host: "0.0.0.0",
+      // The API server (npm run server) holds the Gemini key; the bundle only ever sees session tokens
+      proxy: {
+        "/api": { target: `http://localhost:${env.PORT || 8787}`, ws: true },
+      },
     },
     plugins: [react()],
     define: {
-      "process.env.API_KEY": JSON.stringify(env.GEMINI_API_KEY),
-      "process.env.GEMINI_API_KEY": JSON.stringify(env.GEMINI_API_KEY),
+      "process.env.LLM_PROVIDER": JSON.stringify(env.LLM_PROVIDER),
+      "process.env.API_BASE_URL": JSON.stringify(env.API_BASE_URL),
     },
     resolve: {
       alias: {